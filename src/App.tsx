@@ -1,243 +1,235 @@
-import { useState, useEffect, useRef, useCallback } from "react";
-import axios from "axios";
-import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
-import { Star } from "lucide-react";
-import { Input } from "@/components/ui/input";
+import { useState, useEffect, useRef } from "react";
+import { SlidersHorizontal } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useDebounce } from "@/hooks/useDebounce";
 import clsx from "clsx";
 import { Skeleton } from "@/components/ui/skeleton";
-import { baseUrl } from "./lib/utils";
-
-type User = { login: string };
-type Repo = { id: number; name: string; description: string; stargazers_count: number; html_url: string };
-interface ResultsProps {
-  users: User[];
-  reposMap: Record<string, Repo[]>;
-  loadingRepos: string | null;
-  loadRepos: (login: string) => void;
-  searchTime: number | null;
-  searchTerm: string;
-  totalCount: number;
-}
-
-interface RepoListProps {
-  repos?: Repo[];
-  isLoading: boolean;
-}
-
-interface SearchBarProps {
-  inputRef: React.RefObject<HTMLInputElement>;
-  username: string;
-  setUsername: (val: string) => void;
-  clearSearch: () => void;
-}
+import { ExplorerContext, useExplorer, useExplorerStore } from "@/hooks/useExplorerStore";
+import { useLocalStorage } from "@/hooks/useLocalStorage";
+import { STORAGE_KEYS } from "@/lib/storage";
+import type { RepoPrefetch } from "@/lib/repo-pages";
+import { SEARCH_RESULT_LIMIT } from "@/lib/pagination";
+import { Pagination } from "@/components/Pagination";
+import { SettingsPanel } from "@/components/SettingsPanel";
+import { RateLimitIndicator } from "@/components/RateLimitIndicator";
+import { ErrorAlert } from "@/components/ErrorAlert";
+import { SearchFilters } from "@/components/SearchFilters";
+import { RepoSearchFiltersPanel } from "@/components/RepoSearchFiltersPanel";
+import { SearchModeToggle } from "@/components/SearchModeToggle";
+import { RepoResults } from "@/components/RepoResults";
+import { UserResults } from "@/components/UserResults";
+import { RepoDrawer } from "@/components/RepoDrawer";
+import { CompareTray } from "@/components/CompareTray";
+import { ComparisonTable } from "@/components/ComparisonTable";
+import { ExportMenu } from "@/components/ExportMenu";
+import { WatchlistPanel } from "@/components/WatchlistPanel";
+import { SaveSearchButton } from "@/components/SaveSearchButton";
+import { SearchBar } from "@/components/SearchBar";
+import { KeyboardShortcuts } from "@/components/KeyboardShortcuts";
+import {
+  selectDraft,
+  selectDraftRequest,
+  selectHasResults,
+  selectPageCount,
+  selectRepoResults,
+  selectRequest,
+  selectUsers,
+} from "@/lib/explorer-store";
+import { buildSearchRequest, countActiveFilters, countActiveRepoFilters } from "@/lib/search-query";
+import { rememberSearch } from "@/lib/search-history";
+import { parseUrlState, serializeUrlState, type UrlState } from "@/lib/url-state";
+
+/** Key of the `history.state` flag set on every entry the explorer has been on. */
+const HISTORY_MARK = "github-explorer";
 
 export default function App() {
-  const [username, setUsername] = useState("");
-  const debouncedUsername = useDebounce(username, 500);
+  const [initialUrlState] = useState(() => parseUrlState(window.location.search));
+  const store = useExplorerStore(initialUrlState);
+  const { state, dispatch, actions } = store;
+  const { mode, term, filters, repoFilters, showFilters, committed, page, expanded, searching, error } = state;
+  // Mode, term and filters settle together, so a mode switch never pairs with a stale term.
+  const debouncedMode = useDebounce(mode, 500);
+  const debouncedTerm = useDebounce(term, 500);
+  const debouncedFilters = useDebounce(filters, 500);
+  const debouncedRepoFilters = useDebounce(repoFilters, 500);
+  const [prefetch] = useLocalStorage<RepoPrefetch>(STORAGE_KEYS.prefetch, "hover");
+  // Page and expanded user from the URL, applied to the URL's own search only. They are kept until
+  // another search runs, since StrictMode's remount aborts that search and it runs again.
+  const pendingRestore = useRef<UrlState | null>(initialUrlState);
+  const lastUrlState = useRef(window.location.search);
   const inputRef = useRef<HTMLInputElement>(null);
-  const [users, setUsers] = useState<User[]>([]);
-  const [reposMap, setReposMap] = useState<Record<string, Repo[]>>({});
-  const [totalCount, setTotalCount] = useState(0);
-  const [searchTime, setSearchTime] = useState<number | null>(null);
-  const [loadingUser, setLoadingUser] = useState(false);
-  const [loadingRepos, setLoadingRepos] = useState<string | null>(null);
-  const [error, setError] = useState("");
-
-  const searchUsers = async (query: string) => {
-    if (!query) return;
-    const start = performance.now();
-    setLoadingUser(true);
-    setError("");
-    setUsers([]);
-    setReposMap({});
-    setSearchTime(null);
-    try {
-      const res = await axios.get(`${baseUrl}/search/users?q=${query}&per_page=10`);
-      setUsers(res.data.items || []);
-      setTotalCount(res.data.total_count ?? 0);
-      setSearchTime(performance.now() - start);
-    } catch {
-      setError("Failed to fetch users.");
-    } finally {
-      setLoadingUser(false);
-    }
-  };
-
-  const loadRepos = useCallback(async (userLogin: string) => {
-    if (reposMap[userLogin]) return;
-    setLoadingRepos(userLogin);
-    try {
-      const res = await axios.get(`${baseUrl}/users/${userLogin}/repos`);
-      setReposMap(prev => ({ ...prev, [userLogin]: res.data }));
-    } catch {
-      setError("Failed to fetch repositories.");
-    } finally {
-      setLoadingRepos(null);
-    }
-  }, [reposMap]);
-
-  const clearSearch = () => {
-    setUsername("");
-    setUsers([]);
-    setReposMap({});
-    setError("");
-    inputRef.current?.focus();
-  };
+  const request = selectRequest(state);
+  const users = selectUsers(state);
+  const repoResults = selectRepoResults(state);
 
   useEffect(() => {
-    if (!debouncedUsername.trim()) {
-      clearSearch();
+    const input = {
+      mode: debouncedMode,
+      term: debouncedTerm,
+      filters: debouncedFilters,
+      repoFilters: debouncedRepoFilters,
+    };
+    const next = buildSearchRequest(input);
+    if (!next.q) {
+      pendingRestore.current = null;
+      actions.clear();
       return;
     }
-    searchUsers(debouncedUsername);
-  }, [debouncedUsername]);
+    if (actions.isCurrentSearch(next)) return;
+    const pending = pendingRestore.current;
+    if (pending && JSON.stringify(buildSearchRequest(pending)) !== JSON.stringify(next)) pendingRestore.current = null;
+    actions.search(input, pendingRestore.current ?? {});
+  }, [debouncedMode, debouncedTerm, debouncedFilters, debouncedRepoFilters, actions]);
+
+  // A shared link is a search asked for on purpose, so it goes to the recent history like a submitted one.
+  // Entries the explorer has been on are marked, so reloading one or coming back to it records nothing.
+  useEffect(() => {
+    if (window.history.state?.[HISTORY_MARK]) return;
+    window.history.replaceState({ [HISTORY_MARK]: true }, "");
+    if (buildSearchRequest(initialUrlState).q) rememberSearch(initialUrlState);
+  }, [initialUrlState]);
+
+  // Background prefetch warms every visible user; loads run in parallel and land in the cache.
+  useEffect(() => {
+    if (prefetch === "background") users.forEach(user => actions.loadRepos(user.login));
+  }, [prefetch, users, actions]);
+
+  // Mirror the committed search into the URL: a new history entry per search or
+  // page, while opening and closing users only replaces the current entry.
+  useEffect(() => {
+    const next = request.q ? serializeUrlState({ ...committed, page, expanded }) : "";
+    if (next === window.location.search) return;
+    const withoutUser = (search: string) => serializeUrlState({ ...parseUrlState(search), expanded: null });
+    const method = withoutUser(next) === withoutUser(lastUrlState.current) ? "replaceState" : "pushState";
+    window.history[method]({ [HISTORY_MARK]: true }, "", `${window.location.pathname}${next}${window.location.hash}`);
+    lastUrlState.current = next;
+  }, [committed, page, expanded, request.q]);
+
+  useEffect(() => {
+    const onPopState = () => {
+      lastUrlState.current = window.location.search;
+      actions.restore(parseUrlState(window.location.search));
+    };
+    window.addEventListener("popstate", onPopState);
+    return () => window.removeEventListener("popstate", onPopState);
+  }, [actions]);
 
-  const hasResults = users.length > 0 || loadingUser || error;
+  const currentRequest = selectDraftRequest(state);
+  const activeFilters = mode === "repos" ? countActiveRepoFilters(repoFilters) : countActiveFilters(filters);
+
+  const hasResults = selectHasResults(state);
 
   return (
-    <div className="min-h-screen w-full px-4 sm:px-6 md:px-8 py-6 text-gray-800">
-      <div className={clsx("transition-all duration-500 flex flex-col items-center w-full",
-        hasResults ? "mt-4 max-w-3xl mx-auto" : "justify-center h-[80vh]")}>
-        <h1 className={clsx("text-2xl font-bold mb-6", hasResults && "text-center")}>
-          GitHub User Explorer
-        </h1>
-        <div className="w-full max-w-lg relative mb-2">
-          <SearchBar
-            inputRef={inputRef}
-            username={username}
-            setUsername={setUsername}
-            clearSearch={clearSearch}
-          />
-          <Button
-            onClick={() => searchUsers(username)}
-            disabled={!username.trim()}
-            className="w-full max-w-lg bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white mb-6">
-            Search
-          </Button>
+    <ExplorerContext.Provider value={store}>
+      <div className="min-h-screen w-full px-4 sm:px-6 md:px-8 py-6 text-gray-800">
+        <div className="fixed top-4 right-4 flex items-center gap-2">
+          <RateLimitIndicator />
+          <WatchlistPanel />
+          <SettingsPanel />
         </div>
-        {loadingUser && (
-          <div className="w-full space-y-3">
-            {[...Array(5)].map((_, i) => (
-              <div key={i} className="border p-4 rounded bg-white shadow-sm">
-                <div className="w-1/3 mb-2">
-                  <Skeleton data-testid="loading-skeleton-user" className="h-4 w-32" />
-                </div>
-                <Skeleton data-testid="loading-skeleton-user" className="h-3 w-full" />
+        <div className={clsx("transition-all duration-500 flex flex-col items-center w-full",
+          hasResults ? "mt-4 max-w-3xl mx-auto" : "justify-center h-[80vh]")}>
+          <h1 className={clsx("text-2xl font-bold mb-6", hasResults && "text-center")}>
+            GitHub User Explorer
+          </h1>
+          <div className="w-full max-w-lg relative mb-2">
+            <SearchModeToggle />
+            <div className="flex items-start gap-2">
+              <SearchBar inputRef={inputRef} />
+              <SaveSearchButton input={selectDraft(state)} />
+              <Button
+                variant={showFilters ? "secondary" : "outline"}
+                aria-expanded={showFilters}
+                aria-controls="search-filters"
+                onClick={() => dispatch({ type: "filters/toggled" })}>
+                <SlidersHorizontal />
+                Filters{activeFilters > 0 && ` (${activeFilters})`}
+              </Button>
+            </div>
+            {showFilters && (
+              <div id="search-filters">
+                {mode === "repos" ? (
+                  <RepoSearchFiltersPanel
+                    filters={repoFilters}
+                    onChange={(next) => dispatch({ type: "repo-filters/changed", filters: next })}
+                    effectiveQuery={currentRequest.q}
+                  />
+                ) : (
+                  <SearchFilters
+                    filters={filters}
+                    onChange={(next) => dispatch({ type: "filters/changed", filters: next })}
+                    effectiveQuery={currentRequest.q}
+                  />
+                )}
               </div>
-            ))}
+            )}
+            <Button
+              onClick={() => actions.submit(selectDraft(state))}
+              disabled={!currentRequest.q}
+              className="w-full max-w-lg bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white mb-6">
+              Search
+            </Button>
           </div>
-        )}
+          {searching && (
+            <div className="w-full space-y-3">
+              {[...Array(5)].map((_, i) => (
+                <div key={i} className="border p-4 rounded bg-white shadow-sm">
+                  <div className="w-1/3 mb-2">
+                    <Skeleton data-testid="loading-skeleton-user" className="h-4 w-32" />
+                  </div>
+                  <Skeleton data-testid="loading-skeleton-user" className="h-3 w-full" />
+                </div>
+              ))}
+            </div>
+          )}
 
-        {error && <p className="text-red-500 text-sm">{error}</p>}
-
-        {users.length > 0 && (
-          <Results
-            users={users}
-            reposMap={reposMap}
-            loadingRepos={loadingRepos}
-            loadRepos={loadRepos}
-            searchTime={searchTime}
-            searchTerm={debouncedUsername}
-            totalCount={totalCount}
-          />
-        )}
-      </div>
-    </div>
-  );
-}
-function SearchBar({ inputRef, username, setUsername, clearSearch, }: SearchBarProps) {
-  return (
-    <div className="w-full max-w-lg relative mb-2">
-      <Input
-        ref={inputRef}
-        value={username}
-        onChange={(e) => setUsername(e.target.value)}
-        placeholder="Enter GitHub username"
-        className="w-full pr-10"
-      />
-      {username && (
-        <button
-          onClick={clearSearch}
-          className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
-          aria-label="Clear input"
-        >
-          ✕
-        </button>
-      )}
-    </div>
-  );
-}
+          {state.comparing && <ComparisonTable />}
 
+          {error && <ErrorAlert error={error} onRetry={() => actions.fetchPage(request, page)} />}
 
-function Results({ users, reposMap, loadingRepos, loadRepos, searchTime, searchTerm, totalCount }: ResultsProps) {
-  return (
-    <div className="w-full">
-      {searchTime !== null && (
-        <p className="text-xs text-gray-400 mb-2">
-          Showing users for "{searchTerm}" completed in {searchTime.toFixed(0)}ms — {totalCount} results
-        </p>
-      )}
-      <Accordion type="single" collapsible className="w-full">
-        {users.map((user) => (
-          <AccordionItem key={user.login} value={user.login} onClick={() => loadRepos(user.login)}>
-            <AccordionTrigger>{user.login}</AccordionTrigger>
-            <AccordionContent>
-              <RepoList repos={reposMap[user.login]} isLoading={loadingRepos === user.login} />
-            </AccordionContent>
-          </AccordionItem>
-        ))}
-      </Accordion>
-    </div>
+          {(users.length > 0 || repoResults.length > 0) && <Results />}
+
+          <Pagination
+            page={page}
+            pageCount={selectPageCount(state)}
+            onPageChange={actions.goToPage}
+            disabled={searching}
+          />
+        </div>
+        <CompareTray />
+        <RepoDrawer />
+        <KeyboardShortcuts inputRef={inputRef} />
+      </div>
+    </ExplorerContext.Provider>
   );
 }
 
-function RepoList({ repos, isLoading }: RepoListProps) {
-  if (isLoading) {
-    return (
-      <div className="space-y-3">
-        {[...Array(2)].map((_, i) => (
-          <div key={i} className="border rounded-lg p-4 bg-white shadow-sm">
-            <Skeleton data-testid="loading-skeleton" className="h-4 w-1/2 mb-2" />
-            <Skeleton data-testid="loading-skeleton" className="h-3 w-full" />
-          </div>
-        ))}
-      </div>
-    );
-  }
+function Results() {
+  const { state } = useExplorer();
+  const { searchTime, totalCount, cursor } = state;
+  const request = selectRequest(state);
+  const list = useRef<HTMLDivElement>(null);
 
-  if (!repos || repos.length === 0) {
-    return <p className="text-sm text-gray-500 italic">No repositories found.</p>;
-  }
+  // Keeps the result picked with j/k on screen.
+  useEffect(() => {
+    list.current?.querySelector('[aria-current="true"]')?.scrollIntoView?.({ block: "nearest" });
+  }, [cursor]);
 
   return (
-    <div className="space-y-3">
-      {repos.map((repo) => (
-        <div key={repo.id}
-            className="border rounded-lg p-4 bg-white shadow-sm flex flex-col md:flex-row md:items-center justify-between gap-4">
-          <div className="flex-1">
-            <div className="flex items-center justify-between">
-              <p className="font-bold text-base">
-                <a
-                  href={repo.html_url}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="hover:underline"
-                >
-                  {repo.name}
-                </a>
-              </p>
-              <div className="flex items-center gap-1 font-bold text-sm text-yellow-500">
-                {repo.stargazers_count}
-                <Star size={16} className="text-yellow-500 fill-current" />
-              </div>
-            </div>
-            <p className="text-sm text-gray-600 mt-1">{repo.description || "No description"}</p>
-          </div>
+    <div ref={list} className="w-full">
+      <div className="mb-2 flex items-start justify-between gap-2">
+        {searchTime !== null && (
+          <p className="text-xs text-gray-400">
+            Showing {request.mode === "repos" ? "repositories" : "users"} for "{request.q}" completed
+            in {searchTime.toFixed(0)}ms — {totalCount} results
+            {totalCount > SEARCH_RESULT_LIMIT && ` (only the first ${SEARCH_RESULT_LIMIT} can be browsed)`}
+          </p>
+        )}
+        <div className="ml-auto shrink-0">
+          <ExportMenu />
         </div>
-      ))}
+      </div>
+      {request.mode === "repos" ? <RepoResults /> : <UserResults />}
     </div>
   );
 }
-
@@ -1,13 +1,28 @@
-import { render, screen, waitFor } from '@testing-library/react'
+import { StrictMode } from 'react'
+import { act, render, screen, waitFor, within } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
-import axios from 'axios'
 import App from '../App'
-import type { Mock } from 'vitest'
-
-vi.mock('axios')
-const mockedAxios = vi.mocked(axios)
-const mockedGet = axios.get as Mock
+import { GithubClientContext } from '@/hooks/useGithubClient'
+import type { Repo, RepoSearchItem, SearchResponse, UserSearchItem } from '@/lib/github-types'
+import { GithubApiError, type Page } from '@/lib/github'
+import { rateLimitStore } from '@/lib/rate-limit'
+import { recordSearch, type HistoryEntry } from '@/lib/search-history'
+import { emptyFilters, emptyRepoFilters } from '@/lib/search-query'
+import { STORAGE_KEYS, writeStorage } from '@/lib/storage'
+import {
+  createFakeGithubClient,
+  makeCommit,
+  makeContributor,
+  makeOrg,
+  makePage,
+  makeRelease,
+  makeRepo,
+  makeSearchUser,
+  makeSimpleUser,
+  makeUser,
+  type FakeGithubClient,
+} from './fakes/github'
 
 vi.mock('./hooks/useDebounce', () => ({
   useDebounce: vi.fn((value) => value)
@@ -21,34 +36,37 @@ Object.defineProperty(global, 'performance', {
 
 describe('App Component', () => {
   const mockUsers = [
-    { login: 'testuser1' },
-    { login: 'testuser2' },
-    { login: 'testuser3' }
+    makeSearchUser('testuser1'),
+    makeSearchUser('testuser2'),
+    makeSearchUser('testuser3')
   ]
   const mockRepos = [
-    {
-      id: 1,
-      name: 'repo1',
-      description: 'Test repository 1',
-      stargazers_count: 100
-    },
-    {
-      id: 2,
-      name: 'repo2',
-      description: 'Test repository 2',
-      stargazers_count: 50
-    },
-    {
-      id: 3,
-      name: 'repo3',
-      description: null,
-      stargazers_count: 0
-    }
+    makeRepo(1, 'repo1', { description: 'Test repository 1', stargazers_count: 100 }),
+    makeRepo(2, 'repo2', { description: 'Test repository 2', stargazers_count: 50 }),
+    makeRepo(3, 'repo3', { description: null, stargazers_count: 0 })
   ]
+  const searchResponse = (items: UserSearchItem[], total = items.length): SearchResponse<UserSearchItem> => ({
+    total_count: total,
+    incomplete_results: false,
+    items
+  })
+
+  const withSignal = expect.objectContaining({ signal: expect.any(AbortSignal) })
+
+  let client: FakeGithubClient
+  const renderApp = () => render(
+    <GithubClientContext.Provider value={client}>
+      <App />
+    </GithubClientContext.Provider>
+  )
 
   beforeEach(() => {
     vi.clearAllMocks()
     mockPerformanceNow.mockReturnValue(1000)
+    client = createFakeGithubClient()
+    rateLimitStore.reset()
+    localStorage.clear()
+    window.history.replaceState(null, '', '/')
   })
 
   afterEach(() => {
@@ -57,20 +75,20 @@ describe('App Component', () => {
 
   describe('Initial Render', () => {
     it('renders the main title and search input', () => {
-      render(<App />)
+      renderApp()
       expect(screen.getByText('GitHub User Explorer')).toBeInTheDocument()
       expect(screen.getByPlaceholderText('Enter GitHub username')).toBeInTheDocument()
       expect(screen.getByRole('button', { name: /search/i })).toBeInTheDocument()
     })
 
     it('renders in centered layout initially', () => {
-      render(<App />)
+      renderApp()
       const container = screen.getByText('GitHub User Explorer').closest('div')
       expect(container).toHaveClass('justify-center', 'h-[80vh]')
     })
 
     it('has search button disabled when input is empty', () => {
-      render(<App />)
+      renderApp()
       const searchButton = screen.getByRole('button', { name: /search/i })
       expect(searchButton).toBeDisabled()
     })
@@ -79,7 +97,7 @@ describe('App Component', () => {
   describe('User Input and Search', () => {
     it('enables search button when input has value', async () => {
       const user = userEvent.setup()
-      render(<App />)
+      renderApp()
       const input = screen.getByPlaceholderText('Enter GitHub username')
       const searchButton = screen.getByRole('button', { name: /search/i })
       await user.type(input, 'testuser')
@@ -88,7 +106,7 @@ describe('App Component', () => {
 
     it('shows clear button when input has value', async () => {
       const user = userEvent.setup()
-      render(<App />)
+      renderApp()
       const input = screen.getByPlaceholderText('Enter GitHub username')
       await user.type(input, 'testuser')
       expect(screen.getByLabelText('Clear input')).toBeInTheDocument()
@@ -96,7 +114,7 @@ describe('App Component', () => {
 
     it('clears input when clear button is clicked', async () => {
       const user = userEvent.setup()
-      render(<App />)
+      renderApp()
       const input = screen.getByPlaceholderText('Enter GitHub username')
       await user.type(input, 'testuser')
       await user.click(screen.getByLabelText('Clear input'))
@@ -105,7 +123,7 @@ describe('App Component', () => {
 
     it('focuses input after clearing', async () => {
       const user = userEvent.setup()
-      render(<App />)
+      renderApp()
       const input = screen.getByPlaceholderText('Enter GitHub username')
       await user.type(input, 'testuser')
       await user.click(screen.getByLabelText('Clear input'))
@@ -116,29 +134,29 @@ describe('App Component', () => {
   describe('User Search API', () => {
     it('makes API call when search button is clicked', async () => {
       const user = userEvent.setup()
-      mockedGet.mockResolvedValueOnce({ data: { items: mockUsers } })
-      render(<App />)
+      client.searchUsers.mockResolvedValueOnce(searchResponse(mockUsers))
+      renderApp()
       const input = screen.getByPlaceholderText('Enter GitHub username')
       const searchButton = screen.getByRole('button', { name: /search/i })
       await user.type(input, 'testuser')
       await user.click(searchButton)
-      expect(mockedAxios.get).toHaveBeenCalledWith('/api/search/users?q=testuser&per_page=10')
+      expect(client.searchUsers).toHaveBeenCalledWith({ q: 'testuser', per_page: 10, page: 1 }, withSignal)
     })
 
     it('shows loading state during user search', async () => {
       const user = userEvent.setup()
-      let resolvePromise: (value: unknown) => void
-      const promise = new Promise((resolve) => {
+      let resolvePromise: (value: SearchResponse<UserSearchItem>) => void
+      const promise = new Promise<SearchResponse<UserSearchItem>>((resolve) => {
         resolvePromise = resolve
       })
-      mockedGet.mockReturnValueOnce(promise as unknown)
-      render(<App />)
+      client.searchUsers.mockReturnValueOnce(promise)
+      renderApp()
       const input = screen.getByPlaceholderText('Enter GitHub username')
       const searchButton = screen.getByRole('button', { name: /search/i })
       await user.type(input, 'testuser')
       await user.click(searchButton)
       expect(screen.getAllByTestId('loading-skeleton-user').length).toBeGreaterThan(0)
-      resolvePromise!({ data: { items: mockUsers } })
+      resolvePromise!(searchResponse(mockUsers))
       await waitFor(() => {
         expect(screen.queryByTestId('loading-skeleton-user')).not.toBeInTheDocument()
       })
@@ -146,8 +164,8 @@ describe('App Component', () => {
 
     it('displays users after successful search', async () => {
       const user = userEvent.setup()
-      mockedGet.mockResolvedValueOnce({ data: { items: mockUsers } })
-      render(<App />)
+      client.searchUsers.mockResolvedValueOnce(searchResponse(mockUsers))
+      renderApp()
       const input = screen.getByPlaceholderText('Enter GitHub username')
       const searchButton = screen.getByRole('button', { name: /search/i })
       await user.type(input, 'testuser')
@@ -162,8 +180,8 @@ describe('App Component', () => {
     it('displays search time after successful search', async () => {
       const user = userEvent.setup()
       mockPerformanceNow.mockReturnValueOnce(1000).mockReturnValueOnce(1500)
-      mockedGet.mockResolvedValueOnce({ data: { items: mockUsers } })
-      render(<App />)
+      client.searchUsers.mockResolvedValueOnce(searchResponse(mockUsers))
+      renderApp()
       const input = screen.getByPlaceholderText('Enter GitHub username')
       const searchButton = screen.getByRole('button', { name: /search/i })
       await user.type(input, 'testuser')
@@ -175,8 +193,8 @@ describe('App Component', () => {
 
     it('handles API error gracefully', async () => {
       const user = userEvent.setup()
-      mockedGet.mockRejectedValueOnce(new Error('API Error'))
-      render(<App />)
+      client.searchUsers.mockRejectedValueOnce(new Error('API Error'))
+      renderApp()
       const input = screen.getByPlaceholderText('Enter GitHub username')
       const searchButton = screen.getByRole('button', { name: /search/i })
       await user.type(input, 'testuser')
@@ -188,8 +206,8 @@ describe('App Component', () => {
 
     it('changes layout when results are present', async () => {
       const user = userEvent.setup()
-      mockedGet.mockResolvedValueOnce({ data: { items: mockUsers } })
-      render(<App />)
+      client.searchUsers.mockResolvedValueOnce(searchResponse(mockUsers))
+      renderApp()
       const input = screen.getByPlaceholderText('Enter GitHub username')
       const searchButton = screen.getByRole('button', { name: /search/i })
       await user.type(input, 'testuser')
@@ -200,13 +218,266 @@ describe('App Component', () => {
         expect(container).not.toHaveClass('justify-center', 'h-[80vh]')
       })
     })
+    it('aborts a superseded search and ignores its late response', async () => {
+      const user = userEvent.setup()
+      let resolveStale: (value: SearchResponse<UserSearchItem>) => void
+      client.searchUsers
+        .mockReturnValueOnce(new Promise((resolve) => { resolveStale = resolve }))
+        .mockResolvedValueOnce(searchResponse([makeSearchUser('fresh')]))
+      renderApp()
+      const input = screen.getByPlaceholderText('Enter GitHub username')
+      await user.type(input, 'stale')
+      await user.click(screen.getByRole('button', { name: /search/i }))
+      await user.clear(input)
+      await user.type(input, 'fresh')
+      await user.click(screen.getByRole('button', { name: /search/i }))
+      await waitFor(() => expect(screen.getByText('fresh')).toBeInTheDocument())
+
+      expect(client.searchUsers.mock.calls[0][1]?.signal?.aborted).toBe(true)
+      await act(async () => resolveStale!(searchResponse([makeSearchUser('olduser')])))
+      expect(screen.queryByText('olduser')).not.toBeInTheDocument()
+      expect(screen.getByText('fresh')).toBeInTheDocument()
+    })
+
+    it('aborts in-flight requests on unmount', async () => {
+      const user = userEvent.setup()
+      client.searchUsers.mockReturnValueOnce(new Promise(() => {}))
+      const { unmount } = renderApp()
+      await user.type(screen.getByPlaceholderText('Enter GitHub username'), 'testuser')
+      await user.click(screen.getByRole('button', { name: /search/i }))
+      unmount()
+      expect(client.searchUsers.mock.calls[0][1]?.signal?.aborted).toBe(true)
+    })
+  })
+
+  describe('URL state', () => {
+    it('restores the search, page and expanded user from the url', async () => {
+      window.history.replaceState(null, '', '/?q=testuser&type=org&page=2&user=testuser1')
+      client.searchUsers.mockResolvedValue(searchResponse(mockUsers, 30))
+      client.listUserRepos.mockResolvedValue(makePage(mockRepos))
+      renderApp()
+      expect(screen.getByPlaceholderText('Enter GitHub username')).toHaveValue('testuser')
+      await waitFor(() => expect(client.searchUsers).toHaveBeenCalledWith({ q: 'testuser type:org', per_page: 10, page: 2 }, withSignal))
+      expect(client.listUserRepos).toHaveBeenCalledWith('testuser1', { per_page: 100, page: 1 }, withSignal)
+      expect(await screen.findByText('repo1')).toBeInTheDocument()
+      expect(screen.getByRole('button', { name: '2' })).toHaveAttribute('aria-current', 'page')
+    })
+
+    it('restores a search from the url under StrictMode, which mounts the app twice', async () => {
+      window.history.replaceState(null, '', '/?q=testuser&page=2&user=testuser1')
+      client.searchUsers.mockResolvedValue(searchResponse(mockUsers, 30))
+      client.listUserRepos.mockResolvedValue(makePage(mockRepos))
+      render(
+        <StrictMode>
+          <GithubClientContext.Provider value={client}>
+            <App />
+          </GithubClientContext.Provider>
+        </StrictMode>
+      )
+      expect(await screen.findByText('testuser2')).toBeInTheDocument()
+      expect(await screen.findByText('repo1')).toBeInTheDocument()
+      expect(screen.getByRole('button', { name: '2' })).toHaveAttribute('aria-current', 'page')
+      expect(client.searchUsers).toHaveBeenLastCalledWith({ q: 'testuser', per_page: 10, page: 2 }, withSignal)
+    })
+
+    it('writes the search, page and expanded user to the url', async () => {
+      const user = userEvent.setup()
+      client.searchUsers.mockResolvedValue(searchResponse(mockUsers, 30))
+      client.listUserRepos.mockResolvedValue(makePage(mockRepos))
+      renderApp()
+      await user.type(screen.getByPlaceholderText('Enter GitHub username'), 'testuser')
+      await waitFor(() => expect(window.location.search).toBe('?q=testuser'))
+      await user.click(await screen.findByText('testuser1'))
+      expect(window.location.search).toBe('?q=testuser&user=testuser1')
+      await user.click(screen.getByRole('button', { name: 'Next page' }))
+      expect(window.location.search).toBe('?q=testuser&page=2')
+    })
+
+    it('navigates between searches with the browser history', async () => {
+      const user = userEvent.setup()
+      client.searchUsers.mockImplementation(async ({ q }) =>
+        searchResponse(q === 'first' ? [makeSearchUser('firstuser')] : [makeSearchUser('seconduser')]))
+      renderApp()
+      const input = screen.getByPlaceholderText('Enter GitHub username')
+      await user.type(input, 'first')
+      await screen.findByText('firstuser')
+      await user.clear(input)
+      await user.type(input, 'second')
+      await screen.findByText('seconduser')
+
+      act(() => {
+        window.history.back()
+      })
+      await waitFor(() => expect(screen.getByText('firstuser')).toBeInTheDocument())
+      expect(input).toHaveValue('first')
+    })
+  })
+
+  describe('Search filters', () => {
+    it('composes qualifiers and sort into the search request', async () => {
+      const user = userEvent.setup()
+      client.searchUsers.mockResolvedValue(searchResponse(mockUsers))
+      renderApp()
+      await user.type(screen.getByPlaceholderText('Enter GitHub username'), 'testuser')
+      await user.click(screen.getByRole('button', { name: /filters/i }))
+      await user.selectOptions(screen.getByLabelText('Account type'), 'org')
+      await user.type(screen.getByLabelText('Location'), 'New York')
+      await user.selectOptions(screen.getByLabelText('Sort by'), 'followers')
+
+      expect(screen.getByLabelText('Effective query')).toHaveTextContent('testuser type:org location:"New York"')
+      expect(screen.getByRole('button', { name: 'Filters (3)' })).toBeInTheDocument()
+      await waitFor(() => expect(client.searchUsers).toHaveBeenLastCalledWith({
+        q: 'testuser type:org location:"New York"',
+        sort: 'followers',
+        order: 'desc',
+        per_page: 10,
+        page: 1,
+      }, withSignal))
+    })
+
+    it('allows searching by qualifiers alone', async () => {
+      const user = userEvent.setup()
+      client.searchUsers.mockResolvedValue(searchResponse(mockUsers))
+      renderApp()
+      await user.click(screen.getByRole('button', { name: /filters/i }))
+      await user.type(screen.getByLabelText('Language'), 'go')
+      expect(screen.getByRole('button', { name: /^search$/i })).not.toBeDisabled()
+      await waitFor(() => expect(client.searchUsers).toHaveBeenCalledWith({ q: 'language:go', per_page: 10, page: 1 }, withSignal))
+    })
+  })
+
+  describe('Token and rate limits', () => {
+    it('saves a personal access token from the settings panel', async () => {
+      const user = userEvent.setup()
+      renderApp()
+      await user.click(screen.getByRole('button', { name: 'Settings' }))
+      await user.type(screen.getByLabelText('Personal access token'), 'ghp_secret')
+      await user.click(screen.getByRole('button', { name: 'Save token' }))
+      expect(JSON.parse(localStorage.getItem('github-explorer:token')!)).toBe('ghp_secret')
+      await user.click(screen.getByRole('button', { name: 'Remove token' }))
+      expect(localStorage.getItem('github-explorer:token')).toBeNull()
+    })
+
+    it('stores the repository prefetch preference', async () => {
+      const user = userEvent.setup()
+      renderApp()
+      await user.click(screen.getByRole('button', { name: 'Settings' }))
+      expect(screen.getByLabelText('Prefetch repositories')).toHaveValue('hover')
+      await user.selectOptions(screen.getByLabelText('Prefetch repositories'), 'off')
+      expect(JSON.parse(localStorage.getItem('github-explorer:prefetch')!)).toBe('off')
+    })
+
+    it('shows the remaining quota per resource', async () => {
+      renderApp()
+      act(() => rateLimitStore.update({ resource: 'search', limit: 10, remaining: 8, used: 2, resetAt: Date.now() + 60_000 }))
+      expect(screen.getByText('search 8/10')).toBeInTheDocument()
+    })
+
+    it('shows a countdown instead of the generic error when rate limited', async () => {
+      const user = userEvent.setup()
+      const rate = { resource: 'search', limit: 10, remaining: 0, used: 10, resetAt: Date.now() + 90_000 }
+      client.searchUsers.mockImplementation(async () => {
+        rateLimitStore.update(rate)
+        throw new GithubApiError('API rate limit exceeded', { status: 403, rateLimit: rate })
+      })
+      renderApp()
+      await user.type(screen.getByPlaceholderText('Enter GitHub username'), 'testuser')
+      await user.click(screen.getByRole('button', { name: /search/i }))
+      const alert = await screen.findByRole('alert')
+      expect(alert).toHaveTextContent(/search rate limit reached\..* Try again in 1:(29|30)/)
+      expect(screen.getByRole('button', { name: 'Retry' })).toBeDisabled()
+      expect(screen.queryByText('Failed to fetch users.')).not.toBeInTheDocument()
+    })
+  })
+
+  describe('Errors', () => {
+    it('explains an invalid query and retries the search', async () => {
+      const user = userEvent.setup()
+      client.searchUsers.mockRejectedValue(new GithubApiError('Validation Failed', { status: 422 }))
+      renderApp()
+      await user.type(screen.getByPlaceholderText('Enter GitHub username'), 'bad:query')
+      expect(await screen.findByRole('alert')).toHaveTextContent('GitHub could not process this search query: Validation Failed')
+
+      client.searchUsers.mockResolvedValue(searchResponse(mockUsers))
+      await user.click(screen.getByRole('button', { name: 'Retry' }))
+      await waitFor(() => expect(screen.getByText('testuser1')).toBeInTheDocument())
+      expect(screen.queryByRole('alert')).not.toBeInTheDocument()
+    })
+
+    it('reports network failures', async () => {
+      client.searchUsers.mockRejectedValue(new GithubApiError('Network Error', { network: true }))
+      renderApp()
+      await userEvent.type(screen.getByPlaceholderText('Enter GitHub username'), 'testuser')
+      expect(await screen.findByRole('alert')).toHaveTextContent("Couldn't reach GitHub")
+    })
+
+    it('shows repository errors inside the expanded user and retries them', async () => {
+      const user = userEvent.setup()
+      client.searchUsers.mockResolvedValue(searchResponse(mockUsers))
+      client.listUserRepos.mockRejectedValueOnce(new GithubApiError('Not Found', { status: 404 }))
+      renderApp()
+      await user.type(screen.getByPlaceholderText('Enter GitHub username'), 'testuser')
+      await user.click(await screen.findByText('testuser1'))
+      const alert = await screen.findByRole('alert')
+      expect(alert).toHaveTextContent('This user no longer exists on GitHub.')
+      expect(alert.closest('[data-slot="accordion-content"]')).not.toBeNull()
+      expect(screen.getByText('testuser2')).toBeInTheDocument()
+
+      client.listUserRepos.mockResolvedValueOnce(makePage(mockRepos))
+      await user.click(screen.getByRole('button', { name: 'Retry' }))
+      await waitFor(() => expect(screen.getByText('repo1')).toBeInTheDocument())
+    })
+  })
+
+  describe('Pagination', () => {
+    const search = async () => {
+      const user = userEvent.setup()
+      renderApp()
+      await user.type(screen.getByPlaceholderText('Enter GitHub username'), 'testuser')
+      await waitFor(() => expect(client.searchUsers).toHaveBeenCalled())
+      return user
+    }
+
+    it('does not render page controls when everything fits on one page', async () => {
+      client.searchUsers.mockResolvedValue(searchResponse(mockUsers))
+      await search()
+      await waitFor(() => expect(screen.getByText('testuser1')).toBeInTheDocument())
+      expect(screen.queryByRole('navigation', { name: 'Pagination' })).not.toBeInTheDocument()
+    })
+
+    it('fetches the next page and serves visited pages from state', async () => {
+      client.searchUsers.mockImplementation(async ({ page }) =>
+        searchResponse(page === 2 ? [makeSearchUser('pagetwo')] : mockUsers, 25))
+      const user = await search()
+      await waitFor(() => expect(screen.getByText('testuser1')).toBeInTheDocument())
+      expect(screen.getByRole('button', { name: '3' })).toBeInTheDocument()
+
+      await user.click(screen.getByRole('button', { name: 'Next page' }))
+      await waitFor(() => expect(screen.getByText('pagetwo')).toBeInTheDocument())
+      expect(client.searchUsers).toHaveBeenLastCalledWith({ q: 'testuser', per_page: 10, page: 2 }, withSignal)
+
+      client.searchUsers.mockClear()
+      await user.click(screen.getByRole('button', { name: 'Previous page' }))
+      expect(screen.getByText('testuser1')).toBeInTheDocument()
+      await user.click(screen.getByRole('button', { name: 'Next page' }))
+      expect(screen.getByText('pagetwo')).toBeInTheDocument()
+      expect(client.searchUsers).not.toHaveBeenCalled()
+    })
+
+    it('caps the page count at the 1000 result search limit', async () => {
+      client.searchUsers.mockResolvedValue(searchResponse(mockUsers, 5000))
+      await search()
+      await waitFor(() => expect(screen.getByText(/only the first 1000 can be browsed/)).toBeInTheDocument())
+      await userEvent.click(screen.getByRole('button', { name: '3' }))
+      await waitFor(() => expect(screen.queryByRole('button', { name: '101' })).not.toBeInTheDocument())
+    })
   })
 
   describe('Repository Loading', () => {
     beforeEach(async () => {
       const user = userEvent.setup()
-      mockedGet.mockResolvedValueOnce({ data: { items: mockUsers } })
-      render(<App />)
+      client.searchUsers.mockResolvedValueOnce(searchResponse(mockUsers))
+      renderApp()
       const input = screen.getByPlaceholderText('Enter GitHub username')
       const searchButton = screen.getByRole('button', { name: /search/i })
       await user.type(input, 'testuser')
@@ -218,21 +489,21 @@ describe('App Component', () => {
 
     it('loads repositories when accordion item is clicked', async () => {
       const user = userEvent.setup()
-      mockedGet.mockResolvedValueOnce({ data: mockRepos })
+      client.listUserRepos.mockResolvedValueOnce(makePage(mockRepos))
       await user.click(screen.getByText('testuser1'))
-      expect(mockedAxios.get).toHaveBeenCalledWith('/api/users/testuser1/repos')
+      expect(client.listUserRepos).toHaveBeenCalledWith('testuser1', { per_page: 100, page: 1 }, withSignal)
     })
 
     it('shows loading state when loading repositories', async () => {
       const user = userEvent.setup()
-      let resolvePromise: (value: unknown) => void
-      const promise = new Promise((resolve) => {
+      let resolvePromise: (value: Page<Repo>) => void
+      const promise = new Promise<Page<Repo>>((resolve) => {
         resolvePromise = resolve
       })
-      mockedGet.mockReturnValueOnce(promise as unknown)
+      client.listUserRepos.mockReturnValueOnce(promise)
       await user.click(screen.getByText('testuser1'))
       expect(screen.getAllByTestId('loading-skeleton').length).toBeGreaterThan(0)
-      resolvePromise!({ data: mockRepos })
+      resolvePromise!(makePage(mockRepos))
       await waitFor(() => {
         expect(screen.queryByTestId('loading-skeleton')).not.toBeInTheDocument()
       })
@@ -240,7 +511,7 @@ describe('App Component', () => {
 
     it('displays repositories after loading', async () => {
       const user = userEvent.setup()
-      mockedGet.mockResolvedValueOnce({ data: mockRepos })
+      client.listUserRepos.mockResolvedValueOnce(makePage(mockRepos))
       await user.click(screen.getByText('testuser1'))
       await waitFor(() => {
         expect(screen.getByText('repo1')).toBeInTheDocument()
@@ -253,7 +524,7 @@ describe('App Component', () => {
 
     it('displays star counts correctly', async () => {
       const user = userEvent.setup()
-      mockedGet.mockResolvedValueOnce({ data: mockRepos })
+      client.listUserRepos.mockResolvedValueOnce(makePage(mockRepos))
       await user.click(screen.getByText('testuser1'))
       await waitFor(() => {
         expect(screen.getByText('100')).toBeInTheDocument()
@@ -262,9 +533,32 @@ describe('App Component', () => {
       })
     })
 
+    it('summarizes the loaded repositories and charts them on demand', async () => {
+      const user = userEvent.setup()
+      client.listUserRepos.mockResolvedValueOnce(makePage([
+        makeRepo(1, 'repo1', { stargazers_count: 100, forks_count: 4, language: 'Go', created_at: '2018-03-01T00:00:00Z' }),
+        makeRepo(2, 'repo2', { stargazers_count: 50, forks_count: 1, language: 'Rust', created_at: '2020-06-01T00:00:00Z' }),
+      ]))
+      await user.click(screen.getByText('testuser1'))
+      const analytics = await screen.findByRole('region', { name: 'Repository analytics' })
+      expect(analytics).toHaveTextContent('150 total stars')
+      expect(analytics).toHaveTextContent('5 total forks')
+      expect(within(analytics).queryByRole('list')).not.toBeInTheDocument()
+
+      await user.click(within(analytics).getByRole('button', { name: /show charts/i }))
+      expect(within(analytics).getByRole('list', { name: 'Language distribution' })).toHaveTextContent('Go 50%Rust 50%')
+      expect(within(analytics).getByRole('list', { name: 'Stars per repository' })).toHaveTextContent('repo1100repo250')
+      const timeline = within(analytics).getByRole('list', { name: 'Repositories created per year' })
+      expect(within(timeline).getAllByRole('listitem').map(item => item.title)).toEqual([
+        '2018: 1 repository',
+        '2019: 0 repositories',
+        '2020: 1 repository',
+      ])
+    })
+
     it('handles repositories with no description', async () => {
       const user = userEvent.setup()
-      mockedGet.mockResolvedValueOnce({ data: mockRepos })
+      client.listUserRepos.mockResolvedValueOnce(makePage(mockRepos))
       await user.click(screen.getByText('testuser1'))
       await waitFor(() => {
         expect(screen.getByText('No description')).toBeInTheDocument()
@@ -273,7 +567,7 @@ describe('App Component', () => {
 
     it('displays message when no repositories found', async () => {
       const user = userEvent.setup()
-      mockedGet.mockResolvedValueOnce({ data: [] })
+      client.listUserRepos.mockResolvedValueOnce(makePage([]))
       await user.click(screen.getByText('testuser1'))
       await waitFor(() => {
         expect(screen.getByText('No repositories found.')).toBeInTheDocument()
@@ -282,21 +576,811 @@ describe('App Component', () => {
 
     it('does not re-fetch repos on second click (cache works)', async () => {
       const user = userEvent.setup()
-      mockedGet.mockResolvedValueOnce({ data: mockRepos })
+      client.listUserRepos.mockResolvedValueOnce(makePage(mockRepos))
       await user.click(screen.getByText('testuser1'))
       await waitFor(() => {
         expect(screen.getByText('repo1')).toBeInTheDocument()
       })
-      mockedGet.mockClear()
+      client.listUserRepos.mockClear()
+      await user.click(screen.getByText('testuser1'))
+      expect(client.listUserRepos).not.toHaveBeenCalled()
+    })
+
+    it('shows the public repository count from the user profile', async () => {
+      const user = userEvent.setup()
+      client.getUser.mockResolvedValueOnce(makeUser('testuser1', { public_repos: 250 }))
+      client.listUserRepos.mockResolvedValueOnce(makePage(mockRepos, 2, 3))
+      await user.click(screen.getByText('testuser1'))
+      await waitFor(() => {
+        expect(screen.getByText('Showing 3 of 250 repositories')).toBeInTheDocument()
+      })
+    })
+
+    it('shows avatar, account type and profile link for each result', () => {
+      const link = screen.getByRole('link', { name: 'Open testuser1 on GitHub' })
+      expect(link).toHaveAttribute('href', 'https://github.com/testuser1')
+      expect(screen.getAllByText('User')).toHaveLength(3)
+    })
+
+    it('shows the user profile above the repositories', async () => {
+      const user = userEvent.setup()
+      client.getUser.mockResolvedValueOnce(makeUser('testuser1', {
+        name: 'Test User',
+        bio: 'Builds things',
+        company: '@acme',
+        location: 'Berlin',
+        blog: 'example.com',
+        followers: 1234,
+        following: 5,
+        created_at: '2011-03-14T00:00:00Z',
+      }))
+      client.listUserRepos.mockResolvedValueOnce(makePage(mockRepos))
+      await user.click(screen.getByText('testuser1'))
+      expect(await screen.findByText('Test User')).toBeInTheDocument()
+      expect(screen.getByText('Builds things')).toBeInTheDocument()
+      expect(screen.getByText('@acme')).toBeInTheDocument()
+      expect(screen.getByText('Berlin')).toBeInTheDocument()
+      expect(screen.getByRole('link', { name: 'example.com' })).toHaveAttribute('href', 'https://example.com')
+      expect(screen.getByText('1.2K followers · 5 following')).toBeInTheDocument()
+      expect(screen.getByText('Joined Mar 2011')).toBeInTheDocument()
+    })
+
+    it('filters repositories and keeps the options when reopened', async () => {
+      const user = userEvent.setup()
+      client.listUserRepos.mockResolvedValueOnce(makePage([
+        ...mockRepos,
+        makeRepo(4, 'forked-repo', { fork: true }),
+      ]))
+      await user.click(screen.getByText('testuser1'))
+      await screen.findByText('forked-repo')
+      await user.click(screen.getByLabelText('Hide forks'))
+      await user.type(screen.getByLabelText('Filter repositories'), 'repo1')
+      expect(screen.queryByText('forked-repo')).not.toBeInTheDocument()
+      expect(screen.queryByText('repo2')).not.toBeInTheDocument()
+      expect(screen.getByText(/1 match the filters/)).toBeInTheDocument()
+
+      await user.click(screen.getByText('testuser1'))
+      await user.click(screen.getByText('testuser1'))
+      expect(await screen.findByLabelText('Filter repositories')).toHaveValue('repo1')
+      expect(screen.getByLabelText('Hide forks')).toBeChecked()
+      expect(screen.getByText('repo1')).toBeInTheDocument()
+      expect(screen.queryByText('repo2')).not.toBeInTheDocument()
+    })
+
+    it('loads the next page of repositories on demand', async () => {
+      const user = userEvent.setup()
+      client.listUserRepos
+        .mockResolvedValueOnce(makePage(mockRepos, 2, 2))
+        .mockResolvedValueOnce(makePage([makeRepo(4, 'repo4')], null, null))
+      await user.click(screen.getByText('testuser1'))
+      await user.click(await screen.findByRole('button', { name: 'Load more' }))
+      await waitFor(() => expect(screen.getByText('repo4')).toBeInTheDocument())
+      expect(client.listUserRepos).toHaveBeenLastCalledWith('testuser1', { per_page: 100, page: 2 }, withSignal)
+      expect(screen.queryByRole('button', { name: 'Load more' })).not.toBeInTheDocument()
+    })
+
+    it('follows every page when loading all repositories', async () => {
+      const user = userEvent.setup()
+      client.listUserRepos
+        .mockResolvedValueOnce(makePage(mockRepos, 2, 3))
+        .mockResolvedValueOnce(makePage([makeRepo(4, 'repo4')], 3, 3))
+        .mockResolvedValueOnce(makePage([makeRepo(5, 'repo5')], null, null))
+      await user.click(screen.getByText('testuser1'))
+      await user.click(await screen.findByRole('button', { name: 'Load all' }))
+      await waitFor(() => expect(screen.getByText('repo5')).toBeInTheDocument())
+      expect(screen.getByText('repo4')).toBeInTheDocument()
+      expect(client.listUserRepos).toHaveBeenCalledTimes(3)
+    })
+
+    it('loads several users in parallel', async () => {
+      const user = userEvent.setup()
+      const pending: Record<string, (page: Page<Repo>) => void> = {}
+      client.listUserRepos.mockImplementation((login) => new Promise((resolve) => { pending[login] = resolve }))
+      await user.click(screen.getByText('testuser1'))
+      await user.click(screen.getByText('testuser2'))
+      expect(Object.keys(pending)).toEqual(['testuser1', 'testuser2'])
+      expect(screen.getAllByTestId('loading-skeleton').length).toBeGreaterThan(0)
+
+      await act(async () => pending.testuser1(makePage(mockRepos)))
+      expect(screen.getAllByTestId('loading-skeleton').length).toBeGreaterThan(0)
+      await act(async () => pending.testuser2(makePage([makeRepo(4, 'repo4')])))
+      expect(screen.getByText('repo4')).toBeInTheDocument()
+
+      await user.click(screen.getByText('testuser1'))
+      expect(await screen.findByText('repo1')).toBeInTheDocument()
+      expect(client.listUserRepos).toHaveBeenCalledTimes(2)
+    })
+
+    it('prefetches repositories when hovering a user', async () => {
+      const user = userEvent.setup()
+      client.listUserRepos.mockResolvedValue(makePage(mockRepos))
+      await user.hover(screen.getByText('testuser2'))
+      expect(client.listUserRepos).toHaveBeenCalledWith('testuser2', { per_page: 100, page: 1 }, withSignal)
+      await user.click(screen.getByText('testuser2'))
+      expect(await screen.findByText('repo1')).toBeInTheDocument()
+      expect(client.listUserRepos).toHaveBeenCalledTimes(1)
+    })
+
+    it('prefetches every visible user in the background when enabled', async () => {
+      client.listUserRepos.mockResolvedValue(makePage(mockRepos))
+      act(() => writeStorage(STORAGE_KEYS.prefetch, 'background'))
+      await waitFor(() => expect(client.listUserRepos).toHaveBeenCalledTimes(3))
+      expect(client.listUserRepos.mock.calls.map(([login]) => login)).toEqual(['testuser1', 'testuser2', 'testuser3'])
+    })
+
+    it('shows how old cached repositories are and refreshes them on demand', async () => {
+      const user = userEvent.setup()
+      client.listUserRepos
+        .mockResolvedValueOnce(makePage(mockRepos, null, null, Date.now() - 5 * 60_000))
+        .mockResolvedValueOnce(makePage([makeRepo(4, 'repo4')]))
+      await user.click(screen.getByText('testuser1'))
+      expect(await screen.findByText('Cached 5 minutes ago')).toBeInTheDocument()
+
+      await user.click(screen.getByRole('button', { name: 'Refresh' }))
+      await waitFor(() => expect(screen.getByText('repo4')).toBeInTheDocument())
+      expect(client.listUserRepos).toHaveBeenLastCalledWith(
+        'testuser1', { per_page: 100, page: 1 }, expect.objectContaining({ refresh: true }))
+      expect(client.getUser).toHaveBeenLastCalledWith('testuser1', expect.objectContaining({ refresh: true }))
+      expect(screen.queryByText('repo1')).not.toBeInTheDocument()
+      expect(screen.queryByText(/^Cached/)).not.toBeInTheDocument()
+    })
+
+    it('retries a failed refresh rather than loading more', async () => {
+      const user = userEvent.setup()
+      client.listUserRepos
+        .mockResolvedValueOnce(makePage(mockRepos))
+        .mockRejectedValueOnce(new GithubApiError('Server Error', { status: 500 }))
+        .mockResolvedValueOnce(makePage([makeRepo(4, 'repo4')]))
+      await user.click(screen.getByText('testuser1'))
+      expect(await screen.findByText('repo1')).toBeInTheDocument()
+
+      await user.click(screen.getByRole('button', { name: 'Refresh' }))
+      await user.click(await screen.findByRole('button', { name: 'Retry' }))
+      await waitFor(() => expect(screen.getByText('repo4')).toBeInTheDocument())
+      expect(client.listUserRepos).toHaveBeenCalledTimes(3)
+      expect(client.listUserRepos).toHaveBeenLastCalledWith(
+        'testuser1', { per_page: 100, page: 1 }, expect.objectContaining({ refresh: true }))
+    })
+  })
+
+  describe('Repository details', () => {
+    beforeEach(async () => {
+      const user = userEvent.setup()
+      client.searchUsers.mockResolvedValueOnce(searchResponse(mockUsers))
+      client.getUser.mockResolvedValue(makeUser('testuser1'))
+      client.listUserRepos.mockResolvedValue(makePage(mockRepos))
+      client.getRepoReadme.mockResolvedValue('<h1>Repo one</h1><p>Read me first.</p>')
+      client.getRepoLanguages.mockResolvedValue({ TypeScript: 750, CSS: 250 })
+      client.listRepoContributors.mockResolvedValue(makePage([makeContributor('alice', 120), makeContributor('bob', 3)]))
+      client.getLatestRelease.mockResolvedValue(makeRelease('v2.0.0', { name: 'Second wind' }))
+      client.listRepoCommits.mockResolvedValue(makePage([makeCommit('abcdef1234', 'Fix the build\n\nDetails')]))
+      renderApp()
+      await user.type(screen.getByPlaceholderText('Enter GitHub username'), 'testuser')
+      await user.click(await screen.findByText('testuser1'))
+      await screen.findByText('repo1')
+    })
+
+    it('opens a repository in a drawer instead of leaving the app', async () => {
+      const user = userEvent.setup()
+      await user.click(screen.getByRole('link', { name: 'repo1' }))
+
+      const drawer = screen.getByRole('dialog', { name: 'octocat/repo1' })
+      expect(await within(drawer).findByText('Read me first.')).toBeInTheDocument()
+      expect(within(drawer).getByRole('heading', { name: 'Repo one' })).toBeInTheDocument()
+      expect(within(drawer).getByRole('list', { name: 'Language mix' })).toHaveTextContent('TypeScript 75%')
+      expect(within(drawer).getByRole('list', { name: 'Contributors' })).toHaveTextContent('alice120')
+      expect(within(drawer).getByText('Second wind')).toBeInTheDocument()
+      expect(within(drawer).getByText('Fix the build')).toBeInTheDocument()
+      expect(within(drawer).getByText('abcdef1')).toBeInTheDocument()
+      expect(client.getRepoReadme).toHaveBeenCalledWith('octocat', 'repo1', withSignal)
+      expect(client.listRepoCommits).toHaveBeenCalledWith('octocat', 'repo1', { per_page: 10 }, withSignal)
+    })
+
+    it('says so when a repository has no README or release', async () => {
+      const user = userEvent.setup()
+      client.getRepoReadme.mockRejectedValueOnce(new GithubApiError('Not Found', { status: 404 }))
+      client.getLatestRelease.mockRejectedValueOnce(new GithubApiError('Not Found', { status: 404 }))
+      await user.click(screen.getByRole('link', { name: 'repo1' }))
+      expect(await screen.findByText('This repository has no README.')).toBeInTheDocument()
+      expect(screen.getByText('No releases yet.')).toBeInTheDocument()
+    })
+
+    it('keeps the other sections when one fails, and retries it', async () => {
+      const user = userEvent.setup()
+      client.listRepoCommits.mockRejectedValueOnce(new GithubApiError('Server Error', { status: 502 }))
+      await user.click(screen.getByRole('link', { name: 'repo1' }))
+      const commits = screen.getByRole('region', { name: 'Recent commits' })
+      expect(await within(commits).findByRole('alert')).toHaveTextContent('GitHub is having trouble right now (HTTP 502).')
+      expect(await screen.findByText('Read me first.')).toBeInTheDocument()
+
+      await user.click(within(commits).getByRole('button', { name: /retry/i }))
+      expect(await within(commits).findByText('Fix the build')).toBeInTheDocument()
+      expect(client.listRepoCommits).toHaveBeenLastCalledWith(
+        'octocat', 'repo1', { per_page: 10 }, expect.objectContaining({ refresh: true }))
+    })
+
+    it('closes with Escape or the close button', async () => {
+      const user = userEvent.setup()
+      await user.click(screen.getByRole('link', { name: 'repo1' }))
+      await screen.findByText('Read me first.')
+      await user.keyboard('{Escape}')
+      expect(screen.queryByRole('dialog')).not.toBeInTheDocument()
+
+      await user.click(screen.getByRole('link', { name: 'repo2' }))
+      await user.click(screen.getByRole('button', { name: 'Close details' }))
+      expect(screen.queryByRole('dialog')).not.toBeInTheDocument()
+    })
+  })
+
+  describe('Repository search', () => {
+    const repoResponse = (repos: Repo[]): SearchResponse<RepoSearchItem> => ({
+      total_count: repos.length,
+      incomplete_results: false,
+      items: repos.map(repo => ({ ...repo, score: 1 })),
+    })
+    const parser = makeRepo(7, 'parser', { owner: makeSimpleUser('rustacean'), description: 'A fast parser' })
+
+    it('switches modes and searches repositories with their own filters', async () => {
+      const user = userEvent.setup()
+      client.searchRepos.mockResolvedValue(repoResponse([parser]))
+      renderApp()
+      await user.click(screen.getByRole('button', { name: 'Repositories' }))
+      await user.type(screen.getByPlaceholderText('Search repositories'), 'parser')
+      await user.click(screen.getByRole('button', { name: /filters/i }))
+      await user.type(screen.getByLabelText('Stars'), '>100')
+      await user.type(screen.getByLabelText('Topic'), 'cli')
+
+      await waitFor(() => expect(client.searchRepos).toHaveBeenLastCalledWith(
+        { q: 'parser stars:>100 topic:cli', per_page: 10, page: 1 }, withSignal))
+      expect(await screen.findByText('A fast parser')).toBeInTheDocument()
+      expect(screen.getByText(/Showing repositories for "parser stars:>100 topic:cli"/)).toBeInTheDocument()
+      expect(window.location.search).toBe('?mode=repos&q=parser&stars=%3E100&topic=cli')
+      expect(client.searchUsers).not.toHaveBeenCalled()
+    })
+
+    it('runs the current term again when the mode changes', async () => {
+      const user = userEvent.setup()
+      client.searchUsers.mockResolvedValue(searchResponse(mockUsers))
+      client.searchRepos.mockResolvedValue(repoResponse([parser]))
+      renderApp()
+      await user.type(screen.getByPlaceholderText('Enter GitHub username'), 'parser')
+      await screen.findByText('testuser1')
+      await user.click(screen.getByRole('button', { name: 'Repositories' }))
+
+      expect(await screen.findByText('A fast parser')).toBeInTheDocument()
+      expect(screen.queryByText('testuser1')).not.toBeInTheDocument()
+      expect(client.searchRepos).toHaveBeenCalledTimes(1)
+      expect(screen.getByRole('button', { name: 'Repositories' })).toHaveAttribute('aria-pressed', 'true')
+    })
+
+    it('opens a repository owner in the user explorer', async () => {
+      const user = userEvent.setup()
+      window.history.replaceState(null, '', '/?mode=repos&q=parser')
+      client.searchRepos.mockResolvedValue(repoResponse([parser]))
+      client.searchUsers.mockResolvedValue(searchResponse([makeSearchUser('rustacean')]))
+      client.getUser.mockResolvedValue(makeUser('rustacean'))
+      client.listUserRepos.mockResolvedValue(makePage([parser]))
+      renderApp()
+      await user.click(await screen.findByRole('link', { name: /rustacean/ }))
+
+      await waitFor(() => expect(client.searchUsers).toHaveBeenCalledWith({ q: 'rustacean', per_page: 10, page: 1 }, withSignal))
+      expect(await screen.findByText('A fast parser')).toBeInTheDocument()
+      expect(client.listUserRepos).toHaveBeenCalledWith('rustacean', { per_page: 100, page: 1 }, withSignal)
+      expect(screen.getByPlaceholderText('Enter GitHub username')).toHaveValue('rustacean')
+      expect(window.location.search).toBe('?q=rustacean&user=rustacean')
+    })
+  })
+
+  describe('Organizations', () => {
+    const owner = makeSimpleUser('acme', { type: 'Organization' })
+    const orgRepos = [
+      makeRepo(1, 'rocket', { owner, language: 'TypeScript', stargazers_count: 1200, forks_count: 30 }),
+      makeRepo(2, 'anvil', { owner, language: 'TypeScript', stargazers_count: 300, forks_count: 10 }),
+      makeRepo(3, 'magnet', { owner, language: 'Go', stargazers_count: 0, forks_count: 0 }),
+    ]
+
+    beforeEach(async () => {
+      const user = userEvent.setup()
+      client.searchUsers.mockResolvedValueOnce(searchResponse([makeSearchUser('acme', { type: 'Organization' })]))
+      client.getOrg.mockResolvedValue(makeOrg('acme', { name: 'Acme Corp', public_repos: 3 }))
+      client.listOrgRepos.mockResolvedValue(makePage(orgRepos))
+      renderApp()
+      await user.type(screen.getByPlaceholderText('Enter GitHub username'), 'acme')
+      await user.click(screen.getByRole('button', { name: /search/i }))
+      await waitFor(() => expect(screen.getByText('acme')).toBeInTheDocument())
+    })
+
+    it('labels organizations in the results', () => {
+      expect(screen.getByText('Organization')).toBeInTheDocument()
+    })
+
+    it('shows the organization profile, repositories and aggregate stats', async () => {
+      const user = userEvent.setup()
+      await user.click(screen.getByText('acme'))
+      expect(await screen.findByText('Acme Corp')).toBeInTheDocument()
+      expect(await screen.findByText('rocket')).toBeInTheDocument()
+      expect(client.getOrg).toHaveBeenCalledWith('acme', withSignal)
+      expect(client.listOrgRepos).toHaveBeenCalledWith('acme', { per_page: 100, page: 1 }, withSignal)
+      expect(client.getUser).not.toHaveBeenCalled()
+      expect(client.listUserRepos).not.toHaveBeenCalled()
+
+      const stats = screen.getByRole('region', { name: 'Organization stats' })
+      expect(stats).toHaveTextContent('1.5K total stars')
+      expect(stats).toHaveTextContent('40 total forks')
+      const languages = screen.getByRole('list', { name: 'Language mix' })
+      expect(languages).toHaveTextContent('TypeScript 67%')
+      expect(languages).toHaveTextContent('Go 33%')
+    })
+
+    it('lists public members and expands them like any user', async () => {
+      const user = userEvent.setup()
+      client.listOrgMembers.mockResolvedValueOnce(makePage([makeSimpleUser('alice'), makeSimpleUser('bob')]))
+      client.getUser.mockResolvedValue(makeUser('alice'))
+      client.listUserRepos.mockResolvedValueOnce(makePage([makeRepo(9, 'dotfiles')]))
+      await user.click(screen.getByText('acme'))
+      await user.click(screen.getByRole('tab', { name: 'Members' }))
+
+      expect(await screen.findByText('2 public members loaded')).toBeInTheDocument()
+      expect(client.listOrgMembers).toHaveBeenCalledWith('acme', { per_page: 100, page: 1 }, withSignal)
+
+      await user.click(screen.getByText('alice'))
+      expect(await screen.findByText('dotfiles')).toBeInTheDocument()
+      expect(client.listUserRepos).toHaveBeenCalledWith('alice', { per_page: 100, page: 1 }, withSignal)
+    })
+
+    it('loads further member pages on demand', async () => {
+      const user = userEvent.setup()
+      client.listOrgMembers
+        .mockResolvedValueOnce(makePage([makeSimpleUser('alice')], 2, 2))
+        .mockResolvedValueOnce(makePage([makeSimpleUser('bob')]))
+      await user.click(screen.getByText('acme'))
+      await user.click(screen.getByRole('tab', { name: 'Members' }))
+      await user.click(await screen.findByRole('button', { name: 'Load more members' }))
+
+      expect(await screen.findByText('bob')).toBeInTheDocument()
+      expect(screen.getByText('2 public members loaded')).toBeInTheDocument()
+      expect(client.listOrgMembers).toHaveBeenLastCalledWith('acme', { per_page: 100, page: 2 }, withSignal)
+      expect(screen.queryByRole('button', { name: 'Load more members' })).not.toBeInTheDocument()
+    })
+
+    it('retries a failed member refresh rather than loading more', async () => {
+      const user = userEvent.setup()
+      client.listOrgMembers
+        .mockResolvedValueOnce(makePage([makeSimpleUser('alice')]))
+        .mockRejectedValueOnce(new GithubApiError('Server Error', { status: 500 }))
+        .mockResolvedValueOnce(makePage([makeSimpleUser('bob')]))
+      await user.click(screen.getByText('acme'))
+      await user.click(screen.getByRole('tab', { name: 'Members' }))
+      expect(await screen.findByText('alice')).toBeInTheDocument()
+      await user.click(screen.getByRole('tab', { name: 'Repositories' }))
+      await user.click(await screen.findByRole('button', { name: 'Refresh' }))
+      await user.click(screen.getByRole('tab', { name: 'Members' }))
+
+      await user.click(await screen.findByRole('button', { name: 'Retry' }))
+      expect(await screen.findByText('bob')).toBeInTheDocument()
+      expect(client.listOrgMembers).toHaveBeenCalledTimes(3)
+      expect(client.listOrgMembers).toHaveBeenLastCalledWith(
+        'acme', { per_page: 100, page: 1 }, expect.objectContaining({ refresh: true }))
+    })
+
+    it('says so when an organization has no public members', async () => {
+      const user = userEvent.setup()
+      client.listOrgMembers.mockResolvedValueOnce(makePage([]))
+      await user.click(screen.getByText('acme'))
+      await user.click(screen.getByRole('tab', { name: 'Members' }))
+      expect(await screen.findByText('No public members.')).toBeInTheDocument()
+    })
+  })
+
+  describe('Comparison', () => {
+    beforeEach(async () => {
+      const user = userEvent.setup()
+      client.searchUsers.mockResolvedValueOnce(searchResponse(mockUsers))
+      client.getUser.mockImplementation(async (login: string) => login === 'testuser1'
+        ? makeUser(login, { name: 'Test One', followers: 120, public_repos: 3, created_at: '2012-01-01T00:00:00Z' })
+        : makeUser(login, { followers: 8, public_repos: 1, created_at: '2020-01-01T00:00:00Z' }))
+      client.listUserRepos.mockImplementation(async (login: string) => makePage(login === 'testuser1'
+        ? mockRepos.map(repo => ({ ...repo, language: 'TypeScript' }))
+        : [makeRepo(9, 'solo', { stargazers_count: 4, language: 'Go' })]))
+      renderApp()
+      await user.type(screen.getByPlaceholderText('Enter GitHub username'), 'testuser')
+      await screen.findByText('testuser1')
+      await user.click(screen.getByRole('button', { name: 'Compare testuser1' }))
+      await user.click(screen.getByRole('button', { name: 'Compare testuser2' }))
+    })
+
+    it('collects users in a tray until there are enough to compare', async () => {
+      const user = userEvent.setup()
+      const tray = screen.getByRole('region', { name: 'Comparison selection' })
+      expect(tray).toHaveTextContent('2 of 4')
+      expect(screen.getByRole('button', { name: 'Compare testuser1' })).toHaveAttribute('aria-pressed', 'true')
+
+      await user.click(within(tray).getByRole('button', { name: 'Remove testuser2 from comparison' }))
+      expect(within(tray).getByRole('button', { name: 'Compare' })).toBeDisabled()
+      await user.click(within(tray).getByRole('button', { name: 'Clear' }))
+      expect(screen.queryByRole('region', { name: 'Comparison selection' })).not.toBeInTheDocument()
+    })
+
+    it('shows the picked users side by side and highlights the leader', async () => {
+      const user = userEvent.setup()
+      await user.click(screen.getByRole('button', { name: 'Compare' }))
+
+      const table = await screen.findByRole('table')
+      const row = (name: string) => within(table).getByRole('row', { name: new RegExp(`^${name}`) })
+      await waitFor(() => expect(row('Total stars')).toHaveTextContent('150'))
+      expect(row('Followers')).toHaveTextContent('120')
+      expect(within(row('Followers')).getByLabelText('Highest')).toBeInTheDocument()
+      expect(row('Top languages')).toHaveTextContent('TypeScript 100%')
+      expect(row('Top languages')).toHaveTextContent('Go 100%')
+      expect(row('Account age')).toHaveTextContent('since Jan 2012')
+      expect(client.listUserRepos).toHaveBeenCalledWith('testuser2', { per_page: 100, page: 1 }, withSignal)
+      expect(screen.queryByRole('region', { name: 'Comparison selection' })).not.toBeInTheDocument()
+
+      await user.click(within(row('Most starred')).getByRole('button', { name: 'repo1' }))
+      expect(screen.getByRole('dialog', { name: 'octocat/repo1' })).toBeInTheDocument()
+    })
+
+    it('closes back to the tray', async () => {
+      const user = userEvent.setup()
+      await user.click(screen.getByRole('button', { name: 'Compare' }))
+      await user.click(await screen.findByRole('button', { name: 'Close' }))
+      expect(screen.queryByRole('table')).not.toBeInTheDocument()
+      expect(screen.getByRole('region', { name: 'Comparison selection' })).toBeInTheDocument()
+    })
+  })
+
+  describe('Export', () => {
+    const downloads: { name: string; blob: Blob }[] = []
+    // jsdom's Blob has no text(), so read it the way older browsers would.
+    const readBlob = (blob: Blob) => new Promise<string>((resolve) => {
+      const reader = new FileReader()
+      reader.onload = () => resolve(reader.result as string)
+      reader.readAsText(blob)
+    })
+
+    beforeEach(async () => {
+      downloads.length = 0
+      let blob: Blob
+      URL.createObjectURL = vi.fn((b: Blob) => { blob = b; return 'blob:export' })
+      URL.revokeObjectURL = vi.fn()
+      vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+        downloads.push({ name: this.download, blob })
+      })
+      const user = userEvent.setup()
+      client.searchUsers.mockResolvedValueOnce(searchResponse(mockUsers))
+      client.getUser.mockResolvedValue(makeUser('testuser1', { followers: 42 }))
+      client.listUserRepos.mockResolvedValue(makePage(mockRepos))
+      renderApp()
+      await user.type(screen.getByPlaceholderText('Enter GitHub username'), 'testuser')
+      await user.click(await screen.findByText('testuser1'))
+      await screen.findByText('repo1')
+    })
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it('downloads the user results as CSV with the chosen columns', async () => {
+      const user = userEvent.setup()
+      await user.click(screen.getByRole('button', { name: 'Export' }))
+      const menu = screen.getByRole('dialog', { name: 'Export' })
+      await user.click(within(menu).getByRole('button', { name: 'None' }))
+      await user.click(within(menu).getByLabelText('Login'))
+      await user.click(within(menu).getByLabelText('Followers'))
+      await user.click(within(menu).getByRole('button', { name: 'Download 3 users' }))
+
+      expect(downloads).toHaveLength(1)
+      expect(downloads[0].name).toMatch(/^github-users-testuser-\d{4}-\d{2}-\d{2}\.csv$/)
+      expect(await readBlob(downloads[0].blob)).toBe('Login,Followers\r\ntestuser1,42\r\ntestuser2,\r\ntestuser3,\r\n')
+      expect(screen.queryByRole('dialog', { name: 'Export' })).not.toBeInTheDocument()
+    })
+
+    it('downloads the loaded repositories as a Markdown table', async () => {
+      const user = userEvent.setup()
+      await user.click(screen.getByRole('button', { name: 'Export' }))
+      const menu = screen.getByRole('dialog', { name: 'Export' })
+      await user.click(within(menu).getByRole('button', { name: 'Repositories (3)' }))
+      await user.click(within(menu).getByRole('button', { name: 'Markdown' }))
+      await user.click(within(menu).getByRole('button', { name: 'Download 3 repositories' }))
+
+      expect(downloads[0].name).toMatch(/^github-repos-testuser-.*\.md$/)
+      const table = await readBlob(downloads[0].blob)
+      expect(table.split('\n')[0]).toMatch(/^\| Repository \| Owner \| Description \|/)
+      expect(table).toContain('| octocat/repo1 | octocat | Test repository 1 |')
+    })
+  })
+
+  describe('Watchlist', () => {
+    const seenAt = '2024-06-01T00:00:00Z'
+
+    it('watches users and repositories from the results', async () => {
+      const user = userEvent.setup()
+      client.searchUsers.mockResolvedValueOnce(searchResponse(mockUsers))
+      client.getUser.mockResolvedValue(makeUser('testuser1', { followers: 7, public_repos: 3 }))
+      client.listUserRepos.mockResolvedValue(makePage(mockRepos))
+      client.getRepo.mockResolvedValue(mockRepos[0])
+      renderApp()
+      await user.type(screen.getByPlaceholderText('Enter GitHub username'), 'testuser')
+      await user.click(await screen.findByRole('button', { name: 'Watch testuser1' }))
       await user.click(screen.getByText('testuser1'))
-      expect(mockedAxios.get).not.toHaveBeenCalled()
+      await user.click(await screen.findByRole('button', { name: 'Watch octocat/repo1' }))
+      expect(screen.getByRole('button', { name: 'Watch octocat/repo1' })).toHaveAttribute('aria-pressed', 'true')
+
+      await user.click(screen.getByRole('button', { name: 'Watchlist (2)' }))
+      const panel = screen.getByRole('dialog', { name: 'Watchlist' })
+      expect(await within(panel).findByText('7 followers · 3 public repos')).toBeInTheDocument()
+      expect(await within(panel).findByText('100 stars · 0 forks · 0 open issues')).toBeInTheDocument()
+      expect(client.listUserRepos).toHaveBeenCalledWith(
+        'testuser1', { sort: 'created', direction: 'desc', per_page: 30 }, withSignal)
+      expect(client.getRepo).toHaveBeenCalledWith('octocat', 'repo1', withSignal)
+      expect(JSON.parse(localStorage.getItem(STORAGE_KEYS.watchlist)!)).toHaveLength(2)
+    })
+
+    it('highlights what changed since the last visit until marked as seen', async () => {
+      const user = userEvent.setup()
+      writeStorage(STORAGE_KEYS.watchlist, [
+        { kind: 'repo', fullName: 'octocat/repo1', addedAt: seenAt, seenAt, seen: { stars: 95, forks: 0, openIssues: 0, pushedAt: null } },
+        { kind: 'user', login: 'testuser2', addedAt: seenAt, seenAt, seen: { followers: 1, publicRepos: 1 } },
+      ])
+      client.getRepo.mockResolvedValue(mockRepos[0])
+      client.getUser.mockResolvedValue(makeUser('testuser2', { followers: 1, public_repos: 2 }))
+      client.listUserRepos.mockResolvedValue(makePage([makeRepo(9, 'brand-new', { created_at: '2024-06-05T00:00:00Z' })]))
+      renderApp()
+      await user.click(screen.getByRole('button', { name: 'Watchlist (2)' }))
+      const panel = screen.getByRole('dialog', { name: 'Watchlist' })
+
+      expect(await within(panel).findByText('+5 stars')).toBeInTheDocument()
+      expect(await within(panel).findByText('New: brand-new')).toBeInTheDocument()
+      expect(within(panel).getByText('2 entries have changed since you last looked.')).toBeInTheDocument()
+
+      await user.click(within(panel).getByRole('button', { name: 'Mark as seen' }))
+      expect(within(panel).queryByRole('list', { name: 'Changes' })).not.toBeInTheDocument()
+      expect(JSON.parse(localStorage.getItem(STORAGE_KEYS.watchlist)!)[0].seen.stars).toBe(100)
+    })
+
+    it('counts changes from the last visit once the list is closed', async () => {
+      const user = userEvent.setup()
+      writeStorage(STORAGE_KEYS.watchlist, [
+        { kind: 'repo', fullName: 'octocat/repo1', addedAt: seenAt, seenAt, seen: { stars: 95, forks: 0, openIssues: 0, pushedAt: null } },
+      ])
+      client.getRepo
+        .mockResolvedValueOnce(mockRepos[0])
+        .mockResolvedValueOnce({ ...mockRepos[0], stargazers_count: 102 })
+      renderApp()
+      await user.click(screen.getByRole('button', { name: 'Watchlist (1)' }))
+      expect(await screen.findByText('+5 stars')).toBeInTheDocument()
+      await user.click(screen.getByRole('button', { name: 'Close watchlist' }))
+      expect(JSON.parse(localStorage.getItem(STORAGE_KEYS.watchlist)!)[0].seen.stars).toBe(100)
+
+      await user.click(screen.getByRole('button', { name: 'Watchlist (1)' }))
+      expect(await screen.findByText('+2 stars')).toBeInTheDocument()
+    })
+
+    it('imports an exported list and rejects other files', async () => {
+      const user = userEvent.setup()
+      client.getUser.mockResolvedValue(makeUser('bob'))
+      client.listUserRepos.mockResolvedValue(makePage([]))
+      renderApp()
+      await user.click(screen.getByRole('button', { name: 'Watchlist' }))
+      const panel = screen.getByRole('dialog', { name: 'Watchlist' })
+      const input = within(panel).getByLabelText('Watchlist file')
+
+      await user.upload(input, new File(['not json'], 'list.json', { type: 'application/json' }))
+      expect(await within(panel).findByRole('alert')).toHaveTextContent('The file is not valid JSON.')
+
+      const file = JSON.stringify({ version: 1, items: [{ kind: 'user', login: 'bob' }] })
+      await user.upload(input, new File([file], 'list.json', { type: 'application/json' }))
+      expect(await within(panel).findByRole('button', { name: 'bob' })).toBeInTheDocument()
+      expect(within(panel).queryByRole('alert')).not.toBeInTheDocument()
+
+      await user.click(within(panel).getByRole('button', { name: 'bob' }))
+      expect(screen.queryByRole('dialog', { name: 'Watchlist' })).not.toBeInTheDocument()
+      expect(screen.getByPlaceholderText('Enter GitHub username')).toHaveValue('bob')
+    })
+  })
+
+  describe('Search history', () => {
+    const searchFor = async (user: ReturnType<typeof userEvent.setup>, text: string) => {
+      await user.click(screen.getByPlaceholderText('Enter GitHub username'))
+      await user.paste(text)
+      await user.keyboard('{Enter}')
+      await screen.findByText('testuser1')
+    }
+
+    beforeEach(() => {
+      client.searchUsers.mockResolvedValue(searchResponse(mockUsers))
+    })
+
+    it('offers recent searches beneath the search bar and re-runs them', async () => {
+      const user = userEvent.setup()
+      renderApp()
+      await searchFor(user, 'testuser')
+      await user.click(screen.getByLabelText('Clear input'))
+
+      const recent = screen.getByRole('group', { name: 'Recent searches' })
+      await user.click(within(recent).getByRole('option', { name: /^testuser/ }))
+      expect(screen.getByPlaceholderText('Enter GitHub username')).toHaveValue('testuser')
+      expect(await screen.findByText('testuser1')).toBeInTheDocument()
+      expect(client.searchUsers).toHaveBeenCalledTimes(2)
+      expect(screen.queryByRole('group', { name: 'Recent searches' })).not.toBeInTheDocument()
+    })
+
+    it('remembers only searches that were submitted, not those that settled while typing', async () => {
+      const user = userEvent.setup()
+      renderApp()
+      await user.click(screen.getByPlaceholderText('Enter GitHub username'))
+      await user.paste('testuser')
+      await screen.findByText('testuser1')
+      expect(localStorage.getItem(STORAGE_KEYS.history)).toBeNull()
+
+      await user.keyboard('{Enter}')
+      expect(JSON.parse(localStorage.getItem(STORAGE_KEYS.history)!).map((entry: HistoryEntry) => entry.request.q)).toEqual(['testuser'])
+      expect(client.searchUsers).toHaveBeenCalledTimes(1)
+    })
+
+    it('remembers a search opened from a shared link, but not again when the page is reloaded', async () => {
+      window.history.replaceState(null, '', '/?q=testuser')
+      const { unmount } = renderApp()
+      await screen.findByText('testuser1')
+      const remembered = () => JSON.parse(localStorage.getItem(STORAGE_KEYS.history) ?? '[]').map((entry: HistoryEntry) => entry.request.q)
+      expect(remembered()).toEqual(['testuser'])
+
+      unmount()
+      localStorage.removeItem(STORAGE_KEYS.history)
+      renderApp()
+      await screen.findByText('testuser1')
+      expect(remembered()).toEqual([])
+    })
+
+    it('removes single entries or clears the whole history', async () => {
+      const user = userEvent.setup()
+      const input = (term: string) => ({ mode: 'users' as const, term, filters: emptyFilters, repoFilters: emptyRepoFilters })
+      writeStorage(STORAGE_KEYS.history, recordSearch(recordSearch([], input('alpha')), input('beta')))
+      renderApp()
+      await user.click(screen.getByPlaceholderText('Enter GitHub username'))
+
+      const recent = screen.getByRole('group', { name: 'Recent searches' })
+      expect(within(recent).getAllByRole('option', { name: /^(alpha|beta)/ })).toHaveLength(2)
+      await user.click(within(recent).getByRole('button', { name: 'Remove alpha from history' }))
+      expect(within(recent).queryByRole('option', { name: /^alpha/ })).not.toBeInTheDocument()
+
+      await user.click(within(recent).getByRole('button', { name: 'Clear history' }))
+      expect(screen.queryByRole('group', { name: 'Recent searches' })).not.toBeInTheDocument()
+      expect(localStorage.getItem(STORAGE_KEYS.history)).toBe('[]')
+      expect(client.searchUsers).not.toHaveBeenCalled()
+    })
+
+    it('saves a named query with its qualifiers', async () => {
+      const user = userEvent.setup()
+      renderApp()
+      await searchFor(user, 'testuser')
+      await user.click(screen.getByRole('button', { name: /filters/i }))
+      await user.selectOptions(screen.getByLabelText('Account type'), 'org')
+      await user.click(screen.getByRole('button', { name: 'Save query' }))
+      const dialog = screen.getByRole('dialog', { name: 'Save query' })
+      expect(dialog).toHaveTextContent('Saves testuser type:org')
+      await user.type(within(dialog).getByLabelText('Name'), 'Test orgs')
+      await user.click(within(dialog).getByRole('button', { name: 'Save' }))
+
+      await user.click(screen.getByLabelText('Clear input'))
+      const saved = screen.getByRole('group', { name: 'Saved searches' })
+      expect(within(saved).getByRole('option', { name: /^Test orgs/ })).toHaveTextContent('testuser type:org')
+      await user.click(within(saved).getByRole('button', { name: 'Delete Test orgs' }))
+      expect(screen.queryByRole('group', { name: 'Saved searches' })).not.toBeInTheDocument()
+    })
+  })
+
+  describe('Autocomplete', () => {
+    it('suggests matching users once the search settles and expands the one picked from the keyboard', async () => {
+      const user = userEvent.setup()
+      client.searchUsers.mockResolvedValue(searchResponse(mockUsers))
+      client.listUserRepos.mockResolvedValue(makePage(mockRepos))
+      renderApp()
+      const combobox = screen.getByRole('combobox')
+      await user.type(combobox, 'testuser')
+
+      const users = await screen.findByRole('group', { name: 'Users' })
+      expect(within(users).getAllByRole('option').map(option => option.textContent)).toEqual(['testuser1', 'testuser2', 'testuser3'])
+      expect(combobox).toHaveAttribute('aria-expanded', 'true')
+
+      await user.keyboard('{ArrowDown}{ArrowDown}')
+      const active = within(users).getByRole('option', { name: 'testuser2' })
+      expect(active).toHaveAttribute('aria-selected', 'true')
+      expect(combobox).toHaveAttribute('aria-activedescendant', active.id)
+
+      await user.keyboard('{Enter}')
+      expect(combobox).toHaveValue('testuser2')
+      expect(screen.queryByRole('listbox')).not.toBeInTheDocument()
+      await waitFor(() => expect(window.location.search).toBe('?q=testuser2&user=testuser2'))
+      expect(client.searchUsers).toHaveBeenLastCalledWith(expect.objectContaining({ q: 'testuser2' }), withSignal)
+      expect(await screen.findByText('Test repository 1')).toBeInTheDocument()
+    })
+
+    it('wraps around with the arrow keys and closes on Escape', async () => {
+      const user = userEvent.setup()
+      const input = (term: string) => ({ mode: 'users' as const, term, filters: emptyFilters, repoFilters: emptyRepoFilters })
+      writeStorage(STORAGE_KEYS.history, recordSearch(recordSearch([], input('alpha')), input('beta')))
+      renderApp()
+      const combobox = screen.getByRole('combobox')
+      await user.click(combobox)
+
+      await user.keyboard('{ArrowUp}')
+      expect(screen.getByRole('option', { name: /^alpha/ })).toHaveAttribute('aria-selected', 'true')
+      await user.keyboard('{ArrowDown}')
+      expect(screen.getByRole('option', { name: /^beta/ })).toHaveAttribute('aria-selected', 'true')
+
+      await user.keyboard('{Escape}')
+      expect(screen.queryByRole('listbox')).not.toBeInTheDocument()
+      expect(combobox).toHaveAttribute('aria-expanded', 'false')
+      expect(combobox).not.toHaveAttribute('aria-activedescendant')
+      expect(client.searchUsers).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Keyboard shortcuts', () => {
+    const cursorItem = () => document.querySelector('[aria-current="true"]')
+    const trigger = (login: string) => screen.getByRole('button', { name: new RegExp(`^${login}`) })
+
+    it('moves through the results, expands users and clears the search from the keyboard', async () => {
+      const user = userEvent.setup()
+      client.searchUsers.mockResolvedValue(searchResponse(mockUsers))
+      client.listUserRepos.mockResolvedValue(makePage(mockRepos))
+      renderApp()
+      const input = screen.getByPlaceholderText('Enter GitHub username')
+      await user.type(input, 'testuser')
+      await screen.findByText('testuser1')
+      await user.click(document.body)
+
+      await user.keyboard('jj')
+      expect(cursorItem()).toHaveTextContent('testuser2')
+      await user.keyboard('{Enter}')
+      expect(trigger('testuser2')).toHaveAttribute('aria-expanded', 'true')
+      expect(await screen.findByText('Test repository 1')).toBeInTheDocument()
+
+      await user.keyboard('ko')
+      expect(cursorItem()).toHaveTextContent('testuser1')
+      expect(trigger('testuser1')).toHaveAttribute('aria-expanded', 'true')
+      expect(trigger('testuser2')).toHaveAttribute('aria-expanded', 'false')
+
+      await user.keyboard('{Escape}')
+      expect(trigger('testuser1')).toHaveAttribute('aria-expanded', 'false')
+      await user.keyboard('{Escape}')
+      expect(input).toHaveValue('')
+      expect(screen.queryByText('testuser1')).not.toBeInTheDocument()
+
+      await user.keyboard('/')
+      expect(input).toHaveFocus()
+      expect(input).toHaveValue('')
+    })
+
+    it('does not fire while typing in the search bar', async () => {
+      const user = userEvent.setup()
+      renderApp()
+      await user.type(screen.getByPlaceholderText('Enter GitHub username'), 'j/?')
+      expect(screen.getByPlaceholderText('Enter GitHub username')).toHaveValue('j/?')
+      expect(screen.queryByRole('dialog', { name: 'Keyboard shortcuts' })).not.toBeInTheDocument()
+    })
+
+    it('lists the shortcuts in an overlay opened with ?', async () => {
+      const user = userEvent.setup()
+      renderApp()
+      await user.keyboard('?')
+      const help = screen.getByRole('dialog', { name: 'Keyboard shortcuts' })
+      expect(help).toHaveFocus()
+      expect(within(help).getByText('Focus the search bar')).toBeInTheDocument()
+      expect(within(help).getByText('Esc')).toBeInTheDocument()
+
+      await user.keyboard('/')
+      expect(screen.getByPlaceholderText('Enter GitHub username')).not.toHaveFocus()
+      await user.keyboard('{Escape}')
+      expect(screen.queryByRole('dialog', { name: 'Keyboard shortcuts' })).not.toBeInTheDocument()
     })
   })
 
   describe('Edge cases', () => {
     it('does not search when input is empty or whitespace', async () => {
       const user = userEvent.setup()
-      render(<App />)
+      renderApp()
       const input = screen.getByPlaceholderText('Enter GitHub username')
       const searchButton = screen.getByRole('button', { name: /search/i })
 
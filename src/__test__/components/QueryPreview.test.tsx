@@ -0,0 +1,58 @@
+import { act, fireEvent, render, screen } from '@testing-library/react'
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { QueryPreview } from '@/components/QueryPreview'
+
+const stubClipboard = (clipboard: Partial<Clipboard> | undefined) =>
+  Object.defineProperty(navigator, 'clipboard', { value: clipboard, configurable: true })
+
+const copy = async () => {
+  await act(async () => {
+    fireEvent.click(screen.getByRole('button', { name: 'Copy query' }))
+  })
+}
+
+const showsCopied = (container: HTMLElement) => container.querySelector('.lucide-check') !== null
+
+describe('QueryPreview', () => {
+  afterEach(() => {
+    stubClipboard(undefined)
+    vi.useRealTimers()
+  })
+
+  it('copies the query and confirms it for a moment', async () => {
+    vi.useFakeTimers()
+    const writeText = vi.fn().mockResolvedValue(undefined)
+    stubClipboard({ writeText })
+    const { container } = render(<QueryPreview query="octocat type:org" onReset={() => {}} />)
+    await copy()
+    expect(writeText).toHaveBeenCalledWith('octocat type:org')
+    expect(showsCopied(container)).toBe(true)
+    act(() => {
+      vi.advanceTimersByTime(1500)
+    })
+    expect(showsCopied(container)).toBe(false)
+  })
+
+  it('does not confirm a copy the browser refused', async () => {
+    stubClipboard({ writeText: vi.fn().mockRejectedValue(new DOMException('denied', 'NotAllowedError')) })
+    const { container } = render(<QueryPreview query="octocat" onReset={() => {}} />)
+    await copy()
+    expect(showsCopied(container)).toBe(false)
+  })
+
+  it('does not confirm a copy without a clipboard', async () => {
+    const { container } = render(<QueryPreview query="octocat" onReset={() => {}} />)
+    await copy()
+    expect(showsCopied(container)).toBe(false)
+  })
+
+  it('stops the confirmation timer when it unmounts', async () => {
+    vi.useFakeTimers()
+    stubClipboard({ writeText: vi.fn().mockResolvedValue(undefined) })
+    const { unmount } = render(<QueryPreview query="octocat" onReset={() => {}} />)
+    await copy()
+    expect(vi.getTimerCount()).toBe(1)
+    unmount()
+    expect(vi.getTimerCount()).toBe(0)
+  })
+})
@@ -0,0 +1,64 @@
+import { fireEvent, render, screen, within } from '@testing-library/react'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { RepoCard } from '@/components/RepoCard'
+import { makeRepo } from '../fakes/github'
+
+describe('RepoCard', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2024-06-10T12:00:00Z'))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('shows language, counts, license and last push', () => {
+    render(<RepoCard repo={makeRepo(1, 'explorer', {
+      language: 'TypeScript',
+      forks_count: 1500,
+      open_issues_count: 7,
+      license: { key: 'mit', name: 'MIT License', spdx_id: 'MIT', url: null, node_id: 'L_1' },
+      pushed_at: '2024-06-07T12:00:00Z',
+    })} />)
+    expect(screen.getByText('TypeScript')).toBeInTheDocument()
+    expect(screen.getByText('1.5K forks')).toBeInTheDocument()
+    expect(screen.getByText('7 open issues')).toBeInTheDocument()
+    expect(screen.getByText('MIT')).toBeInTheDocument()
+    expect(screen.getByText('Updated 3 days ago')).toBeInTheDocument()
+  })
+
+  it('marks forks and archived repositories', () => {
+    render(<RepoCard repo={makeRepo(1, 'old', { fork: true, archived: true })} />)
+    expect(screen.getByText('Fork')).toBeInTheDocument()
+    expect(screen.getByText('Archived')).toBeInTheDocument()
+  })
+
+  it('renders topics as chips', () => {
+    render(<RepoCard repo={makeRepo(1, 'tagged', { topics: ['react', 'github-api'] })} />)
+    const topics = screen.getByRole('list', { name: 'Topics' })
+    expect(within(topics).getAllByRole('listitem').map(li => li.textContent)).toEqual(['react', 'github-api'])
+  })
+
+  it('omits optional metadata that is missing', () => {
+    render(<RepoCard repo={makeRepo(1, 'bare')} />)
+    expect(screen.queryByText('Fork')).not.toBeInTheDocument()
+    expect(screen.queryByTitle('License')).not.toBeInTheDocument()
+    expect(screen.queryByTitle('Open issues')).not.toBeInTheDocument()
+    expect(screen.queryByRole('list', { name: 'Topics' })).not.toBeInTheDocument()
+  })
+
+  it('links the owner into the user explorer when asked to', () => {
+    const onOpenOwner = vi.fn()
+    render(<RepoCard repo={makeRepo(1, 'hello')} onOpenOwner={onOpenOwner} />)
+    const owner = screen.getByRole('link', { name: /octocat/ })
+    expect(owner).toHaveAttribute('href', '?q=octocat&user=octocat')
+    fireEvent.click(owner)
+    expect(onOpenOwner).toHaveBeenCalledWith('octocat')
+  })
+
+  it('leaves the owner out by default', () => {
+    render(<RepoCard repo={makeRepo(1, 'hello')} />)
+    expect(screen.queryByRole('link', { name: /octocat/ })).not.toBeInTheDocument()
+  })
+})
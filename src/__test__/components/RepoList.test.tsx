@@ -0,0 +1,108 @@
+import { Profiler } from 'react'
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react'
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { RepoList } from '@/components/RepoList'
+import { defaultRepoListOptions } from '@/lib/repo-filters'
+import { mergeRepoPage } from '@/lib/repo-pages'
+import { makePage, makeRepo } from '../fakes/github'
+
+const repos = Array.from({ length: 200 }, (_, i) => makeRepo(i + 1, `repo-${i}`, { stargazers_count: 1000 - i }))
+
+const renderList = (props: Partial<Parameters<typeof RepoList>[0]> = {}) => render(
+  <RepoList
+    pages={mergeRepoPage(undefined, 1, makePage(repos))}
+    isLoading={false}
+    isLoadingMore={false}
+    options={defaultRepoListOptions}
+    onOptionsChange={vi.fn()}
+    onLoadMore={vi.fn()}
+    onRefresh={vi.fn()}
+    onRetry={vi.fn()}
+    {...props}
+  />,
+)
+
+describe('RepoList', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.unstubAllGlobals()
+  })
+
+  it('renders only the repositories near the viewport of a long list', () => {
+    renderList()
+    expect(screen.getByText('Showing 200 of 200 repositories')).toBeInTheDocument()
+    expect(screen.getByText('repo-0')).toBeInTheDocument()
+    expect(screen.queryByText('repo-199')).not.toBeInTheDocument()
+    expect(screen.getAllByRole('link', { name: /^repo-/ }).length).toBeLessThan(20)
+  })
+
+  it('renders later repositories as the page scrolls down', async () => {
+    renderList()
+    vi.spyOn(HTMLElement.prototype, 'getBoundingClientRect').mockReturnValue(DOMRect.fromRect({ y: -20000, height: 30000 }))
+    fireEvent.scroll(window)
+    await waitFor(() => expect(screen.getByText('repo-132')).toBeInTheDocument())
+    expect(screen.queryByText('repo-0')).not.toBeInTheDocument()
+  })
+
+  it('re-renders on scroll only when other repositories come into view', async () => {
+    const onRender = vi.fn()
+    const list = (
+      <RepoList
+        pages={mergeRepoPage(undefined, 1, makePage(repos))}
+        isLoading={false}
+        isLoadingMore={false}
+        options={defaultRepoListOptions}
+        onOptionsChange={vi.fn()}
+        onLoadMore={vi.fn()}
+        onRefresh={vi.fn()}
+        onRetry={vi.fn()}
+      />
+    )
+    render(<Profiler id="repos" onRender={onRender}>{list}</Profiler>)
+    const rect = vi.spyOn(HTMLElement.prototype, 'getBoundingClientRect')
+    const scrollTo = async (y: number) => {
+      rect.mockReturnValue(DOMRect.fromRect({ y, height: 30000 }))
+      fireEvent.scroll(window)
+      await act(() => new Promise(resolve => requestAnimationFrame(resolve)))
+    }
+    const commits = onRender.mock.calls.length
+    await scrollTo(-40)
+    expect(onRender).toHaveBeenCalledTimes(commits)
+    await scrollTo(-20000)
+    expect(onRender.mock.calls.length).toBeGreaterThan(commits)
+    expect(screen.getByText('repo-132')).toBeInTheDocument()
+  })
+
+  it('observes each rendered row once instead of on every render', () => {
+    const observe = vi.fn()
+    const created = vi.fn()
+    vi.stubGlobal('ResizeObserver', class {
+      constructor() { created() }
+      observe = observe
+      unobserve = vi.fn()
+      disconnect = vi.fn()
+    })
+    const { rerender } = renderList()
+    const observed = observe.mock.calls.length
+    expect(observed).toBeGreaterThan(1)
+    rerender(
+      <RepoList
+        pages={mergeRepoPage(undefined, 1, makePage(repos))}
+        isLoading={false}
+        isLoadingMore={true}
+        options={defaultRepoListOptions}
+        onOptionsChange={vi.fn()}
+        onLoadMore={vi.fn()}
+        onRefresh={vi.fn()}
+        onRetry={vi.fn()}
+      />,
+    )
+    expect(observe).toHaveBeenCalledTimes(observed)
+    expect(created).toHaveBeenCalledTimes(2)
+  })
+
+  it('shows skeleton rows while the first page loads', () => {
+    renderList({ pages: undefined, isLoading: true })
+    expect(screen.getAllByTestId('loading-skeleton')).toHaveLength(4)
+  })
+})
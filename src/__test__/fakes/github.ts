@@ -0,0 +1,172 @@
+import { vi, type Mock } from 'vitest'
+import type { GithubClient, Page } from '@/lib/github'
+import type { Commit, Contributor, Organization, Release, Repo, SimpleUser, User, UserSearchItem } from '@/lib/github-types'
+
+export type FakeGithubClient = { [K in keyof GithubClient]: Mock<GithubClient[K]> }
+
+const notMocked = (name: string) => vi.fn(() => Promise.reject(new Error(`${name} was not mocked`)))
+
+export function createFakeGithubClient(): FakeGithubClient {
+  return {
+    searchUsers: notMocked('searchUsers'),
+    searchRepos: notMocked('searchRepos'),
+    getUser: notMocked('getUser'),
+    listUserRepos: notMocked('listUserRepos'),
+    getOrg: notMocked('getOrg'),
+    listOrgRepos: notMocked('listOrgRepos'),
+    listOrgMembers: notMocked('listOrgMembers'),
+    getRepo: notMocked('getRepo'),
+    getRepoReadme: notMocked('getRepoReadme'),
+    getRepoLanguages: notMocked('getRepoLanguages'),
+    listRepoContributors: notMocked('listRepoContributors'),
+    getLatestRelease: notMocked('getLatestRelease'),
+    listRepoCommits: notMocked('listRepoCommits'),
+  } as FakeGithubClient
+}
+
+export function makeSimpleUser(login: string, overrides: Partial<SimpleUser> = {}): SimpleUser {
+  const url = `https://api.github.com/users/${login}`
+  return {
+    login,
+    id: login.length,
+    node_id: `U_${login}`,
+    avatar_url: `https://avatars.githubusercontent.com/${login}`,
+    gravatar_id: '',
+    url,
+    html_url: `https://github.com/${login}`,
+    followers_url: `${url}/followers`,
+    following_url: `${url}/following{/other_user}`,
+    gists_url: `${url}/gists{/gist_id}`,
+    starred_url: `${url}/starred{/owner}{/repo}`,
+    subscriptions_url: `${url}/subscriptions`,
+    organizations_url: `${url}/orgs`,
+    repos_url: `${url}/repos`,
+    events_url: `${url}/events{/privacy}`,
+    received_events_url: `${url}/received_events`,
+    type: 'User',
+    site_admin: false,
+    ...overrides,
+  }
+}
+
+export function makeSearchUser(login: string, overrides: Partial<UserSearchItem> = {}): UserSearchItem {
+  return { ...makeSimpleUser(login), score: 1, ...overrides }
+}
+
+export function makeUser(login: string, overrides: Partial<User> = {}): User {
+  return {
+    ...makeSimpleUser(login),
+    name: null,
+    company: null,
+    blog: null,
+    location: null,
+    email: null,
+    hireable: null,
+    bio: null,
+    public_repos: 0,
+    public_gists: 0,
+    followers: 0,
+    following: 0,
+    created_at: '2020-01-01T00:00:00Z',
+    updated_at: '2020-01-01T00:00:00Z',
+    ...overrides,
+  }
+}
+
+export function makeOrg(login: string, overrides: Partial<Organization> = {}): Organization {
+  const url = `https://api.github.com/orgs/${login}`
+  return {
+    login,
+    id: login.length,
+    node_id: `O_${login}`,
+    url,
+    repos_url: `${url}/repos`,
+    members_url: `${url}/members{/member}`,
+    public_members_url: `${url}/public_members{/member}`,
+    avatar_url: `https://avatars.githubusercontent.com/${login}`,
+    description: null,
+    html_url: `https://github.com/${login}`,
+    public_repos: 0,
+    public_gists: 0,
+    followers: 0,
+    following: 0,
+    created_at: '2015-01-01T00:00:00Z',
+    updated_at: '2015-01-01T00:00:00Z',
+    type: 'Organization',
+    ...overrides,
+  }
+}
+
+export function makeRepo(id: number, name: string, overrides: Partial<Repo> = {}): Repo {
+  const owner = overrides.owner ?? makeSimpleUser('octocat')
+  return {
+    id,
+    node_id: `R_${id}`,
+    name,
+    full_name: `${owner.login}/${name}`,
+    private: false,
+    owner,
+    html_url: `https://github.com/${owner.login}/${name}`,
+    description: null,
+    fork: false,
+    url: `https://api.github.com/repos/${owner.login}/${name}`,
+    homepage: null,
+    size: 0,
+    stargazers_count: 0,
+    watchers_count: 0,
+    language: null,
+    forks_count: 0,
+    open_issues_count: 0,
+    license: null,
+    topics: [],
+    has_issues: true,
+    has_wiki: true,
+    has_pages: false,
+    archived: false,
+    disabled: false,
+    visibility: 'public',
+    default_branch: 'main',
+    created_at: '2020-01-01T00:00:00Z',
+    updated_at: '2020-01-01T00:00:00Z',
+    pushed_at: '2020-01-01T00:00:00Z',
+    ...overrides,
+  }
+}
+
+export function makeContributor(login: string, contributions: number): Contributor {
+  const { id, avatar_url, html_url, type } = makeSimpleUser(login)
+  return { login, id, avatar_url, html_url, type, contributions }
+}
+
+export function makeRelease(tag: string, overrides: Partial<Release> = {}): Release {
+  return {
+    id: tag.length,
+    tag_name: tag,
+    name: tag,
+    html_url: `https://github.com/octocat/hello/releases/tag/${tag}`,
+    draft: false,
+    prerelease: false,
+    created_at: '2024-01-01T00:00:00Z',
+    published_at: '2024-01-01T00:00:00Z',
+    ...overrides,
+  }
+}
+
+export function makeCommit(sha: string, message: string, author: string | null = 'octocat'): Commit {
+  const actor = { name: author ?? 'Someone', email: 'someone@example.com', date: '2024-01-01T00:00:00Z' }
+  return {
+    sha,
+    html_url: `https://github.com/octocat/hello/commit/${sha}`,
+    commit: { message, author: actor, committer: actor },
+    author: author ? makeSimpleUser(author) : null,
+  }
+}
+
+export function makePage<T>(
+  items: T[],
+  nextPage: number | null = null,
+  lastPage: number | null = null,
+  fetchedAt = Date.now(),
+): Page<T> {
+  return { items, nextPage, lastPage, fetchedAt }
+}
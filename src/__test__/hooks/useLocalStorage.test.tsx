@@ -0,0 +1,43 @@
+import { renderHook, act } from '@testing-library/react'
+import { describe, it, expect, beforeEach } from 'vitest'
+import { useLocalStorage } from '@/hooks/useLocalStorage'
+
+describe('useLocalStorage hook', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('returns the initial value when nothing is stored', () => {
+    const { result } = renderHook(() => useLocalStorage('key', 'fallback'))
+    expect(result.current[0]).toBe('fallback')
+  })
+
+  it('reads and writes JSON values', () => {
+    localStorage.setItem('key', JSON.stringify({ a: 1 }))
+    const { result } = renderHook(() => useLocalStorage('key', { a: 0 }))
+    expect(result.current[0]).toEqual({ a: 1 })
+    act(() => result.current[1]({ a: 2 }))
+    expect(result.current[0]).toEqual({ a: 2 })
+    expect(localStorage.getItem('key')).toBe('{"a":2}')
+  })
+
+  it('removes the entry when set to null', () => {
+    const { result } = renderHook(() => useLocalStorage<string | null>('key', null))
+    act(() => result.current[1]('value'))
+    act(() => result.current[1](null))
+    expect(localStorage.getItem('key')).toBeNull()
+  })
+
+  it('keeps hooks sharing a key in sync', () => {
+    const first = renderHook(() => useLocalStorage('key', 0))
+    const second = renderHook(() => useLocalStorage('key', 0))
+    act(() => first.result.current[1](prev => prev + 1))
+    expect(second.result.current[0]).toBe(1)
+  })
+
+  it('falls back when the stored value is not valid JSON', () => {
+    localStorage.setItem('key', '{oops')
+    const { result } = renderHook(() => useLocalStorage('key', 'fallback'))
+    expect(result.current[0]).toBe('fallback')
+  })
+})
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+import { analyzeRepos, createdPerYear, starsPerRepo } from '@/lib/analytics'
+import { makeRepo } from '../fakes/github'
+
+describe('analyzeRepos', () => {
+  it('charts language counts with their linguist colors', () => {
+    const { summary, languages } = analyzeRepos([
+      makeRepo(1, 'a', { language: 'Go', stargazers_count: 3, forks_count: 1 }),
+      makeRepo(2, 'b', { language: 'Go' }),
+      makeRepo(3, 'c', { language: 'Rust', stargazers_count: 4 }),
+    ])
+    expect(summary).toMatchObject({ stars: 7, forks: 1 })
+    expect(languages).toEqual([
+      { label: 'Go', value: 2, color: '#00ADD8' },
+      { label: 'Rust', value: 1, color: '#dea584' },
+    ])
+  })
+})
+
+describe('starsPerRepo', () => {
+  it('keeps the most-starred repos and drops unstarred ones', () => {
+    const repos = [
+      makeRepo(1, 'none', { stargazers_count: 0 }),
+      makeRepo(2, 'few', { stargazers_count: 2 }),
+      makeRepo(3, 'many', { stargazers_count: 90 }),
+      makeRepo(4, 'some', { stargazers_count: 10 }),
+    ]
+    expect(starsPerRepo(repos, 2)).toEqual([
+      { label: 'many', value: 90 },
+      { label: 'some', value: 10 },
+    ])
+  })
+})
+
+describe('createdPerYear', () => {
+  it('counts repos per year, keeping quiet years in between', () => {
+    const repos = ['2019-05-01', '2021-01-10', '2021-12-31', '2019-02-02'].map((date, i) =>
+      makeRepo(i, `r${i}`, { created_at: `${date}T00:00:00Z` }))
+    expect(createdPerYear(repos)).toEqual([
+      { label: '2019', value: 2 },
+      { label: '2020', value: 0 },
+      { label: '2021', value: 2 },
+    ])
+  })
+
+  it('is empty without repos', () => {
+    expect(createdPerYear([])).toEqual([])
+  })
+})
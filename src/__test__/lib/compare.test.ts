@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest'
+import { compareUser, leaders } from '@/lib/compare'
+import { makeRepo, makeUser } from '../fakes/github'
+
+describe('compareUser', () => {
+  const profile = makeUser('alice', { name: 'Alice', followers: 40, public_repos: 5, created_at: '2015-01-01T00:00:00Z' })
+
+  it('sums stars and ranks languages over the loaded repos', () => {
+    const column = compareUser(profile, [
+      makeRepo(1, 'a', { stargazers_count: 10, language: 'Go' }),
+      makeRepo(2, 'b', { stargazers_count: 5, language: 'Go' }),
+      makeRepo(3, 'c', { stargazers_count: 1, language: 'Rust' }),
+    ])
+    expect(column).toMatchObject({ login: 'alice', name: 'Alice', followers: 40, publicRepos: 5, stars: 16, reposCounted: 3 })
+    expect(column.languages.map(l => l.language)).toEqual(['Go', 'Rust'])
+  })
+
+  it('lists the most-starred own repositories, leaving forks out', () => {
+    const column = compareUser(profile, [
+      makeRepo(1, 'small', { stargazers_count: 2 }),
+      makeRepo(2, 'forked', { stargazers_count: 900, fork: true }),
+      makeRepo(3, 'big', { stargazers_count: 50 }),
+      makeRepo(4, 'mid', { stargazers_count: 20 }),
+    ], { topRepos: 2 })
+    expect(column.topRepos.map(r => r.name)).toEqual(['big', 'mid'])
+  })
+})
+
+describe('leaders', () => {
+  it('marks every position holding the highest value', () => {
+    expect([...leaders([3, 7, 7, 1])]).toEqual([1, 2])
+  })
+
+  it('marks nobody when nothing stands out', () => {
+    expect(leaders([4, 4]).size).toBe(0)
+    expect(leaders([0, 0, 0]).size).toBe(0)
+    expect(leaders([9]).size).toBe(0)
+  })
+})
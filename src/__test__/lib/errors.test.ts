@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest'
+import { toAppError } from '@/lib/errors'
+import { GithubApiError } from '@/lib/github'
+
+const rate = { resource: 'core', limit: 60, remaining: 0, used: 60, resetAt: 5_000 }
+
+describe('GithubApiError kinds', () => {
+  it.each([
+    [new GithubApiError('x', { network: true }), 'network'],
+    [new GithubApiError('API rate limit exceeded', { status: 403, rateLimit: rate }), 'rate_limit'],
+    [new GithubApiError('You have exceeded a secondary rate limit', { status: 403 }), 'abuse'],
+    [new GithubApiError('Slow down', { status: 429, retryAfter: 60 }), 'abuse'],
+    [new GithubApiError('Bad credentials', { status: 401 }), 'unauthorized'],
+    [new GithubApiError('Not Found', { status: 404 }), 'not_found'],
+    [new GithubApiError('Validation Failed', { status: 422 }), 'invalid_query'],
+    [new GithubApiError('Bad Gateway', { status: 502 }), 'server'],
+    [new GithubApiError('Forbidden', { status: 403 }), 'unknown'],
+  ])('classifies %s', (error, kind) => {
+    expect(error.kind).toBe(kind)
+  })
+})
+
+describe('toAppError', () => {
+  it('falls back to the context message for unexpected errors', () => {
+    expect(toAppError(new Error('boom'), 'search').message).toBe('Failed to fetch users.')
+    expect(toAppError(new Error('boom'), 'repos').message).toBe('Failed to fetch repositories.')
+  })
+
+  it('words 404s by context', () => {
+    const error = new GithubApiError('Not Found', { status: 404 })
+    expect(toAppError(error, 'repos').message).toBe('This user no longer exists on GitHub.')
+    expect(toAppError(error, 'search').message).toBe('GitHub could not find what you searched for.')
+  })
+
+  it('waits for the rate limit reset and suggests a token when unauthenticated', () => {
+    const appError = toAppError(new GithubApiError('API rate limit exceeded', { status: 403, rateLimit: rate }), 'search')
+    expect(appError.retryAt).toBe(5_000)
+    expect(appError.message).toMatch(/core rate limit reached.*personal access token/)
+  })
+
+  it('waits for Retry-After on secondary rate limits', () => {
+    const appError = toAppError(new GithubApiError('Slow down', { status: 403, retryAfter: 30 }), 'search', 1_000)
+    expect(appError).toMatchObject({ kind: 'abuse', retryAt: 31_000 })
+  })
+})
@@ -0,0 +1,201 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createExplorerState,
+  explorerReducer,
+  selectHasResults,
+  selectLoadedRepos,
+  selectLoadedUsers,
+  selectPageCount,
+  selectRepoRequest,
+  selectRepoResults,
+  selectRequest,
+  selectUsers,
+  type ExplorerAction,
+  type ExplorerState,
+} from '@/lib/explorer-store'
+import { emptyFilters, emptyRepoFilters } from '@/lib/search-query'
+import { parseUrlState } from '@/lib/url-state'
+import { makePage, makeRepo, makeSearchUser } from '../fakes/github'
+
+const reduce = (state: ExplorerState, ...actions: ExplorerAction[]) => actions.reduce(explorerReducer, state)
+const input = (term: string, mode: 'users' | 'repos' = 'users') =>
+  ({ mode, term, filters: emptyFilters, repoFilters: emptyRepoFilters })
+const error = { kind: 'server', message: 'GitHub is having trouble right now (HTTP 502).', status: 502, retryAt: null } as const
+
+describe('explorerReducer', () => {
+  const initial = createExplorerState(parseUrlState(''))
+  const searched = reduce(initial,
+    { type: 'search/committed', input: input('octo'), page: 1, expanded: null },
+    { type: 'search/started' },
+    {
+      type: 'search/succeeded',
+      page: 1,
+      results: { mode: 'users', items: [makeSearchUser('octocat')] },
+      totalCount: 25,
+      searchTime: 120,
+    },
+  )
+
+  it('seeds the input, committed search and page from the url', () => {
+    const state = createExplorerState(parseUrlState('?q=octo&type=org&page=3&user=octocat'))
+    expect(state).toMatchObject({ term: 'octo', page: 3, expanded: 'octocat', showFilters: true })
+    expect(selectRequest(state)).toEqual({ mode: 'users', q: 'octo type:org' })
+  })
+
+  it('seeds a repository search from the url', () => {
+    const state = createExplorerState(parseUrlState('?mode=repos&q=parser&stars=%3E10'))
+    expect(state).toMatchObject({ mode: 'repos', showFilters: true })
+    expect(selectRequest(state)).toEqual({ mode: 'repos', q: 'parser stars:>10' })
+  })
+
+  it('keeps user and repository results apart', () => {
+    const repos = reduce(initial,
+      { type: 'search/committed', input: input('parser', 'repos'), page: 1, expanded: null },
+      {
+        type: 'search/succeeded',
+        page: 1,
+        results: { mode: 'repos', items: [{ ...makeRepo(1, 'parser'), score: 1 }] },
+        totalCount: 1,
+        searchTime: 80,
+      },
+    )
+    expect(selectRepoResults(repos).map(r => r.name)).toEqual(['parser'])
+    expect(selectUsers(repos)).toEqual([])
+    expect(selectHasResults(repos)).toBe(true)
+    expect(selectRepoResults(searched)).toEqual([])
+  })
+
+  it('tracks a search from start to results', () => {
+    const started = reduce(initial, { type: 'search/started' })
+    expect(started.searching).toBe(true)
+    expect(selectHasResults(started)).toBe(true)
+    expect(searched).toMatchObject({ searching: false, totalCount: 25, searchTime: 120 })
+    expect(selectUsers(searched).map(u => u.login)).toEqual(['octocat'])
+    expect(selectPageCount(searched)).toBe(3)
+  })
+
+  it('keeps results but records the error when a search fails', () => {
+    const failed = reduce(searched, { type: 'search/started' }, { type: 'search/failed', error })
+    expect(failed).toMatchObject({ searching: false, error })
+    expect(reduce(failed, { type: 'search/started' }).error).toBeNull()
+  })
+
+  it('stops loading without an error when a search is aborted', () => {
+    const aborted = reduce(initial, { type: 'search/started' }, { type: 'search/aborted' })
+    expect(aborted).toMatchObject({ searching: false, error: null })
+    expect(selectHasResults(aborted)).toBe(false)
+  })
+
+  it('drops everything from the previous search when a new one is committed', () => {
+    const withRepos = reduce(searched,
+      { type: 'user/expanded', login: 'octocat' },
+      { type: 'repos/loaded', login: 'octocat', page: makePage([makeRepo(1, 'a')]) },
+    )
+    const next = reduce(withRepos,
+      { type: 'search/committed', input: input('other'), page: 2, expanded: 'x' })
+    expect(next).toMatchObject({ pages: {}, repos: {}, totalCount: 0, page: 2, expanded: 'x' })
+  })
+
+  it('clears the input together with the results', () => {
+    const cleared = reduce(searched, { type: 'search/cleared' })
+    expect(cleared).toMatchObject({ term: '', pages: {}, committed: { term: '' } })
+    expect(selectHasResults(cleared)).toBe(false)
+  })
+
+  it('collapses the expanded user when the page changes', () => {
+    const state = reduce(searched, { type: 'user/expanded', login: 'octocat' }, { type: 'page/changed', page: 2 })
+    expect(state).toMatchObject({ page: 2, expanded: null })
+    expect(selectUsers(state)).toEqual([])
+  })
+
+  it('moves the keyboard cursor within the current page and resets it with the page', () => {
+    const page = reduce(searched, {
+      type: 'search/succeeded',
+      page: 1,
+      results: { mode: 'users', items: [makeSearchUser('octocat'), makeSearchUser('octodog')] },
+      totalCount: 2,
+      searchTime: 80,
+    })
+    const move = (state: ExplorerState, ...steps: number[]) =>
+      reduce(state, ...steps.map(step => ({ type: 'cursor/moved', step }) as const)).cursor
+    expect(page.cursor).toBe(-1)
+    expect(move(page, -1)).toBe(0)
+    expect(move(page, 1, 1, 1)).toBe(1)
+    expect(move(page, 1, 1, -1, -1)).toBe(0)
+    expect(reduce(page, { type: 'cursor/moved', step: 1 }, { type: 'page/changed', page: 2 }).cursor).toBe(-1)
+    expect(move(initial, 1)).toBe(-1)
+  })
+
+  it('tracks each user\'s repositories independently', () => {
+    const state = reduce(searched,
+      { type: 'repos/started', login: 'a' },
+      { type: 'repos/started', login: 'b' },
+      { type: 'repos/loaded', login: 'b', page: makePage([makeRepo(1, 'one')], 2, 2) },
+    )
+    expect(selectRepoRequest(state, 'a').status).toBe('loading')
+    expect(selectRepoRequest(state, 'b')).toMatchObject({ status: 'loaded', pages: { nextPage: 2 } })
+    expect(selectRepoRequest(state, 'c')).toEqual({ status: 'idle', loadingMore: false })
+  })
+
+  it('appends later pages and keeps them when loading more fails', () => {
+    const state = reduce(searched,
+      { type: 'repos/loaded', login: 'a', page: makePage([makeRepo(1, 'one')], 2, 3) },
+      { type: 'repos/more-started', login: 'a' },
+      { type: 'repos/page-loaded', login: 'a', pageNumber: 2, page: makePage([makeRepo(2, 'two')], 3, 3) },
+    )
+    expect(selectRepoRequest(state, 'a')).toMatchObject({ loadingMore: true, pages: { fetchedPages: [1, 2] } })
+    const failed = reduce(state, { type: 'repos/failed', login: 'a', error })
+    expect(selectRepoRequest(failed, 'a')).toMatchObject({ status: 'error', error, failed: 'more', loadingMore: false })
+    expect(selectRepoRequest(failed, 'a').pages?.repos).toHaveLength(2)
+  })
+
+  it('remembers that a refresh failed, so retrying refreshes again', () => {
+    const failed = reduce(searched,
+      { type: 'repos/loaded', login: 'a', page: makePage([makeRepo(1, 'one')]) },
+      { type: 'repos/started', login: 'a' },
+      { type: 'repos/failed', login: 'a', error },
+    )
+    expect(selectRepoRequest(failed, 'a')).toMatchObject({ status: 'error', failed: 'first', pages: { repos: [{ id: 1 }] } })
+    expect(selectRepoRequest(reduce(failed, { type: 'repos/more-started', login: 'a' }), 'a').failed).toBeUndefined()
+  })
+
+  it('keeps up to four users picked for comparison across searches', () => {
+    const toggle = (login: string): ExplorerAction => ({ type: 'compare/toggled', login })
+    const picked = reduce(searched, ...['a', 'b', 'c', 'd', 'e'].map(toggle))
+    expect(picked.compared).toEqual(['a', 'b', 'c', 'd'])
+
+    const next = reduce(picked, { type: 'search/committed', input: input('other'), page: 1, expanded: null })
+    expect(next.compared).toEqual(['a', 'b', 'c', 'd'])
+    expect(reduce(next, toggle('b')).compared).toEqual(['a', 'c', 'd'])
+  })
+
+  it('opens the comparison only with two users, and closes it when fewer remain', () => {
+    const one = reduce(initial, { type: 'compare/toggled', login: 'a' }, { type: 'compare/opened' })
+    expect(one.comparing).toBe(false)
+
+    const two = reduce(one, { type: 'compare/toggled', login: 'b' }, { type: 'compare/opened' })
+    expect(two.comparing).toBe(true)
+    expect(reduce(two, { type: 'compare/toggled', login: 'a' })).toMatchObject({ compared: ['b'], comparing: false })
+    expect(reduce(two, { type: 'compare/cleared' })).toMatchObject({ compared: [], comparing: false })
+  })
+
+  it('collects the repository results and every loaded repo once', () => {
+    const shared = makeRepo(1, 'shared')
+    const state = reduce(initial,
+      { type: 'search/committed', input: input('x', 'repos'), page: 1, expanded: null },
+      { type: 'search/succeeded', page: 1, results: { mode: 'repos', items: [{ ...shared, score: 1 }] }, totalCount: 1, searchTime: 5 },
+      { type: 'repos/loaded', login: 'a', page: makePage([shared, makeRepo(2, 'own')]) },
+    )
+    expect(selectLoadedRepos(state).map(r => r.name)).toEqual(['shared', 'own'])
+  })
+
+  it('collects the users of every loaded result page once, in page order', () => {
+    const users = (...logins: string[]) => ({ mode: 'users' as const, items: logins.map(login => makeSearchUser(login)) })
+    const state = reduce(searched,
+      { type: 'page/changed', page: 3 },
+      { type: 'search/succeeded', page: 3, results: users('carol', 'dave'), totalCount: 25, searchTime: 5 },
+      { type: 'search/succeeded', page: 2, results: users('bob', 'carol'), totalCount: 25, searchTime: 5 },
+    )
+    expect(selectLoadedUsers(state).map(user => user.login)).toEqual(['octocat', 'bob', 'carol', 'dave'])
+  })
+})
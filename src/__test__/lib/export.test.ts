@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { downloadFile, exportFilename, formatExport, repoColumns, toCsv, toMarkdown, userColumns, type ExportColumn } from '@/lib/export'
+import { makeRepo, makeSearchUser, makeUser } from '../fakes/github'
+
+type Row = { name: string; note: string | null; stars: number }
+const columns: ExportColumn<Row>[] = [
+  { key: 'name', label: 'Name', value: row => row.name },
+  { key: 'note', label: 'Note', value: row => row.note },
+  { key: 'stars', label: 'Stars', value: row => row.stars },
+]
+
+describe('toCsv', () => {
+  it('quotes cells with separators, quotes or line breaks', () => {
+    const csv = toCsv([{ name: 'a, b', note: 'say "hi"\nthere', stars: 3 }], columns)
+    expect(csv).toBe('Name,Note,Stars\r\n"a, b","say ""hi""\nthere",3\r\n')
+  })
+
+  it('leaves missing values empty and defuses spreadsheet formulas', () => {
+    expect(toCsv([{ name: '=SUM(A1)', note: null, stars: 0 }], columns)).toBe("Name,Note,Stars\r\n'=SUM(A1),,0\r\n")
+  })
+})
+
+describe('toMarkdown', () => {
+  it('builds a table, escaping pipes and flattening line breaks', () => {
+    expect(toMarkdown([{ name: 'a|b', note: 'one\ntwo', stars: 1 }], columns)).toBe([
+      '| Name | Note | Stars |',
+      '| --- | --- | --- |',
+      '| a\\|b | one two | 1 |',
+      '',
+    ].join('\n'))
+  })
+})
+
+describe('formatExport', () => {
+  it('writes JSON objects keyed by the selected columns', () => {
+    const repo = makeRepo(1, 'hello', { stargazers_count: 5, language: 'Go' })
+    const picked = repoColumns.filter(column => ['full_name', 'stars', 'language'].includes(column.key))
+    expect(JSON.parse(formatExport('json', [repo], picked))).toEqual([
+      { full_name: 'octocat/hello', language: 'Go', stars: 5 },
+    ])
+  })
+
+  it('fills profile columns only for users whose profile is loaded', () => {
+    const rows = [
+      { user: makeSearchUser('alice'), profile: makeUser('alice', { followers: 12 }) },
+      { user: makeSearchUser('bob') },
+    ]
+    const picked = userColumns.filter(column => ['login', 'followers'].includes(column.key))
+    expect(formatExport('csv', rows, picked)).toBe('Login,Followers\r\nalice,12\r\nbob,\r\n')
+  })
+})
+
+describe('exportFilename', () => {
+  it('names the file after the data, the query and the day', () => {
+    const date = new Date(2024, 5, 9)
+    expect(exportFilename('users', 'octo type:org', 'csv', date)).toBe('github-users-octo-type-org-2024-06-09.csv')
+    expect(exportFilename('repos', '', 'markdown', date)).toBe('github-repos-2024-06-09.md')
+  })
+})
+
+describe('downloadFile', () => {
+  const { createObjectURL, revokeObjectURL } = URL
+
+  afterEach(() => {
+    URL.createObjectURL = createObjectURL
+    URL.revokeObjectURL = revokeObjectURL
+    vi.restoreAllMocks()
+    vi.useRealTimers()
+  })
+
+  it('clicks a link in the document and revokes its url only after the click', () => {
+    vi.useFakeTimers()
+    URL.createObjectURL = vi.fn(() => 'blob:export')
+    URL.revokeObjectURL = vi.fn()
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+      expect(document.body).toContainElement(this)
+    })
+
+    downloadFile('users.csv', 'login\r\n', 'text/csv')
+    const link = click.mock.contexts[0] as HTMLAnchorElement
+    expect(link).toMatchObject({ download: 'users.csv', href: 'blob:export' })
+    expect(document.body).not.toContainElement(link)
+    expect(URL.revokeObjectURL).not.toHaveBeenCalled()
+    vi.runAllTimers()
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:export')
+  })
+})
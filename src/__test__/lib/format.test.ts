@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+import { formatAge, formatCount, formatDate, formatRelativeTime, toExternalUrl } from '@/lib/format'
+
+describe('formatCount', () => {
+  it('keeps small numbers and compacts large ones', () => {
+    expect(formatCount(999)).toBe('999')
+    expect(formatCount(1234)).toBe('1.2K')
+    expect(formatCount(2_500_000)).toBe('2.5M')
+  })
+})
+
+describe('formatDate', () => {
+  it('formats as short month and year by default', () => {
+    expect(formatDate('2011-03-14T12:00:00Z')).toBe('Mar 2011')
+  })
+})
+
+describe('toExternalUrl', () => {
+  it('adds a scheme only when missing', () => {
+    expect(toExternalUrl('example.com')).toBe('https://example.com')
+    expect(toExternalUrl('http://example.com')).toBe('http://example.com')
+  })
+})
+
+describe('formatRelativeTime', () => {
+  const now = Date.parse('2024-06-10T12:00:00Z')
+
+  it('picks the largest fitting unit', () => {
+    expect(formatRelativeTime('2024-06-07T12:00:00Z', now)).toBe('3 days ago')
+    expect(formatRelativeTime('2024-06-10T09:00:00Z', now)).toBe('3 hours ago')
+    expect(formatRelativeTime('2022-06-01T00:00:00Z', now)).toBe('2 years ago')
+  })
+
+  it('uses natural wording for the closest units', () => {
+    expect(formatRelativeTime('2024-06-09T12:00:00Z', now)).toBe('yesterday')
+    expect(formatRelativeTime('2024-06-10T11:59:30Z', now)).toBe('just now')
+  })
+})
+
+describe('formatAge', () => {
+  const now = Date.parse('2024-06-10T12:00:00Z')
+
+  it('rounds down to the largest fitting unit', () => {
+    expect(formatAge('2012-01-01T00:00:00Z', now)).toBe('12 years')
+    expect(formatAge('2024-03-01T00:00:00Z', now)).toBe('3 months')
+    expect(formatAge('2024-06-09T12:00:00Z', now)).toBe('1 day')
+    expect(formatAge('2024-06-10T11:59:50Z', now)).toBe('less than a minute')
+  })
+})
@@ -0,0 +1,289 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { AxiosError, CanceledError, type AxiosResponse } from 'axios'
+import { createGithubClient, GithubApiError, isAbortError, toQueryString } from '@/lib/github'
+import { createResponseCache } from '@/lib/response-cache'
+
+const httpError = (status: number, message = 'Request failed', headers: Record<string, string> = {}) =>
+  new AxiosError(message, 'ERR_BAD_RESPONSE', undefined, undefined, {
+    status,
+    data: { message },
+    headers,
+  } as AxiosResponse)
+
+const rateHeaders = (remaining: number) => ({
+  'x-ratelimit-limit': '60',
+  'x-ratelimit-remaining': String(remaining),
+  'x-ratelimit-reset': '1700000000',
+  'x-ratelimit-resource': 'core',
+})
+
+const rejectionOf = (promise: Promise<unknown>) =>
+  promise.then(() => { throw new Error('Expected the request to fail') }, (error: GithubApiError) => error)
+
+const networkError = () => new AxiosError('Network Error', 'ERR_NETWORK')
+
+describe('toQueryString', () => {
+  it('encodes keys and values and skips empty params', () => {
+    expect(toQueryString({ q: 'john doe', type: undefined, per_page: 10, page: null, sort: '' }))
+      .toBe('?q=john%20doe&per_page=10')
+  })
+
+  it('returns an empty string when there is nothing to encode', () => {
+    expect(toQueryString({})).toBe('')
+  })
+})
+
+describe('createGithubClient', () => {
+  it('searches users with an encoded query and GitHub headers', async () => {
+    const http = { get: vi.fn().mockResolvedValue({ data: { total_count: 0, incomplete_results: false, items: [] } }) }
+    const client = createGithubClient({ http, baseUrl: '/api' })
+    await client.searchUsers({ q: 'type:org', per_page: 10 })
+    expect(http.get).toHaveBeenCalledWith('/api/search/users?q=type%3Aorg&per_page=10', {
+      headers: expect.objectContaining({ Accept: 'application/vnd.github+json' }),
+      signal: undefined,
+      validateStatus: expect.any(Function),
+    })
+  })
+
+  it('searches repositories with the encoded query', async () => {
+    const http = { get: vi.fn().mockResolvedValue({ data: { items: [] } }) }
+    const client = createGithubClient({ http, baseUrl: '/api' })
+    await client.searchRepos({ q: 'parser stars:>100', sort: 'stars', per_page: 10 })
+    expect(http.get.mock.calls[0][0]).toBe('/api/search/repositories?q=parser%20stars%3A%3E100&sort=stars&per_page=10')
+  })
+
+  it('builds user and repo paths from the login', async () => {
+    const http = { get: vi.fn().mockResolvedValue({ data: [] }) }
+    const client = createGithubClient({ http, baseUrl: '/api' })
+    await client.getUser('octocat')
+    await client.listUserRepos('octocat', { per_page: 100 })
+    expect(http.get.mock.calls.map(([url]) => url)).toEqual([
+      '/api/users/octocat',
+      '/api/users/octocat/repos?per_page=100',
+    ])
+  })
+
+  it('builds organization paths from the login', async () => {
+    const http = { get: vi.fn().mockResolvedValue({ data: [] }) }
+    const client = createGithubClient({ http, baseUrl: '/api' })
+    await client.getOrg('acme')
+    await client.listOrgRepos('acme', { type: 'sources', per_page: 100 })
+    await client.listOrgMembers('acme', { page: 2 })
+    expect(http.get.mock.calls.map(([url]) => url)).toEqual([
+      '/api/orgs/acme',
+      '/api/orgs/acme/repos?type=sources&per_page=100',
+      '/api/orgs/acme/public_members?page=2',
+    ])
+  })
+
+  it('builds repository detail paths and asks for the README as HTML', async () => {
+    const http = { get: vi.fn().mockResolvedValue({ data: [] }) }
+    const client = createGithubClient({ http, baseUrl: '/api' })
+    await client.getRepo('octocat', 'hello')
+    await client.getRepoReadme('octocat', 'hello')
+    await client.getRepoLanguages('octocat', 'hello')
+    await client.listRepoContributors('octocat', 'hello', { per_page: 10 })
+    await client.getLatestRelease('octocat', 'hello')
+    await client.listRepoCommits('octocat', 'hello', { per_page: 10 })
+    expect(http.get.mock.calls.map(([url]) => url)).toEqual([
+      '/api/repos/octocat/hello',
+      '/api/repos/octocat/hello/readme',
+      '/api/repos/octocat/hello/languages',
+      '/api/repos/octocat/hello/contributors?per_page=10',
+      '/api/repos/octocat/hello/releases/latest',
+      '/api/repos/octocat/hello/commits?per_page=10',
+    ])
+    expect(http.get.mock.calls[1][1].headers.Accept).toBe('application/vnd.github.html+json')
+    expect(http.get.mock.calls[2][1].headers.Accept).toBe('application/vnd.github+json')
+  })
+
+  it('treats a list answered without a body as empty', async () => {
+    const http = { get: vi.fn().mockResolvedValue({ status: 204, data: '' }) }
+    const client = createGithubClient({ http, baseUrl: '/api' })
+    await expect(client.listRepoContributors('octocat', 'empty')).resolves.toMatchObject({ items: [] })
+  })
+
+  it('resolves neighbouring pages from the Link header', async () => {
+    const http = {
+      get: vi.fn().mockResolvedValue({
+        data: [],
+        headers: { link: '</api/users/octocat/repos?page=3>; rel="next", </api/users/octocat/repos?page=7>; rel="last"' },
+      }),
+    }
+    const client = createGithubClient({ http, baseUrl: '/api' })
+    await expect(client.listUserRepos('octocat', { page: 2 })).resolves.toEqual({ items: [], nextPage: 3, lastPage: 7, fetchedAt: expect.any(Number) })
+  })
+
+  it('retries network failures and 5xx responses', async () => {
+    const http = {
+      get: vi.fn()
+        .mockRejectedValueOnce(networkError())
+        .mockRejectedValueOnce(httpError(502))
+        .mockResolvedValueOnce({ data: { login: 'octocat' } }),
+    }
+    const client = createGithubClient({ http, retryDelay: 0 })
+    await expect(client.getUser('octocat')).resolves.toEqual({ login: 'octocat' })
+    expect(http.get).toHaveBeenCalledTimes(3)
+  })
+
+  it('does not retry client errors and wraps them in GithubApiError', async () => {
+    const http = { get: vi.fn().mockRejectedValue(httpError(404, 'Not Found')) }
+    const client = createGithubClient({ http, retryDelay: 0 })
+    const error = await client.getUser('ghost').catch((e: unknown) => e)
+    expect(error).toBeInstanceOf(GithubApiError)
+    expect(error).toMatchObject({ status: 404, message: 'Not Found' })
+    expect(http.get).toHaveBeenCalledTimes(1)
+  })
+
+  it('gives up after the configured number of retries', async () => {
+    const http = { get: vi.fn().mockRejectedValue(httpError(500)) }
+    const client = createGithubClient({ http, retries: 1, retryDelay: 0 })
+    await expect(client.getUser('octocat')).rejects.toMatchObject({ status: 500 })
+    expect(http.get).toHaveBeenCalledTimes(2)
+  })
+
+  it('sends the current token as a bearer Authorization header', async () => {
+    const http = { get: vi.fn().mockResolvedValue({ data: {} }) }
+    let token: string | null = null
+    const client = createGithubClient({ http, getToken: () => token })
+    await client.getUser('octocat')
+    expect(http.get.mock.calls[0][1].headers).not.toHaveProperty('Authorization')
+    token = 'ghp_secret'
+    await client.getUser('octocat')
+    expect(http.get.mock.calls[1][1].headers).toHaveProperty('Authorization', 'Bearer ghp_secret')
+  })
+
+  it('reports rate limits from successful and failed responses', async () => {
+    const http = {
+      get: vi.fn()
+        .mockResolvedValueOnce({ data: {}, headers: rateHeaders(1) })
+        .mockRejectedValueOnce(httpError(403, 'API rate limit exceeded', rateHeaders(0))),
+    }
+    const onRateLimit = vi.fn()
+    const client = createGithubClient({ http, onRateLimit })
+    await client.getUser('octocat')
+    const error = await rejectionOf(client.getUser('octocat'))
+    expect(onRateLimit.mock.calls.map(([rate]) => rate.remaining)).toEqual([1, 0])
+    expect(error.isRateLimited).toBe(true)
+    expect(error.rateLimit).toMatchObject({ remaining: 0, resetAt: 1700000000000 })
+  })
+
+  it('flags requests that never got a response as network errors', async () => {
+    const http = { get: vi.fn().mockRejectedValue(networkError()) }
+    const client = createGithubClient({ http, retries: 0 })
+    const error = await rejectionOf(client.getUser('octocat'))
+    expect(error.kind).toBe('network')
+  })
+
+  it('reads Retry-After from secondary rate limit responses', async () => {
+    const http = { get: vi.fn().mockRejectedValue(httpError(403, 'You have exceeded a secondary rate limit', { 'retry-after': '60' })) }
+    const client = createGithubClient({ http })
+    const error = await rejectionOf(client.getUser('octocat'))
+    expect(error).toMatchObject({ kind: 'abuse', retryAfter: 60 })
+  })
+
+  it('does not treat other 403 responses as rate limiting', async () => {
+    const http = { get: vi.fn().mockRejectedValue(httpError(403, 'Forbidden', rateHeaders(12))) }
+    const client = createGithubClient({ http })
+    const error = await rejectionOf(client.getUser('octocat'))
+    expect(error.isRateLimited).toBe(false)
+  })
+
+  it('passes the abort signal through and reports cancellations as aborted', async () => {
+    const http = { get: vi.fn().mockRejectedValue(new CanceledError()) }
+    const client = createGithubClient({ http, retryDelay: 0 })
+    const controller = new AbortController()
+    controller.abort()
+    const error = await rejectionOf(client.getUser('octocat', { signal: controller.signal }))
+    expect(http.get.mock.calls[0][1].signal).toBe(controller.signal)
+    expect(error.kind).toBe('aborted')
+    expect(isAbortError(error)).toBe(true)
+    expect(http.get).toHaveBeenCalledTimes(1)
+  })
+
+  it('stops retrying once the signal is aborted', async () => {
+    const controller = new AbortController()
+    const http = {
+      get: vi.fn().mockImplementation(() => {
+        controller.abort()
+        return Promise.reject(networkError())
+      }),
+    }
+    const client = createGithubClient({ http, retryDelay: 0 })
+    await expect(client.getUser('octocat', { signal: controller.signal })).rejects.toBeInstanceOf(GithubApiError)
+    expect(http.get).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('response caching', () => {
+  let time: number
+  const now = () => time
+  const ok = (data: unknown, headers: Record<string, string> = {}) => ({ status: 200, data, headers: { etag: '"v1"', ...headers } })
+
+  beforeEach(() => {
+    localStorage.clear()
+    time = Date.now()
+  })
+
+  it('serves fresh entries without a request', async () => {
+    const http = { get: vi.fn().mockResolvedValue(ok({ login: 'octocat' })) }
+    const client = createGithubClient({ http, cache: createResponseCache({ now }) })
+    await client.getUser('octocat')
+    await expect(client.getUser('octocat')).resolves.toEqual({ login: 'octocat' })
+    expect(http.get).toHaveBeenCalledTimes(1)
+  })
+
+  it('revalidates stale entries with If-None-Match and reuses the body on 304', async () => {
+    const http = {
+      get: vi.fn()
+        .mockResolvedValueOnce(ok([{ id: 1 }], { link: '</repos?page=2>; rel="next"' }))
+        .mockResolvedValueOnce({ status: 304, data: '', headers: {} }),
+    }
+    const client = createGithubClient({ http, cache: createResponseCache({ now, ttl: 1000 }) })
+    await client.listUserRepos('octocat')
+    time += 2000
+    const page = await client.listUserRepos('octocat')
+    expect(http.get.mock.calls[1][1].headers).toHaveProperty('If-None-Match', '"v1"')
+    expect(page).toEqual({ items: [{ id: 1 }], nextPage: 2, lastPage: null, fetchedAt: expect.any(Number) })
+  })
+
+  it('replaces the entry when the resource changed', async () => {
+    const http = {
+      get: vi.fn()
+        .mockResolvedValueOnce(ok({ followers: 1 }))
+        .mockResolvedValueOnce(ok({ followers: 2 }, { etag: '"v2"' })),
+    }
+    const cache = createResponseCache({ now })
+    const client = createGithubClient({ http, cache, baseUrl: '/api' })
+    await client.getUser('octocat')
+    await expect(client.getUser('octocat', { refresh: true })).resolves.toEqual({ followers: 2 })
+    expect(cache.get('/api/users/octocat')).toMatchObject({ etag: '"v2"' })
+  })
+
+  it('keeps separate entries per token, so a new token never sees responses cached for another', async () => {
+    let token: string | null = null
+    const http = {
+      get: vi.fn()
+        .mockResolvedValueOnce(ok({ private_repos: null }))
+        .mockResolvedValueOnce(ok({ private_repos: 3 }))
+        .mockResolvedValueOnce(ok({ private_repos: 5 })),
+    }
+    const client = createGithubClient({ http, getToken: () => token, cache: createResponseCache({ now }) })
+    await expect(client.getUser('octocat')).resolves.toEqual({ private_repos: null })
+    token = 'first-token'
+    await expect(client.getUser('octocat')).resolves.toEqual({ private_repos: 3 })
+    expect(http.get.mock.calls[1][1].headers).not.toHaveProperty('If-None-Match')
+    token = 'second-token'
+    await expect(client.getUser('octocat')).resolves.toEqual({ private_repos: 5 })
+    token = 'first-token'
+    await expect(client.getUser('octocat')).resolves.toEqual({ private_repos: 3 })
+    expect(http.get).toHaveBeenCalledTimes(3)
+  })
+
+  it('reports when a cached page was fetched', async () => {
+    const http = { get: vi.fn().mockResolvedValue(ok([])) }
+    const client = createGithubClient({ http, cache: createResponseCache({ now }) })
+    const first = await client.listUserRepos('octocat')
+    await expect(client.listUserRepos('octocat')).resolves.toMatchObject({ fetchedAt: first.fetchedAt })
+  })
+})
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import { mergeMemberPage, summarizeRepos } from '@/lib/org'
+import { makePage, makeRepo, makeSimpleUser } from '../fakes/github'
+
+describe('mergeMemberPage', () => {
+  it('appends later pages, skipping members already loaded', () => {
+    const first = mergeMemberPage(undefined, makePage([makeSimpleUser('alice', { id: 1 }), makeSimpleUser('bob', { id: 2 })], 2, 2))
+    const second = mergeMemberPage(first, makePage([makeSimpleUser('bob', { id: 2 }), makeSimpleUser('carol', { id: 3 })]))
+    expect(second.members.map(m => m.login)).toEqual(['alice', 'bob', 'carol'])
+    expect(second).toMatchObject({ nextPage: null, lastPage: 2 })
+  })
+})
+
+describe('summarizeRepos', () => {
+  it('totals stars and forks', () => {
+    const summary = summarizeRepos([
+      makeRepo(1, 'a', { stargazers_count: 10, forks_count: 2 }),
+      makeRepo(2, 'b', { stargazers_count: 5, forks_count: 1 }),
+    ])
+    expect(summary).toMatchObject({ repoCount: 2, stars: 15, forks: 3, languages: [] })
+  })
+
+  it('ranks languages by repo count, ignoring repos without one', () => {
+    const summary = summarizeRepos([
+      makeRepo(1, 'a', { language: 'Go' }),
+      makeRepo(2, 'b', { language: 'Rust' }),
+      makeRepo(3, 'c', { language: 'Rust' }),
+      makeRepo(4, 'd'),
+    ])
+    expect(summary.languages).toEqual([
+      { language: 'Rust', count: 2, share: 2 / 3 },
+      { language: 'Go', count: 1, share: 1 / 3 },
+    ])
+  })
+
+  it('folds languages past the top few into Other', () => {
+    const repos = ['C', 'Go', 'Go', 'Java', 'Rust'].map((language, i) => makeRepo(i, `r${i}`, { language }))
+    expect(summarizeRepos(repos, 2).languages.map(l => [l.language, l.count])).toEqual([
+      ['Go', 2],
+      ['C', 1],
+      ['Other', 2],
+    ])
+  })
+})
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import { getPageCount, getPageParam, getPageWindow, parseLinkHeader } from '@/lib/pagination'
+
+describe('getPageCount', () => {
+  it('rounds partial pages up', () => {
+    expect(getPageCount(25, 10)).toBe(3)
+  })
+
+  it('never goes past the search result limit', () => {
+    expect(getPageCount(5000, 10)).toBe(100)
+    expect(getPageCount(5000, 30)).toBe(34)
+  })
+
+  it('returns zero for empty results', () => {
+    expect(getPageCount(0, 10)).toBe(0)
+  })
+})
+
+describe('getPageWindow', () => {
+  it('centers the window on the current page', () => {
+    expect(getPageWindow(10, 100)).toEqual([8, 9, 10, 11, 12])
+  })
+
+  it('clamps the window at both ends', () => {
+    expect(getPageWindow(1, 100)).toEqual([1, 2, 3, 4, 5])
+    expect(getPageWindow(100, 100)).toEqual([96, 97, 98, 99, 100])
+  })
+
+  it('shrinks when there are fewer pages than the window size', () => {
+    expect(getPageWindow(2, 3)).toEqual([1, 2, 3])
+  })
+})
+
+describe('parseLinkHeader', () => {
+  it('maps each rel to its url', () => {
+    const header = '<https://api.github.com/user/1/repos?page=2>; rel="next", <https://api.github.com/user/1/repos?page=5>; rel="last"'
+    expect(parseLinkHeader(header)).toEqual({
+      next: 'https://api.github.com/user/1/repos?page=2',
+      last: 'https://api.github.com/user/1/repos?page=5',
+    })
+  })
+
+  it('returns an empty object without a header', () => {
+    expect(parseLinkHeader(undefined)).toEqual({})
+  })
+})
+
+describe('getPageParam', () => {
+  it('reads the page number from absolute and relative urls', () => {
+    expect(getPageParam('https://api.github.com/user/1/repos?per_page=100&page=3')).toBe(3)
+    expect(getPageParam('/api/user/1/repos?page=4')).toBe(4)
+  })
+
+  it('returns null when there is no page', () => {
+    expect(getPageParam(undefined)).toBeNull()
+    expect(getPageParam('/api/user/1/repos')).toBeNull()
+  })
+})
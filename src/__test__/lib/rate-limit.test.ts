@@ -0,0 +1,59 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createRateLimitStore, formatCountdown, isExhausted, parseRateLimit } from '@/lib/rate-limit'
+
+describe('parseRateLimit', () => {
+  it('reads the X-RateLimit headers', () => {
+    expect(parseRateLimit({
+      'x-ratelimit-limit': '10',
+      'x-ratelimit-remaining': '7',
+      'x-ratelimit-used': '3',
+      'x-ratelimit-reset': '1700000000',
+      'x-ratelimit-resource': 'search',
+    })).toEqual({ resource: 'search', limit: 10, remaining: 7, used: 3, resetAt: 1700000000000 })
+  })
+
+  it('defaults to the core resource', () => {
+    const rate = parseRateLimit({ 'x-ratelimit-limit': '60', 'x-ratelimit-remaining': '59', 'x-ratelimit-reset': '1' })
+    expect(rate).toMatchObject({ resource: 'core', used: 1 })
+  })
+
+  it('returns null when the headers are missing', () => {
+    expect(parseRateLimit({})).toBeNull()
+    expect(parseRateLimit(undefined)).toBeNull()
+  })
+})
+
+describe('isExhausted', () => {
+  const rate = { resource: 'core', limit: 60, remaining: 0, used: 60, resetAt: 2000 }
+
+  it('is true until the reset time passes', () => {
+    expect(isExhausted(rate, 1000)).toBe(true)
+    expect(isExhausted(rate, 2000)).toBe(false)
+  })
+
+  it('is false while requests remain', () => {
+    expect(isExhausted({ ...rate, remaining: 1 }, 1000)).toBe(false)
+  })
+})
+
+describe('formatCountdown', () => {
+  it('formats minutes and zero-padded seconds', () => {
+    expect(formatCountdown(272_000)).toBe('4:32')
+    expect(formatCountdown(59_001)).toBe('1:00')
+    expect(formatCountdown(-5)).toBe('0:00')
+  })
+})
+
+describe('createRateLimitStore', () => {
+  it('keeps the latest limit per resource and notifies subscribers', () => {
+    const store = createRateLimitStore()
+    const listener = vi.fn()
+    store.subscribe(listener)
+    store.update({ resource: 'core', limit: 60, remaining: 10, used: 50, resetAt: 0 })
+    store.update({ resource: 'search', limit: 10, remaining: 9, used: 1, resetAt: 0 })
+    store.update({ resource: 'core', limit: 60, remaining: 9, used: 51, resetAt: 0 })
+    expect(Object.keys(store.getSnapshot())).toEqual(['core', 'search'])
+    expect(store.getSnapshot().core.remaining).toBe(9)
+    expect(listener).toHaveBeenCalledTimes(3)
+  })
+})
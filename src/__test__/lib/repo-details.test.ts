@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest'
+import { GithubApiError } from '@/lib/github'
+import { rankLanguages } from '@/lib/languages'
+import { commitSubject, nullIfNotFound } from '@/lib/repo-details'
+
+describe('nullIfNotFound', () => {
+  it('turns a 404 into null', async () => {
+    await expect(nullIfNotFound(Promise.reject(new GithubApiError('Not Found', { status: 404 })))).resolves.toBeNull()
+  })
+
+  it('passes results and other failures through', async () => {
+    await expect(nullIfNotFound(Promise.resolve('readme'))).resolves.toBe('readme')
+    await expect(nullIfNotFound(Promise.reject(new GithubApiError('Boom', { status: 500 }))))
+      .rejects.toMatchObject({ kind: 'server' })
+  })
+})
+
+describe('commitSubject', () => {
+  it('keeps the first line of a commit message', () => {
+    expect(commitSubject('Fix the parser\n\nLonger explanation')).toBe('Fix the parser')
+    expect(commitSubject('One line')).toBe('One line')
+  })
+})
+
+describe('rankLanguages', () => {
+  it('ranks language bytes and folds the tail into Other', () => {
+    expect(rankLanguages(Object.entries({ Shell: 100, TypeScript: 700, CSS: 200 }), 2)).toEqual([
+      { language: 'TypeScript', count: 700, share: 0.7 },
+      { language: 'CSS', count: 200, share: 0.2 },
+      { language: 'Other', count: 100, share: 0.1 },
+    ])
+  })
+})
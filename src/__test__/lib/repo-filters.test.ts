@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import {
+  applyRepoListOptions,
+  collectLanguages,
+  collectTopics,
+  defaultRepoListOptions,
+  isFiltered,
+} from '@/lib/repo-filters'
+import { makeRepo } from '../fakes/github'
+
+const repos = [
+  makeRepo(1, 'beta', { stargazers_count: 5, forks_count: 10, language: 'Go', pushed_at: '2024-01-01T00:00:00Z', topics: ['cli'] }),
+  makeRepo(2, 'Alpha', { stargazers_count: 50, forks_count: 1, language: 'Rust', pushed_at: '2023-01-01T00:00:00Z', fork: true }),
+  makeRepo(3, 'gamma', { stargazers_count: 20, language: null, pushed_at: null, archived: true, description: 'A CLI helper', topics: ['cli', 'tools'] }),
+]
+
+const names = (options = {}) => applyRepoListOptions(repos, { ...defaultRepoListOptions, ...options }).map(r => r.name)
+
+describe('applyRepoListOptions', () => {
+  it('sorts by stars by default', () => {
+    expect(names()).toEqual(['Alpha', 'gamma', 'beta'])
+  })
+
+  it('sorts by forks, push date and case-insensitive name', () => {
+    expect(names({ sort: 'forks' })).toEqual(['beta', 'Alpha', 'gamma'])
+    expect(names({ sort: 'pushed' })).toEqual(['beta', 'Alpha', 'gamma'])
+    expect(names({ sort: 'name' })).toEqual(['Alpha', 'beta', 'gamma'])
+  })
+
+  it('hides forks and archived repositories', () => {
+    expect(names({ hideForks: true, hideArchived: true })).toEqual(['beta'])
+  })
+
+  it('filters by language and topic', () => {
+    expect(names({ language: 'Go' })).toEqual(['beta'])
+    expect(names({ topic: 'tools' })).toEqual(['gamma'])
+  })
+
+  it('matches text against name and description', () => {
+    expect(names({ text: 'cli' })).toEqual(['gamma'])
+    expect(names({ text: 'ALPHA' })).toEqual(['Alpha'])
+  })
+
+  it('does not mutate the input', () => {
+    applyRepoListOptions(repos, { ...defaultRepoListOptions, sort: 'name' })
+    expect(repos.map(r => r.id)).toEqual([1, 2, 3])
+  })
+})
+
+describe('repo list helpers', () => {
+  it('collects distinct sorted languages and topics', () => {
+    expect(collectLanguages(repos)).toEqual(['Go', 'Rust'])
+    expect(collectTopics(repos)).toEqual(['cli', 'tools'])
+  })
+
+  it('reports whether any filter is active', () => {
+    expect(isFiltered(defaultRepoListOptions)).toBe(false)
+    expect(isFiltered({ ...defaultRepoListOptions, sort: 'name' })).toBe(false)
+    expect(isFiltered({ ...defaultRepoListOptions, text: 'x' })).toBe(true)
+  })
+})
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest'
+import { mergeRepoPage } from '@/lib/repo-pages'
+import { makePage, makeRepo } from '../fakes/github'
+
+describe('mergeRepoPage', () => {
+  it('starts a cache entry from the first page', () => {
+    const entry = mergeRepoPage(undefined, 1, makePage([makeRepo(1, 'a')], 2, 4))
+    expect(entry).toMatchObject({ fetchedPages: [1], nextPage: 2, lastPage: 4 })
+    expect(entry.repos.map(r => r.name)).toEqual(['a'])
+  })
+
+  it('appends later pages, skipping repos already loaded', () => {
+    const first = mergeRepoPage(undefined, 1, makePage([makeRepo(1, 'a'), makeRepo(2, 'b')], 2, 2))
+    const second = mergeRepoPage(first, 2, makePage([makeRepo(2, 'b'), makeRepo(3, 'c')]))
+    expect(second.repos.map(r => r.name)).toEqual(['a', 'b', 'c'])
+    expect(second).toMatchObject({ fetchedPages: [1, 2], nextPage: null, lastPage: 2 })
+  })
+
+  it('treats a single page without links as the last page', () => {
+    expect(mergeRepoPage(undefined, 1, makePage([])).lastPage).toBe(1)
+  })
+
+  it('keeps the age of the oldest loaded page', () => {
+    const first = mergeRepoPage(undefined, 1, makePage([makeRepo(1, 'a')], 2, 2, 1000))
+    expect(mergeRepoPage(first, 2, makePage([makeRepo(2, 'b')], null, null, 5000)).fetchedAt).toBe(1000)
+  })
+})
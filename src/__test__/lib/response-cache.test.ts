@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { createResponseCache } from '@/lib/response-cache'
+
+const entry = (data: unknown, fetchedAt: number, etag: string | null = '"v1"') => ({ data, etag, link: null, fetchedAt })
+
+describe('createResponseCache', () => {
+  let time: number
+  const now = () => time
+
+  beforeEach(() => {
+    localStorage.clear()
+    time = 1_000_000
+  })
+
+  it('stores entries in localStorage and reads them back', () => {
+    createResponseCache({ now }).set('/users/octocat', entry({ login: 'octocat' }, time))
+    expect(createResponseCache({ now }).get('/users/octocat')).toEqual(entry({ login: 'octocat' }, time))
+  })
+
+  it('is fresh within the ttl only', () => {
+    const cache = createResponseCache({ now, ttl: 1000 })
+    const cached = entry(1, time)
+    expect(cache.isFresh(cached)).toBe(true)
+    time += 1000
+    expect(cache.isFresh(cached)).toBe(false)
+  })
+
+  it('drops entries older than maxAge', () => {
+    const cache = createResponseCache({ now, maxAge: 5000 })
+    cache.set('/a', entry(1, time))
+    time += 5001
+    expect(cache.get('/a')).toBeNull()
+    expect(localStorage.length).toBe(1)
+  })
+
+  it('evicts the least recently used entries to stay under maxBytes', () => {
+    const size = JSON.stringify(entry('x'.repeat(100), time)).length
+    const cache = createResponseCache({ now, maxBytes: size * 2 })
+    cache.set('/a', entry('x'.repeat(100), time))
+    time += 1
+    cache.set('/b', entry('y'.repeat(100), time))
+    time += 1
+    cache.get('/a')
+    time += 1
+    cache.set('/c', entry('z'.repeat(100), time))
+    expect(cache.get('/a')).not.toBeNull()
+    expect(cache.get('/b')).toBeNull()
+    expect(cache.get('/c')).not.toBeNull()
+  })
+
+  it('skips entries larger than the whole budget', () => {
+    const cache = createResponseCache({ now, maxBytes: 50 })
+    cache.set('/big', entry('x'.repeat(100), time))
+    expect(cache.get('/big')).toBeNull()
+  })
+
+  it('renews fetchedAt when an entry is confirmed', () => {
+    const cache = createResponseCache({ now })
+    cache.set('/a', entry(1, time))
+    time += 60_000
+    expect(cache.touch('/a')).toMatchObject({ data: 1, fetchedAt: time })
+    expect(cache.get('/a')?.fetchedAt).toBe(time)
+  })
+
+  it('keeps working when storage rejects writes', () => {
+    const storage = {
+      getItem: () => null,
+      setItem: () => { throw new DOMException('full', 'QuotaExceededError') },
+      removeItem: () => {},
+    }
+    const cache = createResponseCache({ storage, now })
+    expect(() => cache.set('/a', entry(1, time))).not.toThrow()
+    expect(cache.get('/a')).toBeNull()
+  })
+
+  it('skips caching when storage is disabled', () => {
+    const denied = () => { throw new DOMException('denied', 'SecurityError') }
+    const storage = { getItem: denied, setItem: denied, removeItem: denied }
+    const cache = createResponseCache({ storage, now })
+    expect(() => cache.set('/a', entry(1, time))).not.toThrow()
+    expect(cache.get('/a')).toBeNull()
+    expect(cache.touch('/a')).toBeNull()
+    expect(() => cache.clear()).not.toThrow()
+  })
+
+  it('is created without touching storage, which may throw as soon as it is read', () => {
+    const localStorage = vi.spyOn(window, 'localStorage', 'get').mockImplementation(() => {
+      throw new DOMException('denied', 'SecurityError')
+    })
+    try {
+      const cache = createResponseCache({ now })
+      expect(() => cache.set('/a', entry(1, time))).not.toThrow()
+      expect(cache.get('/a')).toBeNull()
+    } finally {
+      localStorage.mockRestore()
+    }
+  })
+
+  it('clears every entry and the index', () => {
+    const cache = createResponseCache({ now })
+    cache.set('/a', entry(1, time))
+    cache.set('/b', entry(2, time))
+    cache.clear()
+    expect(localStorage.length).toBe(0)
+  })
+})
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { matchSearches, recordSearch, rememberSearch, restoreInput, saveSearch, type HistoryEntry } from '@/lib/search-history'
+import { emptyFilters, emptyRepoFilters, type SearchInput } from '@/lib/search-query'
+import { readStorage, STORAGE_KEYS } from '@/lib/storage'
+
+const input = (term: string, overrides: Partial<SearchInput> = {}): SearchInput =>
+  ({ mode: 'users', term, filters: emptyFilters, repoFilters: emptyRepoFilters, ...overrides })
+const at = (minute: number) => new Date(Date.UTC(2024, 5, 10, 12, minute))
+
+describe('recordSearch', () => {
+  it('puts the latest search first and keeps one copy of each', () => {
+    let history: HistoryEntry[] = []
+    history = recordSearch(history, input('octo'), at(1))
+    history = recordSearch(history, input('linus'), at(2))
+    history = recordSearch(history, input('octo'), at(3))
+    expect(history.map(entry => [entry.request.q, entry.searchedAt])).toEqual([
+      ['octo', at(3).toISOString()],
+      ['linus', at(2).toISOString()],
+    ])
+  })
+
+  it('tells searches apart by their qualifiers and mode', () => {
+    let history = recordSearch([], input('octo'), at(1))
+    history = recordSearch(history, input('octo', { filters: { ...emptyFilters, type: 'org' } }), at(2))
+    history = recordSearch(history, input('octo', { mode: 'repos' }), at(3))
+    expect(history.map(entry => entry.request)).toEqual([
+      { mode: 'repos', q: 'octo' },
+      { mode: 'users', q: 'octo type:org' },
+      { mode: 'users', q: 'octo' },
+    ])
+  })
+
+  it('forgets the oldest past the limit and ignores empty searches', () => {
+    let history: HistoryEntry[] = []
+    for (let i = 0; i < 4; i++) history = recordSearch(history, input(`q${i}`), at(i), 3)
+    expect(recordSearch(history, input('  '), at(9), 3).map(entry => entry.request.q)).toEqual(['q3', 'q2', 'q1'])
+  })
+})
+
+describe('rememberSearch', () => {
+  beforeEach(() => localStorage.clear())
+
+  it('adds to the history kept in storage', () => {
+    rememberSearch(input('octo'), at(1))
+    rememberSearch(input('linus'), at(2))
+    expect(readStorage<HistoryEntry[]>(STORAGE_KEYS.history, []).map(entry => entry.request.q)).toEqual(['linus', 'octo'])
+  })
+})
+
+describe('saveSearch', () => {
+  it('renames an already saved search instead of adding a copy', () => {
+    const saved = saveSearch([], 'Octo orgs', input('octo', { filters: { ...emptyFilters, type: 'org' } }), at(1))
+    const renamed = saveSearch(saved, 'GitHub orgs', input('octo', { filters: { ...emptyFilters, type: 'org' } }), at(2))
+    expect(renamed).toHaveLength(1)
+    expect(renamed[0]).toMatchObject({ name: 'GitHub orgs', request: { q: 'octo type:org' } })
+  })
+})
+
+describe('matchSearches', () => {
+  it('matches the query or the name, ignoring case', () => {
+    const saved = saveSearch(saveSearch([], 'Rustaceans', input('ferris'), at(1)), 'Cats', input('octocat'), at(2))
+    expect(matchSearches(saved, 'RUST').map(search => search.name)).toEqual(['Rustaceans'])
+    expect(matchSearches(saved, 'cat').map(search => search.name)).toEqual(['Cats'])
+    expect(matchSearches(saved, ' ')).toHaveLength(2)
+  })
+})
+
+describe('restoreInput', () => {
+  it('fills filter fields an older stored search does not have', () => {
+    const stored = { input: { mode: 'users', term: 'octo', filters: { type: 'org' } } as unknown as SearchInput, request: { mode: 'users', q: 'octo type:org' } } as const
+    expect(restoreInput(stored)).toEqual(input('octo', { filters: { ...emptyFilters, type: 'org' } }))
+  })
+})
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildRepoSearchQuery,
+  buildSearchRequest,
+  buildUserSearchQuery,
+  buildUserSearchRequest,
+  countActiveFilters,
+  countActiveRepoFilters,
+  emptyFilters,
+  emptyRepoFilters,
+  isValidRange,
+} from '@/lib/search-query'
+
+describe('buildUserSearchQuery', () => {
+  it('returns the plain term without filters', () => {
+    expect(buildUserSearchQuery('  octocat ', emptyFilters)).toBe('octocat')
+  })
+
+  it('appends qualifiers in a stable order', () => {
+    const filters = { ...emptyFilters, type: 'org' as const, language: 'rust', followers: '> 100', created: '<2015-01-01' }
+    expect(buildUserSearchQuery('tokio', filters)).toBe('tokio type:org language:rust followers:>100 created:<2015-01-01')
+  })
+
+  it('quotes values containing spaces', () => {
+    expect(buildUserSearchQuery('', { ...emptyFilters, location: 'San Francisco' })).toBe('location:"San Francisco"')
+  })
+})
+
+describe('buildUserSearchRequest', () => {
+  it('only sends sort and order when a sort is chosen', () => {
+    expect(buildUserSearchRequest('a', emptyFilters)).toEqual({ q: 'a' })
+    expect(buildUserSearchRequest('a', { ...emptyFilters, sort: 'joined', order: 'asc' }))
+      .toEqual({ q: 'a', sort: 'joined', order: 'asc' })
+  })
+})
+
+describe('buildRepoSearchQuery', () => {
+  it('appends repository qualifiers in a stable order', () => {
+    const filters = { ...emptyRepoFilters, topic: 'cli', stars: '>= 500', language: 'Go', pushed: '>2024-01-01' }
+    expect(buildRepoSearchQuery('parser', filters)).toBe('parser language:Go stars:>=500 topic:cli pushed:>2024-01-01')
+  })
+})
+
+describe('buildSearchRequest', () => {
+  it('builds the query from the filters of the chosen mode', () => {
+    const input = {
+      term: 'a',
+      filters: { ...emptyFilters, location: 'Berlin' },
+      repoFilters: { ...emptyRepoFilters, topic: 'cli', sort: 'stars' as const },
+    }
+    expect(buildSearchRequest({ ...input, mode: 'users' })).toEqual({ mode: 'users', q: 'a location:Berlin' })
+    expect(buildSearchRequest({ ...input, mode: 'repos' }))
+      .toEqual({ mode: 'repos', q: 'a topic:cli', sort: 'stars', order: 'desc' })
+  })
+})
+
+describe('countActiveFilters', () => {
+  it('counts qualifiers and sort', () => {
+    expect(countActiveFilters(emptyFilters)).toBe(0)
+    expect(countActiveFilters({ ...emptyFilters, repos: '>5', sort: 'followers', location: ' ' })).toBe(2)
+    expect(countActiveRepoFilters({ ...emptyRepoFilters, stars: '>5', sort: 'updated' })).toBe(2)
+  })
+})
+
+describe('isValidRange', () => {
+  it.each(['', '100', '>100', '<= 10', '10..50', '*..50', '>2015-01-01', '2010-01-01..2012-01-01'])('accepts %s', (value) => {
+    expect(isValidRange(value)).toBe(true)
+  })
+
+  it.each(['>>1', '10..', 'a b'])('rejects %s', (value) => {
+    expect(isValidRange(value)).toBe(false)
+  })
+})
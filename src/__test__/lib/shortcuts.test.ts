@@ -0,0 +1,68 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { findShortcut, formatKey, handlesKey, type Shortcut } from '@/lib/shortcuts'
+
+const shortcuts: Shortcut[] = [
+  { keys: ['j'], description: 'Next result', run: vi.fn() },
+  { keys: ['Enter', 'o'], description: 'Open', run: vi.fn() },
+]
+
+const press = (target: HTMLElement, key: string, init: KeyboardEventInit = {}) => {
+  let found: Shortcut | undefined
+  target.addEventListener('keydown', e => { found = findShortcut(shortcuts, e) }, { once: true })
+  target.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true, ...init }))
+  return found
+}
+
+const mount = (html: string) => {
+  document.body.innerHTML = html
+  return document.body.firstElementChild as HTMLElement
+}
+
+describe('findShortcut', () => {
+  afterEach(() => {
+    document.body.innerHTML = ''
+  })
+
+  it('finds the shortcut for any of its keys', () => {
+    const div = mount('<div tabindex="-1"></div>')
+    expect(press(div, 'j')?.description).toBe('Next result')
+    expect(press(div, 'o')?.description).toBe('Open')
+    expect(press(div, 'x')).toBeUndefined()
+  })
+
+  it('stays out of the way while typing or with a modifier held', () => {
+    expect(press(mount('<input />'), 'j')).toBeUndefined()
+    expect(press(mount('<textarea></textarea>'), 'j')).toBeUndefined()
+    expect(press(mount('<div tabindex="-1"></div>'), 'j', { ctrlKey: true })).toBeUndefined()
+  })
+
+  it('leaves Enter to buttons but still takes letters there', () => {
+    const button = mount('<button>Go</button>')
+    expect(press(button, 'Enter')).toBeUndefined()
+    expect(press(button, 'o')?.description).toBe('Open')
+  })
+
+  it('does nothing while a dialog has the keyboard', () => {
+    const inDialog = mount('<div role="dialog"><span tabindex="-1"></span></div>').firstElementChild as HTMLElement
+    expect(press(inDialog, 'j')).toBeUndefined()
+    document.body.innerHTML = '<p tabindex="-1"></p><div role="dialog" aria-modal="true"></div>'
+    expect(press(document.body.firstElementChild as HTMLElement, 'j')).toBeUndefined()
+  })
+})
+
+describe('handlesKey', () => {
+  it('treats comboboxes and editable content as fields', () => {
+    expect(handlesKey(mount('<div role="combobox" tabindex="0"></div>'), 'j')).toBe(true)
+    const editable = mount('<div></div>')
+    Object.defineProperty(editable, 'isContentEditable', { value: true })
+    expect(handlesKey(editable, 'j')).toBe(true)
+    expect(handlesKey(null, 'j')).toBe(false)
+  })
+})
+
+describe('formatKey', () => {
+  it('spells out keys with long names', () => {
+    expect(formatKey('Escape')).toBe('Esc')
+    expect(formatKey('?')).toBe('?')
+  })
+})
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest'
+import { buildSuggestions, rankLogins } from '@/lib/suggestions'
+import { recordSearch, saveSearch } from '@/lib/search-history'
+import { emptyFilters, emptyRepoFilters } from '@/lib/search-query'
+import { makeSearchUser } from '../fakes/github'
+
+const input = (term: string) => ({ mode: 'users' as const, term, filters: emptyFilters, repoFilters: emptyRepoFilters })
+
+describe('rankLogins', () => {
+  const users = ['octo-org', 'the-octocat', 'octocat', 'someone', 'Octo'].map(login => makeSearchUser(login))
+
+  it('puts exact and prefix matches ahead of the rest, keeping relevance order within each', () => {
+    expect(rankLogins(users, 'Octo').map(user => user.login)).toEqual(['Octo', 'octo-org', 'octocat', 'the-octocat'])
+  })
+
+  it('limits the matches and offers nothing for a blank term', () => {
+    expect(rankLogins(users, 'octo', 2).map(user => user.login)).toEqual(['Octo', 'octo-org'])
+    expect(rankLogins(users, '  ')).toEqual([])
+  })
+})
+
+describe('buildSuggestions', () => {
+  it('lists users, then saved searches, then recent searches matching the term', () => {
+    const saved = saveSearch(saveSearch([], 'Cats', input('octocat')), 'Rust', input('rust'))
+    const history = recordSearch(recordSearch([], input('octo')), input('linus'))
+    const suggestions = buildSuggestions({ term: 'oct', users: [makeSearchUser('octocat')], saved, history })
+    expect(suggestions.map(suggestion => suggestion.kind)).toEqual(['user', 'saved', 'recent'])
+  })
+
+  it('offers every saved and recent search while nothing is typed', () => {
+    const saved = saveSearch([], 'Cats', input('octocat'))
+    const history = recordSearch(recordSearch([], input('octo')), input('linus'))
+    expect(buildSuggestions({ term: '', users: [], saved, history })).toHaveLength(3)
+  })
+})
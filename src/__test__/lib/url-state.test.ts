@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import { emptyFilters, emptyRepoFilters } from '@/lib/search-query'
+import { parseUrlState, serializeUrlState, userExplorerSearch } from '@/lib/url-state'
+
+describe('url state', () => {
+  const base = { mode: 'users' as const, filters: emptyFilters, repoFilters: emptyRepoFilters, page: 1, expanded: null }
+
+  it('round-trips term, filters, page and expanded user', () => {
+    const state = {
+      ...base,
+      term: 'jane doe',
+      filters: { ...emptyFilters, type: 'org' as const, location: 'San Francisco', followers: '>10', sort: 'joined' as const, order: 'asc' as const },
+      page: 3,
+      expanded: 'janedoe',
+    }
+    const search = serializeUrlState(state)
+    expect(search).toBe('?q=jane+doe&type=org&location=San+Francisco&followers=%3E10&sort=joined&order=asc&page=3&user=janedoe')
+    expect(parseUrlState(search)).toEqual(state)
+  })
+
+  it('round-trips a repository search with its own filters', () => {
+    const state = {
+      ...base,
+      mode: 'repos' as const,
+      term: 'parser',
+      repoFilters: { ...emptyRepoFilters, language: 'Rust', stars: '>1000', topic: 'cli', sort: 'stars' as const },
+      page: 2,
+    }
+    const search = serializeUrlState(state)
+    expect(search).toBe('?mode=repos&q=parser&language=Rust&stars=%3E1000&topic=cli&sort=stars&order=desc&page=2')
+    expect(parseUrlState(search)).toEqual(state)
+  })
+
+  it('leaves defaults out of the url', () => {
+    expect(serializeUrlState({ ...base, term: 'octocat' })).toBe('?q=octocat')
+    expect(serializeUrlState({ ...base, term: ' ' })).toBe('')
+  })
+
+  it('falls back to defaults for missing or invalid values', () => {
+    expect(parseUrlState('?type=robot&sort=stars&page=-2&order=asc')).toEqual({ ...base, term: '' })
+    expect(parseUrlState('?mode=repos&sort=joined&user=octocat')).toEqual({ ...base, mode: 'repos', term: '' })
+  })
+
+  it('links to a user in the explorer', () => {
+    expect(userExplorerSearch('octocat')).toBe('?q=octocat&user=octocat')
+  })
+})
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest'
+import { getRangePadding, getVirtualRange } from '@/lib/virtual-list'
+
+const rows = (count: number, size = 100) => Array.from({ length: count }, () => size)
+
+describe('getVirtualRange', () => {
+  it('renders the rows crossing the viewport plus the overscan, padding out the rest', () => {
+    expect(getVirtualRange({ sizes: rows(100), viewportStart: 1000, viewportEnd: 1500, overscan: 2 }))
+      .toEqual({ start: 8, end: 17, before: 800, after: 8300 })
+  })
+
+  it('counts the gaps between rows', () => {
+    expect(getVirtualRange({ sizes: rows(10), gap: 10, viewportStart: 330, viewportEnd: 445, overscan: 0 }))
+      .toEqual({ start: 3, end: 5, before: 330, after: 550 })
+  })
+
+  it('uses each row\'s own height', () => {
+    const sizes = [100, 600, 100, 100, 100]
+    expect(getVirtualRange({ sizes, viewportStart: 650, viewportEnd: 700, overscan: 0 }))
+      .toEqual({ start: 1, end: 2, before: 100, after: 300 })
+  })
+
+  it('keeps the first or last rows when the list is off screen', () => {
+    expect(getVirtualRange({ sizes: rows(50), viewportStart: -2000, viewportEnd: -1000, overscan: 1 }))
+      .toMatchObject({ start: 0, end: 2, before: 0 })
+    expect(getVirtualRange({ sizes: rows(50), viewportStart: 9000, viewportEnd: 10000, overscan: 1 }))
+      .toMatchObject({ start: 48, end: 50, after: 0 })
+  })
+
+  it('renders nothing for an empty list', () => {
+    expect(getVirtualRange({ sizes: [], viewportStart: 0, viewportEnd: 800 })).toEqual({ start: 0, end: 0, before: 0, after: 0 })
+  })
+})
+
+describe('getRangePadding', () => {
+  it('pads the rendered slice like getVirtualRange does', () => {
+    const sizes = [100, 600, 100, 100, 100]
+    expect(getRangePadding(sizes, 1, 2)).toEqual({ before: 100, after: 300 })
+    expect(getRangePadding(rows(10), 3, 5, 10)).toEqual({ before: 330, after: 550 })
+    expect(getRangePadding(rows(3), 0, 3)).toEqual({ before: 0, after: 0 })
+  })
+})
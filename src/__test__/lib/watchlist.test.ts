@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest'
+import {
+  describeChanges,
+  hasChanges,
+  markSeen,
+  mergeWatchlists,
+  parseWatchlist,
+  serializeWatchlist,
+  toggleWatch,
+  watchRepo,
+  watchUser,
+  type WatchCurrent,
+  type WatchedUser,
+} from '@/lib/watchlist'
+import { makeRepo, makeSimpleUser, makeUser } from '../fakes/github'
+
+const now = new Date('2024-06-10T12:00:00Z')
+
+describe('toggleWatch', () => {
+  it('adds an entry and removes it again, ignoring case', () => {
+    const list = toggleWatch([], watchUser(makeSimpleUser('Octocat'), now))
+    expect(list).toHaveLength(1)
+    expect(toggleWatch(list, watchUser(makeSimpleUser('octocat'), now))).toEqual([])
+  })
+})
+
+describe('describeChanges', () => {
+  const seenAt = '2024-06-01T00:00:00Z'
+
+  it('reports star deltas and new pushes on a repository', () => {
+    const item = { ...watchRepo(makeRepo(1, 'hello', { stargazers_count: 10, forks_count: 2, pushed_at: '2024-05-01T00:00:00Z' })), seenAt }
+    const repo = makeRepo(1, 'hello', { stargazers_count: 14, forks_count: 2, pushed_at: '2024-06-05T00:00:00Z' })
+    expect(describeChanges(item, { kind: 'repo', repo })).toEqual({
+      stats: [{ label: 'stars', delta: 4 }],
+      newRepos: [],
+      pushed: true,
+    })
+  })
+
+  it('lists repositories a user created since last seen', () => {
+    const item: WatchedUser = { ...watchUser(makeSimpleUser('alice')), seenAt, seen: { followers: 10, publicRepos: 1 } }
+    const fresh = makeRepo(2, 'fresh', { created_at: '2024-06-02T00:00:00Z' })
+    const changes = describeChanges(item, {
+      kind: 'user',
+      profile: makeUser('alice', { followers: 8, public_repos: 2 }),
+      recentRepos: [fresh, makeRepo(1, 'old', { created_at: '2020-01-01T00:00:00Z' })],
+    })
+    expect(changes.stats).toEqual([{ label: 'followers', delta: -2 }, { label: 'public repos', delta: 1 }])
+    expect(changes.newRepos).toEqual([fresh])
+  })
+
+  it('reports nothing for a user without a baseline yet', () => {
+    const item = watchUser(makeSimpleUser('alice'), now)
+    const current: WatchCurrent = { kind: 'user', profile: makeUser('alice', { followers: 5 }), recentRepos: [] }
+    expect(hasChanges(describeChanges(item, current))).toBe(false)
+    expect(markSeen(item, current, now)).toMatchObject({ seen: { followers: 5, publicRepos: 0 }, seenAt: now.toISOString() })
+  })
+})
+
+describe('parseWatchlist', () => {
+  it('reads back an exported list', () => {
+    const items = [watchUser(makeSimpleUser('alice'), now), watchRepo(makeRepo(1, 'hello'), now)]
+    expect(parseWatchlist(serializeWatchlist(items), now)).toEqual(items)
+  })
+
+  it('drops entries it does not understand and fills missing dates', () => {
+    const text = JSON.stringify({ version: 1, items: [{ kind: 'user', login: 'bob' }, { kind: 'repo', fullName: 'no slash' }, 42] })
+    expect(parseWatchlist(text, now)).toEqual([
+      { kind: 'user', login: 'bob', addedAt: now.toISOString(), seenAt: now.toISOString() },
+    ])
+  })
+
+  it('rejects files that are not a watchlist', () => {
+    expect(() => parseWatchlist('{oops')).toThrow('The file is not valid JSON.')
+    expect(() => parseWatchlist('[]')).toThrow('The file is not an exported watchlist.')
+  })
+})
+
+describe('mergeWatchlists', () => {
+  it('adds new entries and keeps the history of those already watched', () => {
+    const mine = { ...watchUser(makeSimpleUser('alice')), seen: { followers: 3, publicRepos: 1 } }
+    const merged = mergeWatchlists([mine], [watchUser(makeSimpleUser('ALICE')), watchUser(makeSimpleUser('bob'))])
+    expect(merged.map(item => item.kind === 'user' && item.login)).toEqual(['alice', 'bob'])
+    expect(merged[0]).toBe(mine)
+  })
+})
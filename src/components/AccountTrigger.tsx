@@ -0,0 +1,63 @@
+import clsx from "clsx";
+import { Columns2, ExternalLink } from "lucide-react";
+import { AccordionTrigger } from "@/components/ui/accordion";
+import { Badge } from "@/components/ui/badge";
+import { WatchToggle } from "@/components/WatchToggle";
+import { useExplorer } from "@/hooks/useExplorerStore";
+import { useLocalStorage } from "@/hooks/useLocalStorage";
+import { MAX_COMPARED } from "@/lib/compare";
+import type { SimpleUser } from "@/lib/github-types";
+import type { RepoPrefetch } from "@/lib/repo-pages";
+import { STORAGE_KEYS } from "@/lib/storage";
+import { watchUser } from "@/lib/watchlist";
+
+interface AccountTriggerProps {
+  account: SimpleUser;
+}
+
+/** Accordion header for a user or organization, with watch and compare toggles and a link out to GitHub. */
+export function AccountTrigger({ account }: AccountTriggerProps) {
+  const { state, dispatch, actions } = useExplorer();
+  const [prefetch] = useLocalStorage<RepoPrefetch>(STORAGE_KEYS.prefetch, "hover");
+  const isOrg = account.type === "Organization";
+  const compared = state.compared.includes(account.login);
+  const compareFull = !compared && state.compared.length >= MAX_COMPARED;
+  const prefetchOnHover = () => {
+    if (prefetch === "hover") actions.loadRepos(account.login);
+  };
+
+  return (
+    <div className="flex items-center gap-2 [&>h3]:flex-1">
+      <AccordionTrigger className="items-center" onPointerEnter={prefetchOnHover} onFocus={prefetchOnHover}>
+        <span className="flex flex-1 items-center gap-3">
+          <img src={account.avatar_url} alt="" loading="lazy" className="size-8 rounded-full bg-gray-100" />
+          <span>{account.login}</span>
+          <Badge variant={isOrg ? "default" : "secondary"}>{isOrg ? "Organization" : "User"}</Badge>
+        </span>
+      </AccordionTrigger>
+      <WatchToggle item={watchUser(account)} name={account.login} />
+      {account.type === "User" && (
+        <button
+          type="button"
+          aria-pressed={compared}
+          aria-label={`Compare ${account.login}`}
+          title={compareFull ? `Up to ${MAX_COMPARED} users can be compared` : "Compare"}
+          disabled={compareFull}
+          onClick={() => dispatch({ type: "compare/toggled", login: account.login })}
+          className={clsx("rounded p-1 disabled:opacity-40",
+            compared ? "bg-blue-100 text-blue-600" : "text-gray-400 hover:text-gray-700")}>
+          <Columns2 size={16} />
+        </button>
+      )}
+      <a
+        href={account.html_url}
+        target="_blank"
+        rel="noopener noreferrer"
+        aria-label={`Open ${account.login} on GitHub`}
+        onClick={(e) => e.stopPropagation()}
+        className="text-gray-400 hover:text-gray-700">
+        <ExternalLink size={16} />
+      </a>
+    </div>
+  );
+}
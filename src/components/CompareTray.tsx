@@ -0,0 +1,39 @@
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useExplorer } from "@/hooks/useExplorerStore";
+import { MAX_COMPARED } from "@/lib/compare";
+
+/** The users picked for comparison, pinned to the bottom of the screen until compared or cleared. */
+export function CompareTray() {
+  const { state, dispatch } = useExplorer();
+  const { compared, comparing } = state;
+  if (compared.length === 0 || comparing) return null;
+
+  return (
+    <section
+      aria-label="Comparison selection"
+      className="fixed bottom-4 left-1/2 z-40 flex -translate-x-1/2 items-center gap-3 rounded-lg border bg-white px-4 py-2 shadow-lg">
+      <span className="text-xs text-gray-500">{compared.length} of {MAX_COMPARED}</span>
+      <ul className="flex flex-wrap gap-1">
+        {compared.map((login) => (
+          <li key={login} className="flex items-center gap-1 rounded-full bg-gray-100 py-0.5 pl-2 pr-1 text-sm">
+            {login}
+            <button
+              type="button"
+              aria-label={`Remove ${login} from comparison`}
+              onClick={() => dispatch({ type: "compare/toggled", login })}
+              className="rounded-full p-0.5 text-gray-400 hover:text-gray-700">
+              <X size={12} />
+            </button>
+          </li>
+        ))}
+      </ul>
+      <Button size="sm" disabled={compared.length < 2} onClick={() => dispatch({ type: "compare/opened" })}>
+        Compare
+      </Button>
+      <Button variant="ghost" size="sm" onClick={() => dispatch({ type: "compare/cleared" })}>
+        Clear
+      </Button>
+    </section>
+  );
+}
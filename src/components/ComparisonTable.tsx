@@ -0,0 +1,151 @@
+import { useEffect, type ReactNode } from "react";
+import { Star, Trophy, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useExplorer } from "@/hooks/useExplorerStore";
+import { compareUser, leaders, type UserComparison } from "@/lib/compare";
+import { selectRepoRequest } from "@/lib/explorer-store";
+import { formatAge, formatCount, formatDate } from "@/lib/format";
+
+/** `undefined` while the column is still loading, `null` when its profile or repos failed. */
+type Column = UserComparison | null | undefined;
+
+/** Side-by-side table of the users picked for comparison. */
+export function ComparisonTable() {
+  const { state, dispatch, actions } = useExplorer();
+  const { compared, profiles } = state;
+
+  useEffect(() => {
+    for (const login of compared) {
+      actions.loadRepos(login);
+      if (profiles[login] === undefined) actions.loadProfile(login);
+    }
+  }, [compared, profiles, actions]);
+
+  const columns: Column[] = compared.map((login) => {
+    const profile = profiles[login];
+    const repos = selectRepoRequest(state, login);
+    if (profile === null || repos.status === "error") return null;
+    return profile && repos.pages ? compareUser(profile, repos.pages.repos) : undefined;
+  });
+
+  const numericRow = (label: string, value: (column: UserComparison) => number, note?: (column: UserComparison) => ReactNode) => {
+    const best = leaders(columns.map((column) => (column ? value(column) : 0)));
+    return (
+      <Row label={label} columns={columns}>
+        {(column, i) => (
+          <>
+            <span className="flex items-center gap-1">
+              {formatCount(value(column))}
+              {best.has(i) && <Trophy size={12} className="text-yellow-500" aria-label="Highest" />}
+            </span>
+            {note?.(column)}
+          </>
+        )}
+      </Row>
+    );
+  };
+
+  return (
+    <section aria-label="User comparison" className="mb-6 w-full rounded-lg border bg-white p-4 shadow-sm">
+      <div className="mb-3 flex items-center justify-between gap-2">
+        <h2 className="font-semibold">Comparing {compared.length} users</h2>
+        <Button variant="ghost" size="sm" onClick={() => dispatch({ type: "compare/closed" })}>
+          <X />
+          Close
+        </Button>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full table-fixed text-sm">
+          <thead>
+            <tr>
+              <th className="w-28" />
+              {compared.map((login, i) => (
+                <th key={login} scope="col" className="px-2 pb-2 text-left font-medium">
+                  <span className="flex items-center gap-2">
+                    {columns[i]
+                      ? <img src={columns[i].avatarUrl} alt="" className="size-6 rounded-full bg-gray-100" />
+                      : <span className="size-6 shrink-0 rounded-full bg-gray-100" />}
+                    <span className="truncate" title={columns[i]?.name ?? undefined}>{login}</span>
+                    <button
+                      type="button"
+                      aria-label={`Remove ${login} from comparison`}
+                      onClick={() => dispatch({ type: "compare/toggled", login })}
+                      className="ml-auto text-gray-400 hover:text-gray-700">
+                      <X size={14} />
+                    </button>
+                  </span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="[&_tr]:border-t">
+            {numericRow("Followers", (column) => column.followers)}
+            {numericRow("Public repos", (column) => column.publicRepos)}
+            {numericRow("Total stars", (column) => column.stars, (column) => column.reposCounted < column.publicRepos && (
+              <span className="block text-xs text-gray-400">from {column.reposCounted} repos</span>
+            ))}
+            <Row label="Top languages" columns={columns}>
+              {(column) => column.languages.length > 0 ? (
+                <ul className="space-y-0.5">
+                  {column.languages.map(({ language, share }) => (
+                    <li key={language}>{language} {Math.round(share * 100)}%</li>
+                  ))}
+                </ul>
+              ) : "—"}
+            </Row>
+            <Row label="Most starred" columns={columns}>
+              {(column) => column.topRepos.length > 0 ? (
+                <ul className="space-y-0.5">
+                  {column.topRepos.map((repo) => (
+                    <li key={repo.id} className="flex items-center gap-1">
+                      <button
+                        type="button"
+                        onClick={() => dispatch({ type: "detail/opened", repo })}
+                        className="truncate hover:underline">
+                        {repo.name}
+                      </button>
+                      <span className="ml-auto flex shrink-0 items-center gap-0.5 text-xs text-gray-500">
+                        {formatCount(repo.stargazers_count)}
+                        <Star size={10} className="fill-current text-yellow-500" />
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              ) : "—"}
+            </Row>
+            <Row label="Account age" columns={columns}>
+              {(column) => (
+                <>
+                  {formatAge(column.createdAt)}
+                  <span className="block text-xs text-gray-400">since {formatDate(column.createdAt)}</span>
+                </>
+              )}
+            </Row>
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
+
+interface RowProps {
+  label: string;
+  columns: Column[];
+  children: (column: UserComparison, index: number) => ReactNode;
+}
+
+function Row({ label, columns, children }: RowProps) {
+  return (
+    <tr>
+      <th scope="row" className="py-2 pr-2 text-left align-top text-xs font-medium text-gray-500">{label}</th>
+      {columns.map((column, i) => (
+        <td key={i} className="px-2 py-2 align-top">
+          {column === undefined && <Skeleton data-testid="loading-skeleton-compare" className="h-3 w-16" />}
+          {column === null && <span className="text-xs text-gray-400">Couldn't load</span>}
+          {column && children(column, i)}
+        </td>
+      ))}
+    </tr>
+  );
+}
@@ -0,0 +1,29 @@
+import { RotateCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useCountdown } from "@/hooks/useCountdown";
+import type { AppError } from "@/lib/errors";
+import { formatCountdown } from "@/lib/rate-limit";
+
+interface ErrorAlertProps {
+  error: AppError;
+  onRetry?: () => void;
+}
+
+export function ErrorAlert({ error, onRetry }: ErrorAlertProps) {
+  const wait = useCountdown(error.retryAt);
+
+  return (
+    <div role="alert" className="flex w-full items-center justify-between gap-3 rounded-md border border-red-200 bg-red-50 px-3 py-2 mb-3">
+      <p className="text-red-500 text-sm">
+        {error.message}
+        {wait > 0 && ` Try again in ${formatCountdown(wait)}.`}
+      </p>
+      {onRetry && (
+        <Button variant="outline" size="sm" onClick={onRetry} disabled={wait > 0}>
+          <RotateCw />
+          Retry
+        </Button>
+      )}
+    </div>
+  );
+}
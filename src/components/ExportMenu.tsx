@@ -0,0 +1,144 @@
+import { useState } from "react";
+import clsx from "clsx";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useExplorer } from "@/hooks/useExplorerStore";
+import { selectLoadedRepos, selectLoadedUsers, selectRequest } from "@/lib/explorer-store";
+import {
+  downloadFile,
+  exportFilename,
+  exportFormats,
+  formatExport,
+  repoColumns,
+  userColumns,
+  type ExportColumn,
+  type ExportFormat,
+} from "@/lib/export";
+
+type Dataset = "users" | "repos";
+
+const allKeys = (columns: ExportColumn<never>[]) => columns.map(column => column.key);
+
+const pick = <T,>(columns: ExportColumn<T>[], keys: string[]) => columns.filter(column => keys.includes(column.key));
+
+/** Downloads every loaded page of user results or every loaded repository as CSV, JSON or a Markdown table. */
+export function ExportMenu() {
+  const { state } = useExplorer();
+  const [open, setOpen] = useState(false);
+  const request = selectRequest(state);
+  const users = selectLoadedUsers(state);
+  const repos = selectLoadedRepos(state);
+  const [dataset, setDataset] = useState<Dataset>(users.length > 0 ? "users" : "repos");
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [keys, setKeys] = useState<Record<Dataset, string[]>>({
+    users: allKeys(userColumns),
+    repos: allKeys(repoColumns),
+  });
+  // The results can change under an open menu, e.g. a mode switch that leaves no users.
+  const current: Dataset = dataset === "users" && users.length === 0 ? "repos" : dataset;
+  const columns = current === "users" ? userColumns : repoColumns;
+  const selected = keys[current];
+  const rowCount = current === "users" ? users.length : repos.length;
+  const filename = exportFilename(current, request.q, format);
+
+  const toggleColumn = (key: string, checked: boolean) => {
+    // Keep the column order of the definitions rather than the order of clicks.
+    const next = columns.map(column => column.key).filter(k => (k === key ? checked : selected.includes(k)));
+    setKeys({ ...keys, [current]: next });
+  };
+
+  const download = () => {
+    const content = current === "users"
+      ? formatExport(format, users.map(user => ({ user, profile: state.profiles[user.login] })), pick(userColumns, selected))
+      : formatExport(format, repos, pick(repoColumns, selected));
+    downloadFile(filename, content, exportFormats[format].mimeType);
+    setOpen(false);
+  };
+
+  const choice = (active: boolean) => clsx("rounded px-2 py-1 text-xs",
+    active ? "bg-blue-500 text-white" : "text-gray-600 hover:bg-gray-100 disabled:opacity-40 disabled:hover:bg-transparent");
+
+  return (
+    <div className="relative">
+      <Button variant="outline" size="sm" aria-expanded={open} onClick={() => setOpen(prev => !prev)}>
+        <Download />
+        Export
+      </Button>
+      {open && (
+        <div
+          role="dialog"
+          aria-label="Export"
+          className="absolute right-0 z-10 mt-2 w-80 rounded-lg border bg-white p-4 shadow-lg space-y-3 text-sm">
+          <div role="group" aria-label="Data" className="flex gap-1">
+            <button
+              type="button"
+              aria-pressed={current === "users"}
+              disabled={users.length === 0}
+              onClick={() => setDataset("users")}
+              className={choice(current === "users")}>
+              Users ({users.length})
+            </button>
+            <button
+              type="button"
+              aria-pressed={current === "repos"}
+              disabled={repos.length === 0}
+              onClick={() => setDataset("repos")}
+              className={choice(current === "repos")}>
+              Repositories ({repos.length})
+            </button>
+          </div>
+          <div role="group" aria-label="Format" className="flex gap-1">
+            {(Object.keys(exportFormats) as ExportFormat[]).map((value) => (
+              <button
+                key={value}
+                type="button"
+                aria-pressed={format === value}
+                onClick={() => setFormat(value)}
+                className={choice(format === value)}>
+                {exportFormats[value].label}
+              </button>
+            ))}
+          </div>
+          <fieldset className="space-y-1">
+            <legend className="mb-1 flex w-full items-center justify-between text-xs font-medium">
+              Columns
+              <span className="flex gap-2 font-normal">
+                <button
+                  type="button"
+                  className="text-blue-600 hover:underline"
+                  onClick={() => setKeys({ ...keys, [current]: allKeys(columns) })}>
+                  All
+                </button>
+                <button
+                  type="button"
+                  className="text-blue-600 hover:underline"
+                  onClick={() => setKeys({ ...keys, [current]: [] })}>
+                  None
+                </button>
+              </span>
+            </legend>
+            <div className="grid grid-cols-2 gap-x-3 gap-y-1">
+              {columns.map((column) => (
+                <label key={column.key} className="flex items-center gap-1 text-xs text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(column.key)}
+                    onChange={(e) => toggleColumn(column.key, e.target.checked)}
+                  />
+                  {column.label}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+          {current === "users" && (
+            <p className="text-xs text-gray-500">Profile columns are filled for users that have been opened.</p>
+          )}
+          <p className="text-xs text-gray-500 break-all">{filename}</p>
+          <Button size="sm" className="w-full" disabled={selected.length === 0 || rowCount === 0} onClick={download}>
+            Download {rowCount} {current === "users" ? "users" : "repositories"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
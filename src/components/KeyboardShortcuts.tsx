@@ -0,0 +1,47 @@
+import { useCallback, useState, type RefObject } from "react";
+import { ShortcutHelp } from "@/components/ShortcutHelp";
+import { useExplorer } from "@/hooks/useExplorerStore";
+import { useShortcuts } from "@/hooks/useShortcuts";
+import { selectRepoResults, selectRequest, selectUsers } from "@/lib/explorer-store";
+import type { Shortcut } from "@/lib/shortcuts";
+
+interface KeyboardShortcutsProps {
+  /** The search bar's input, focused with `/`. */
+  inputRef: RefObject<HTMLInputElement>;
+}
+
+/** The explorer's global shortcuts, and the overlay listing them. */
+export function KeyboardShortcuts({ inputRef }: KeyboardShortcutsProps) {
+  const { state, dispatch, actions } = useExplorer();
+  const [showHelp, setShowHelp] = useState(false);
+  const closeHelp = useCallback(() => setShowHelp(false), []);
+  const { cursor, expanded } = state;
+
+  const openCursor = () => {
+    const user = selectUsers(state)[cursor];
+    const repo = selectRepoResults(state)[cursor];
+    if (user) dispatch({ type: "user/expanded", login: expanded === user.login ? null : user.login });
+    if (repo) dispatch({ type: "detail/opened", repo });
+  };
+
+  const escape = () => {
+    if (expanded) {
+      dispatch({ type: "user/expanded", login: null });
+    } else if (state.term || selectRequest(state).q) {
+      dispatch({ type: "input/changed", term: "" });
+      actions.clear();
+    }
+  };
+
+  const shortcuts: Shortcut[] = [
+    { keys: ["/"], description: "Focus the search bar", run: () => inputRef.current?.focus() },
+    { keys: ["j"], description: "Next result", run: () => dispatch({ type: "cursor/moved", step: 1 }) },
+    { keys: ["k"], description: "Previous result", run: () => dispatch({ type: "cursor/moved", step: -1 }) },
+    { keys: ["Enter", "o"], description: "Expand the selected user or open the selected repository", run: openCursor },
+    { keys: ["Escape"], description: "Collapse the open user, or clear the search", run: escape },
+    { keys: ["?"], description: "Show keyboard shortcuts", run: () => setShowHelp(true) },
+  ];
+  useShortcuts(shortcuts);
+
+  return showHelp ? <ShortcutHelp shortcuts={shortcuts} onClose={closeHelp} /> : null;
+}
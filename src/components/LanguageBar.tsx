@@ -0,0 +1,26 @@
+import { getShareColor, type LanguageShare } from "@/lib/languages";
+
+interface LanguageBarProps {
+  languages: LanguageShare[];
+}
+
+/** A stacked bar of language shares with a legend underneath. */
+export function LanguageBar({ languages }: LanguageBarProps) {
+  return (
+    <>
+      <div className="flex h-2 overflow-hidden rounded-full" aria-hidden>
+        {languages.map(({ language, share }) => (
+          <span key={language} style={{ width: `${share * 100}%`, backgroundColor: getShareColor(language) }} />
+        ))}
+      </div>
+      <ul aria-label="Language mix" className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-gray-600">
+        {languages.map(({ language, share }) => (
+          <li key={language} className="flex items-center gap-1">
+            <span aria-hidden className="inline-block size-2 rounded-full" style={{ backgroundColor: getShareColor(language) }} />
+            {language} {Math.round(share * 100)}%
+          </li>
+        ))}
+      </ul>
+    </>
+  );
+}
@@ -0,0 +1,63 @@
+import { BadgeCheck, BookMarked, CalendarDays, Link as LinkIcon, MapPin, Users } from "lucide-react";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { Organization } from "@/lib/github-types";
+import { formatCount, formatDate, toExternalUrl } from "@/lib/format";
+
+interface OrgProfileProps {
+  /** `undefined` while loading, `null` when the organization could not be loaded. */
+  org?: Organization | null;
+}
+
+export function OrgProfile({ org }: OrgProfileProps) {
+  if (org === null) return null;
+
+  if (!org) {
+    return (
+      <div className="mb-4 space-y-2">
+        <Skeleton data-testid="loading-skeleton-profile" className="h-4 w-1/3" />
+        <Skeleton data-testid="loading-skeleton-profile" className="h-3 w-2/3" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-4 space-y-2">
+      {(org.name || org.description) && (
+        <div>
+          {org.name && (
+            <p className="flex items-center gap-1 font-semibold text-base">
+              {org.name}
+              {org.is_verified && <BadgeCheck size={16} className="text-blue-500" aria-label="Verified" />}
+            </p>
+          )}
+          {org.description && <p className="text-sm text-gray-600">{org.description}</p>}
+        </div>
+      )}
+      <ul className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500">
+        {org.location && (
+          <li className="flex items-center gap-1"><MapPin size={14} />{org.location}</li>
+        )}
+        {org.blog && (
+          <li className="flex items-center gap-1">
+            <LinkIcon size={14} />
+            <a href={toExternalUrl(org.blog)} target="_blank" rel="noopener noreferrer" className="hover:underline">
+              {org.blog}
+            </a>
+          </li>
+        )}
+        <li className="flex items-center gap-1">
+          <BookMarked size={14} />
+          <span>{formatCount(org.public_repos)} public repositories</span>
+        </li>
+        <li className="flex items-center gap-1">
+          <Users size={14} />
+          <span>{formatCount(org.followers)} followers</span>
+        </li>
+        <li className="flex items-center gap-1">
+          <CalendarDays size={14} />
+          <span>Created {formatDate(org.created_at)}</span>
+        </li>
+      </ul>
+    </div>
+  );
+}
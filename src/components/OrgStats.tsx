@@ -0,0 +1,38 @@
+import { GitFork, Star } from "lucide-react";
+import { LanguageBar } from "@/components/LanguageBar";
+import type { Repo } from "@/lib/github-types";
+import { formatCount } from "@/lib/format";
+import { summarizeRepos } from "@/lib/org";
+
+interface OrgStatsProps {
+  repos: Repo[];
+  /** Public repo count from the profile, to say when the totals only cover part of them. */
+  totalCount?: number;
+}
+
+/** Stars, forks and language mix summed over an organization's loaded repositories. */
+export function OrgStats({ repos, totalCount }: OrgStatsProps) {
+  const summary = summarizeRepos(repos);
+  const partial = totalCount !== undefined && repos.length < totalCount;
+
+  return (
+    <section aria-label="Organization stats" className="mb-4 space-y-2 rounded-lg border bg-gray-50 p-3">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm">
+        <span className="flex items-center gap-1">
+          <Star size={14} className="text-yellow-500" />
+          {formatCount(summary.stars)} total stars
+        </span>
+        <span className="flex items-center gap-1">
+          <GitFork size={14} />
+          {formatCount(summary.forks)} total forks
+        </span>
+        {partial && (
+          <span className="text-xs text-gray-400">
+            Based on {summary.repoCount} of {totalCount} repositories
+          </span>
+        )}
+      </div>
+      {summary.languages.length > 0 && <LanguageBar languages={summary.languages} />}
+    </section>
+  );
+}
@@ -0,0 +1,129 @@
+import { useEffect, useState } from "react";
+import clsx from "clsx";
+import { Accordion, AccordionContent, AccordionItem } from "@/components/ui/accordion";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AccountTrigger } from "@/components/AccountTrigger";
+import { ErrorAlert } from "@/components/ErrorAlert";
+import { OrgProfile } from "@/components/OrgProfile";
+import { OrgStats } from "@/components/OrgStats";
+import { UserDetails } from "@/components/UserDetails";
+import { UserRepoList } from "@/components/UserRepoList";
+import { useExplorer } from "@/hooks/useExplorerStore";
+import { selectMemberRequest, selectRepoRequest } from "@/lib/explorer-store";
+
+type OrgTab = "repos" | "members";
+
+interface OrgViewProps {
+  login: string;
+}
+
+/** An expanded organization: its profile, aggregate stats, repositories and public members. */
+export function OrgView({ login }: OrgViewProps) {
+  const { state, actions } = useExplorer();
+  const [tab, setTab] = useState<OrgTab>("repos");
+  const org = state.orgs[login];
+  const repos = selectRepoRequest(state, login);
+
+  useEffect(() => {
+    actions.loadRepos(login);
+    if (org === undefined) actions.loadOrg(login);
+  }, [login, org, actions]);
+
+  useEffect(() => {
+    if (tab === "members") actions.loadMembers(login);
+  }, [tab, login, actions]);
+
+  const tabButton = (value: OrgTab, label: string) => (
+    <button
+      role="tab"
+      aria-selected={tab === value}
+      onClick={() => setTab(value)}
+      className={clsx("px-3 py-1.5 text-sm border-b-2 -mb-px",
+        tab === value ? "border-blue-500 font-medium" : "border-transparent text-gray-500 hover:text-gray-700")}>
+      {label}
+    </button>
+  );
+
+  return (
+    <>
+      <OrgProfile org={org} />
+      {repos.pages && <OrgStats repos={repos.pages.repos} totalCount={org?.public_repos} />}
+      <div role="tablist" aria-label={`${login} sections`} className="mb-3 flex border-b">
+        {tabButton("repos", "Repositories")}
+        {tabButton("members", "Members")}
+      </div>
+      {tab === "repos" ? (
+        <UserRepoList login={login} totalCount={org?.public_repos} />
+      ) : (
+        <MemberList login={login} />
+      )}
+    </>
+  );
+}
+
+function MemberList({ login }: OrgViewProps) {
+  const { state, actions } = useExplorer();
+  const [expanded, setExpanded] = useState("");
+  const request = selectMemberRequest(state, login);
+  const members = request.pages?.members;
+
+  if (request.status === "loading" && !members) {
+    return (
+      <div className="space-y-2">
+        {[...Array(3)].map((_, i) => (
+          <Skeleton key={i} data-testid="loading-skeleton-member" className="h-8 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  const error = request.status === "error" ? request.error : undefined;
+  if (error && !members) {
+    return <ErrorAlert error={error} onRetry={() => actions.loadMembers(login, true)} />;
+  }
+
+  if (!members || members.length === 0) {
+    return <p className="text-sm text-gray-500 italic">No public members.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-gray-400">
+        {members.length} public {members.length === 1 ? "member" : "members"} loaded
+      </p>
+      <Accordion type="single" collapsible value={expanded} onValueChange={setExpanded} className="pl-2">
+        {members.map((member) => (
+          <AccordionItem key={member.login} value={member.login}>
+            <AccountTrigger account={member} />
+            <AccordionContent>
+              <UserDetails login={member.login} />
+            </AccordionContent>
+          </AccordionItem>
+        ))}
+      </Accordion>
+      {error && (
+        <ErrorAlert
+          error={error}
+          onRetry={() => request.failed === "more" ? actions.loadMoreMembers(login) : actions.loadMembers(login, true)}
+        />
+      )}
+      {request.pages?.nextPage && !error && (
+        <div className="flex items-center justify-center gap-2">
+          {request.loadingMore ? (
+            <p className="text-xs text-gray-500" role="status">Loading more members…</p>
+          ) : (
+            <>
+              <Button variant="outline" size="sm" onClick={() => actions.loadMoreMembers(login)}>
+                Load more members
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => actions.loadMoreMembers(login, true)}>
+                Load all members
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { getPageWindow } from "@/lib/pagination";
+
+interface PaginationProps {
+  page: number;
+  pageCount: number;
+  onPageChange: (page: number) => void;
+  disabled?: boolean;
+}
+
+export function Pagination({ page, pageCount, onPageChange, disabled }: PaginationProps) {
+  if (pageCount <= 1) return null;
+
+  return (
+    <nav aria-label="Pagination" className="flex items-center justify-center gap-1 mt-4">
+      <Button
+        variant="outline"
+        size="icon"
+        aria-label="Previous page"
+        disabled={disabled || page <= 1}
+        onClick={() => onPageChange(page - 1)}>
+        <ChevronLeft />
+      </Button>
+      {getPageWindow(page, pageCount).map((n) => (
+        <Button
+          key={n}
+          variant={n === page ? "default" : "outline"}
+          size="icon"
+          aria-current={n === page ? "page" : undefined}
+          disabled={disabled}
+          onClick={() => n !== page && onPageChange(n)}>
+          {n}
+        </Button>
+      ))}
+      <Button
+        variant="outline"
+        size="icon"
+        aria-label="Next page"
+        disabled={disabled || page >= pageCount}
+        onClick={() => onPageChange(page + 1)}>
+        <ChevronRight />
+      </Button>
+    </nav>
+  );
+}
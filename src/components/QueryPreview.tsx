@@ -0,0 +1,44 @@
+import { useEffect, useState } from "react";
+import { Check, Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface QueryPreviewProps {
+  /** The `q` string GitHub will receive. */
+  query: string;
+  onReset: () => void;
+}
+
+/** Footer of the filter panels: the effective query, a copy button and a reset. */
+export function QueryPreview({ query, onReset }: QueryPreviewProps) {
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), 1500);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const copyQuery = async () => {
+    try {
+      // The clipboard is missing outside secure contexts, and writing to it can be denied.
+      await navigator.clipboard.writeText(query);
+      setCopied(true);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <code className="flex-1 truncate rounded bg-gray-100 px-2 py-1 text-xs" aria-label="Effective query">
+        {query || "—"}
+      </code>
+      <Button variant="outline" size="sm" onClick={copyQuery} disabled={!query} aria-label="Copy query">
+        {copied ? <Check /> : <Copy />}
+      </Button>
+      <Button variant="ghost" size="sm" onClick={onReset}>
+        Reset
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import clsx from "clsx";
+import { useRateLimits } from "@/hooks/useRateLimits";
+import { isExhausted } from "@/lib/rate-limit";
+
+const shownResources = ["search", "core"];
+
+export function RateLimitIndicator() {
+  const limits = useRateLimits();
+  const rates = shownResources.map(resource => limits[resource]).filter(Boolean);
+  if (rates.length === 0) return null;
+
+  return (
+    <div className="flex items-center gap-3 text-xs text-gray-500" aria-label="API rate limits">
+      {rates.map(rate => (
+        <span key={rate.resource} className={clsx(isExhausted(rate) && "text-red-500 font-medium")}>
+          {rate.resource} {rate.remaining}/{rate.limit}
+        </span>
+      ))}
+    </div>
+  );
+}
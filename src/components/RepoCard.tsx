@@ -0,0 +1,109 @@
+import type { MouseEvent } from "react";
+import { CircleDot, GitFork, Scale, Star } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { WatchToggle } from "@/components/WatchToggle";
+import type { Repo } from "@/lib/github-types";
+import { formatCount, formatRelativeTime } from "@/lib/format";
+import { getLanguageColor } from "@/lib/languages";
+import { userExplorerSearch } from "@/lib/url-state";
+import { watchRepo } from "@/lib/watchlist";
+
+interface RepoCardProps {
+  repo: Repo;
+  /** Opens the repository in the app instead of on GitHub. */
+  onOpen?: (repo: Repo) => void;
+  /** Shows the owner in front of the name, linked into the user explorer. */
+  onOpenOwner?: (login: string) => void;
+}
+
+/** Runs `handler` for a plain click; modified clicks keep the browser's handling, e.g. a new tab. */
+const inApp = (handler?: () => void) => (e: MouseEvent) => {
+  if (!handler || e.metaKey || e.ctrlKey || e.shiftKey || e.button !== 0) return;
+  e.preventDefault();
+  handler();
+};
+
+export function RepoCard({ repo, onOpen, onOpenOwner }: RepoCardProps) {
+  const updatedAt = repo.pushed_at ?? repo.updated_at;
+
+  return (
+    <div className="border rounded-lg p-4 bg-white shadow-sm flex flex-col md:flex-row md:items-center justify-between gap-4">
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 min-w-0">
+            {onOpenOwner && (
+              <a
+                href={userExplorerSearch(repo.owner.login)}
+                onClick={inApp(onOpenOwner && (() => onOpenOwner(repo.owner.login)))}
+                title={`Explore ${repo.owner.login}`}
+                className="flex items-center gap-1.5 text-base text-gray-600 hover:underline shrink-0">
+                <img src={repo.owner.avatar_url} alt="" loading="lazy" className="size-5 rounded-full bg-gray-100" />
+                {repo.owner.login}
+                <span aria-hidden className="text-gray-400">/</span>
+              </a>
+            )}
+            <p className="font-bold text-base truncate">
+              <a
+                href={repo.html_url}
+                target="_blank"
+                rel="noopener noreferrer"
+                onClick={inApp(onOpen && (() => onOpen(repo)))}
+                className="hover:underline"
+              >
+                {repo.name}
+              </a>
+            </p>
+            {repo.fork && <Badge variant="outline">Fork</Badge>}
+            {repo.archived && <Badge variant="secondary">Archived</Badge>}
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <div className="flex items-center gap-1 font-bold text-sm text-yellow-500">
+              {repo.stargazers_count}
+              <Star size={16} className="text-yellow-500 fill-current" />
+            </div>
+            <WatchToggle item={watchRepo(repo)} name={repo.full_name} />
+          </div>
+        </div>
+        <p className="text-sm text-gray-600 mt-1">{repo.description || "No description"}</p>
+        {repo.topics && repo.topics.length > 0 && (
+          <ul className="flex flex-wrap gap-1 mt-2" aria-label="Topics">
+            {repo.topics.map(topic => (
+              <li key={topic}>
+                <Badge variant="secondary" className="rounded-full bg-blue-50 text-blue-700">{topic}</Badge>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-2 text-xs text-gray-500">
+          {repo.language && (
+            <span className="flex items-center gap-1">
+              <span
+                aria-hidden
+                className="inline-block size-3 rounded-full"
+                style={{ backgroundColor: getLanguageColor(repo.language) }}
+              />
+              {repo.language}
+            </span>
+          )}
+          <span className="flex items-center gap-1" title="Forks">
+            <GitFork size={14} />
+            {formatCount(repo.forks_count)} forks
+          </span>
+          {repo.open_issues_count > 0 && (
+            <span className="flex items-center gap-1" title="Open issues">
+              <CircleDot size={14} />
+              {formatCount(repo.open_issues_count)} open issues
+            </span>
+          )}
+          {repo.license && (
+            <span className="flex items-center gap-1" title="License">
+              <Scale size={14} />
+              {repo.license.spdx_id && repo.license.spdx_id !== "NOASSERTION" ? repo.license.spdx_id : repo.license.name}
+            </span>
+          )}
+          <span title={new Date(updatedAt).toLocaleString()}>Updated {formatRelativeTime(updatedAt)}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
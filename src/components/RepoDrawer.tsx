@@ -0,0 +1,209 @@
+import { useCallback, useEffect, useRef, type ReactNode } from "react";
+import { ExternalLink, GitFork, Star, Tag, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ErrorAlert } from "@/components/ErrorAlert";
+import { LanguageBar } from "@/components/LanguageBar";
+import { useExplorer } from "@/hooks/useExplorerStore";
+import { useRepoDetails } from "@/hooks/useRepoDetails";
+import type { Repo } from "@/lib/github-types";
+import { formatCount, formatRelativeTime } from "@/lib/format";
+import { commitSubject, type DetailSection } from "@/lib/repo-details";
+
+/** GitHub's README markup comes unstyled; these rules give it a readable shape inside the panel. */
+const readmeClass = [
+  "text-sm leading-relaxed break-words",
+  "[&_a]:text-blue-600 [&_a:hover]:underline",
+  "[&_h1]:mb-2 [&_h1]:text-xl [&_h1]:font-bold [&_h2]:mt-4 [&_h2]:mb-2 [&_h2]:text-lg [&_h2]:font-semibold",
+  "[&_h3]:mt-3 [&_h3]:font-semibold [&_p]:my-2",
+  "[&_ul]:list-disc [&_ul]:pl-5 [&_ol]:list-decimal [&_ol]:pl-5",
+  "[&_pre]:overflow-x-auto [&_pre]:rounded [&_pre]:bg-gray-100 [&_pre]:p-2 [&_code]:text-xs",
+  "[&_img]:inline [&_img]:max-w-full",
+].join(" ");
+
+/** Side panel with the details of the repository opened from any repo list. */
+export function RepoDrawer() {
+  const { state, dispatch } = useExplorer();
+  const close = useCallback(() => dispatch({ type: "detail/closed" }), [dispatch]);
+  const repo = state.detailRepo;
+  if (!repo) return null;
+  // Keyed so switching repositories starts from a clean, loading panel.
+  return <RepoDrawerPanel key={repo.id} repo={repo} onClose={close} />;
+}
+
+interface RepoDrawerPanelProps {
+  repo: Repo;
+  onClose: () => void;
+}
+
+function RepoDrawerPanel({ repo, onClose }: RepoDrawerPanelProps) {
+  const { details, reload } = useRepoDetails(repo);
+  const dialog = useRef<HTMLDivElement>(null);
+  const titleId = `repo-drawer-${repo.id}`;
+
+  useEffect(() => {
+    dialog.current?.focus();
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", onKeyDown);
+    return () => document.removeEventListener("keydown", onKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black/30" aria-hidden onClick={onClose} />
+      <div
+        ref={dialog}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        tabIndex={-1}
+        className="relative flex h-full w-full max-w-xl flex-col overflow-y-auto bg-white shadow-xl outline-none">
+        <header className="sticky top-0 z-10 border-b bg-white p-4 space-y-2">
+          <div className="flex items-start justify-between gap-2">
+            <h2 id={titleId} className="text-lg font-bold break-all">{repo.full_name}</h2>
+            <Button variant="ghost" size="icon" onClick={onClose} aria-label="Close details">
+              <X />
+            </Button>
+          </div>
+          {repo.description && <p className="text-sm text-gray-600">{repo.description}</p>}
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-500">
+            <span className="flex items-center gap-1">
+              <Star size={14} className="text-yellow-500" />
+              {formatCount(repo.stargazers_count)} stars
+            </span>
+            <span className="flex items-center gap-1">
+              <GitFork size={14} />
+              {formatCount(repo.forks_count)} forks
+            </span>
+            <a
+              href={repo.html_url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-1 text-blue-600 hover:underline">
+              <ExternalLink size={14} />
+              Open on GitHub
+            </a>
+          </div>
+        </header>
+
+        <div className="space-y-6 p-4">
+          <Section title="Latest release" section={details.release} onRetry={reload}>
+            {(release) => release ? (
+              <a
+                href={release.html_url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-2 text-sm hover:underline">
+                <Tag size={14} />
+                <span className="font-medium">{release.name || release.tag_name}</span>
+                {release.name && release.name !== release.tag_name && (
+                  <span className="text-gray-500">{release.tag_name}</span>
+                )}
+                {release.published_at && (
+                  <span className="text-xs text-gray-400">{formatRelativeTime(release.published_at)}</span>
+                )}
+              </a>
+            ) : (
+              <Empty>No releases yet.</Empty>
+            )}
+          </Section>
+
+          <Section title="Languages" section={details.languages} onRetry={reload}>
+            {(languages) => languages.length > 0
+              ? <div className="space-y-2"><LanguageBar languages={languages} /></div>
+              : <Empty>No languages detected.</Empty>}
+          </Section>
+
+          <Section title="Top contributors" section={details.contributors} onRetry={reload}>
+            {(contributors) => contributors.length > 0 ? (
+              <ul className="grid grid-cols-2 gap-2" aria-label="Contributors">
+                {contributors.map((contributor) => (
+                  <li key={contributor.id}>
+                    <a
+                      href={contributor.html_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-2 text-sm hover:underline">
+                      <img src={contributor.avatar_url} alt="" loading="lazy" className="size-6 rounded-full bg-gray-100" />
+                      <span className="truncate">{contributor.login}</span>
+                      <span className="ml-auto text-xs text-gray-400">{formatCount(contributor.contributions)}</span>
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <Empty>No contributors yet.</Empty>
+            )}
+          </Section>
+
+          <Section title="Recent commits" section={details.commits} onRetry={reload}>
+            {(commits) => commits.length > 0 ? (
+              <ul className="space-y-2" aria-label="Commits">
+                {commits.map((commit) => {
+                  const date = commit.commit.author?.date ?? commit.commit.committer?.date;
+                  return (
+                    <li key={commit.sha} className="text-sm">
+                      <a href={commit.html_url} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                        {commitSubject(commit.commit.message)}
+                      </a>
+                      <p className="text-xs text-gray-500">
+                        <code>{commit.sha.slice(0, 7)}</code>
+                        {" · "}
+                        {commit.author?.login ?? commit.commit.author?.name ?? "unknown"}
+                        {date && ` · ${formatRelativeTime(date)}`}
+                      </p>
+                    </li>
+                  );
+                })}
+              </ul>
+            ) : (
+              <Empty>No commits yet.</Empty>
+            )}
+          </Section>
+
+          <Section title="README" section={details.readme} onRetry={reload}>
+            {(readme) => readme ? (
+              // GitHub renders and sanitizes README HTML on its side, the same markup github.com shows.
+              <div
+                data-testid="repo-readme"
+                className={readmeClass}
+                dangerouslySetInnerHTML={{ __html: readme }}
+              />
+            ) : (
+              <Empty>This repository has no README.</Empty>
+            )}
+          </Section>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface SectionProps<T> {
+  title: string;
+  section: DetailSection<T>;
+  onRetry: () => void;
+  children: (data: T) => ReactNode;
+}
+
+function Section<T>({ title, section, onRetry, children }: SectionProps<T>) {
+  return (
+    <section aria-label={title} className="space-y-2">
+      <h3 className="text-sm font-semibold text-gray-700">{title}</h3>
+      {section.status === "loading" && (
+        <div className="space-y-2">
+          <Skeleton data-testid="loading-skeleton-detail" className="h-3 w-2/3" />
+          <Skeleton data-testid="loading-skeleton-detail" className="h-3 w-1/2" />
+        </div>
+      )}
+      {section.status === "error" && <ErrorAlert error={section.error} onRetry={onRetry} />}
+      {section.status === "loaded" && children(section.data)}
+    </section>
+  );
+}
+
+function Empty({ children }: { children: ReactNode }) {
+  return <p className="text-sm text-gray-500 italic">{children}</p>;
+}
@@ -0,0 +1,114 @@
+import { useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ErrorAlert } from "@/components/ErrorAlert";
+import { RepoCard } from "@/components/RepoCard";
+import { RepoListControls } from "@/components/RepoListControls";
+import { useVirtualList } from "@/hooks/useVirtualList";
+import type { AppError } from "@/lib/errors";
+import type { Repo } from "@/lib/github-types";
+import { applyRepoListOptions, isFiltered, type RepoListOptions } from "@/lib/repo-filters";
+import type { RepoPages } from "@/lib/repo-pages";
+import { formatRelativeTime } from "@/lib/format";
+
+/** Pages confirmed by GitHub longer ago than this get a "cached" hint. */
+const CACHE_HINT_AFTER = 60_000;
+
+interface RepoListProps {
+  pages?: RepoPages;
+  totalCount?: number;
+  isLoading: boolean;
+  isLoadingMore: boolean;
+  error?: AppError;
+  options: RepoListOptions;
+  onOptionsChange: (options: RepoListOptions) => void;
+  onLoadMore: (all?: boolean) => void;
+  onRefresh: () => void;
+  onRetry: () => void;
+  onOpenRepo?: (repo: Repo) => void;
+}
+
+export function RepoList({
+  pages, totalCount, isLoading, isLoadingMore, error, options,
+  onOptionsChange, onLoadMore, onRefresh, onRetry, onOpenRepo,
+}: RepoListProps) {
+  const repos = pages?.repos;
+  // Filtering and sorting every loaded repository is the costly part of a render; do it only when either changes.
+  const visible = useMemo(() => repos ? applyRepoListOptions(repos, options) : [], [repos, options]);
+  // A user can have thousands of repositories once "Load all" ran, so only those near the viewport are rendered.
+  const { containerRef, start, end, before, after } = useVirtualList<HTMLDivElement>({
+    count: visible.length,
+    estimateSize: 140,
+    getKey: index => visible[index].id,
+    gap: 12,
+  });
+  // A refresh keeps the current list on screen until the new first page arrives.
+  if (isLoading && !repos) {
+    return (
+      <div className="space-y-3">
+        {[...Array(2)].map((_, i) => (
+          <div key={i} className="border rounded-lg p-4 bg-white shadow-sm">
+            <Skeleton data-testid="loading-skeleton" className="h-4 w-1/2 mb-2" />
+            <Skeleton data-testid="loading-skeleton" className="h-3 w-full" />
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (error && !repos) {
+    return <ErrorAlert error={error} onRetry={onRetry} />;
+  }
+
+  if (!repos || repos.length === 0) {
+    return <p className="text-sm text-gray-500 italic">No repositories found.</p>;
+  }
+
+  const now = Date.now();
+  const cached = pages && now - pages.fetchedAt >= CACHE_HINT_AFTER;
+
+  return (
+    <div className="space-y-3">
+      <RepoListControls repos={repos} options={options} onChange={onOptionsChange} />
+      <div className="flex items-center justify-between gap-2 text-xs text-gray-400">
+        <p>
+          Showing {repos.length} of {totalCount ?? repos.length} repositories
+          {isFiltered(options) && ` — ${visible.length} match the filters`}
+        </p>
+        <div className="flex items-center gap-1 shrink-0">
+          {cached && !isLoading && (
+            <span>Cached {formatRelativeTime(new Date(pages.fetchedAt).toISOString(), now)}</span>
+          )}
+          <Button variant="ghost" size="sm" onClick={onRefresh} disabled={isLoading || isLoadingMore}>
+            {isLoading ? "Refreshing…" : "Refresh"}
+          </Button>
+        </div>
+      </div>
+      <div ref={containerRef} className="flex flex-col gap-3" style={{ paddingTop: before, paddingBottom: after }}>
+        {visible.slice(start, end).map((repo, offset) => (
+          <div key={repo.id} data-index={start + offset}>
+            <RepoCard repo={repo} onOpen={onOpenRepo} />
+          </div>
+        ))}
+      </div>
+      {visible.length === 0 && (
+        <p className="text-sm text-gray-500 italic">No loaded repositories match the filters.</p>
+      )}
+      {error && <ErrorAlert error={error} onRetry={onRetry} />}
+      {pages?.nextPage && !error && !isLoading && (
+        <div className="flex items-center justify-center gap-2">
+          {isLoadingMore ? (
+            <p className="text-xs text-gray-500" role="status">
+              Loading page {pages.nextPage}{pages.lastPage && ` of ${pages.lastPage}`}…
+            </p>
+          ) : (
+            <>
+              <Button variant="outline" size="sm" onClick={() => onLoadMore()}>Load more</Button>
+              <Button variant="ghost" size="sm" onClick={() => onLoadMore(true)}>Load all</Button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
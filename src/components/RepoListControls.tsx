@@ -0,0 +1,68 @@
+import { Input } from "@/components/ui/input";
+import type { Repo } from "@/lib/github-types";
+import { collectLanguages, collectTopics, type RepoListOptions, type RepoSortKey } from "@/lib/repo-filters";
+
+interface RepoListControlsProps {
+  repos: Repo[];
+  options: RepoListOptions;
+  onChange: (options: RepoListOptions) => void;
+}
+
+const selectClass = "border-input h-8 rounded-md border bg-transparent px-2 text-xs shadow-xs";
+
+export function RepoListControls({ repos, options, onChange }: RepoListControlsProps) {
+  const languages = collectLanguages(repos);
+  const topics = collectTopics(repos);
+  const set = <K extends keyof RepoListOptions>(key: K, value: RepoListOptions[K]) =>
+    onChange({ ...options, [key]: value });
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Input
+        value={options.text}
+        onChange={(e) => set("text", e.target.value)}
+        placeholder="Filter by name or description"
+        aria-label="Filter repositories"
+        className="h-8 flex-1 min-w-40 text-xs md:text-xs"
+      />
+      <select
+        aria-label="Sort repositories"
+        className={selectClass}
+        value={options.sort}
+        onChange={(e) => set("sort", e.target.value as RepoSortKey)}>
+        <option value="stars">Most stars</option>
+        <option value="forks">Most forks</option>
+        <option value="pushed">Recently pushed</option>
+        <option value="name">Name</option>
+      </select>
+      {languages.length > 0 && (
+        <select
+          aria-label="Filter by language"
+          className={selectClass}
+          value={options.language}
+          onChange={(e) => set("language", e.target.value)}>
+          <option value="">All languages</option>
+          {languages.map(language => <option key={language} value={language}>{language}</option>)}
+        </select>
+      )}
+      {topics.length > 0 && (
+        <select
+          aria-label="Filter by topic"
+          className={selectClass}
+          value={options.topic}
+          onChange={(e) => set("topic", e.target.value)}>
+          <option value="">All topics</option>
+          {topics.map(topic => <option key={topic} value={topic}>{topic}</option>)}
+        </select>
+      )}
+      <label className="flex items-center gap-1 text-xs text-gray-600">
+        <input type="checkbox" checked={options.hideForks} onChange={(e) => set("hideForks", e.target.checked)} />
+        Hide forks
+      </label>
+      <label className="flex items-center gap-1 text-xs text-gray-600">
+        <input type="checkbox" checked={options.hideArchived} onChange={(e) => set("hideArchived", e.target.checked)} />
+        Hide archived
+      </label>
+    </div>
+  );
+}
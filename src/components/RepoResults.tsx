@@ -0,0 +1,25 @@
+import { RepoCard } from "@/components/RepoCard";
+import { useExplorer } from "@/hooks/useExplorerStore";
+import { selectRepoResults } from "@/lib/explorer-store";
+
+/** A page of repository search results; each owner leads back into the user explorer. */
+export function RepoResults() {
+  const { state, dispatch, actions } = useExplorer();
+
+  return (
+    <ul className="w-full space-y-3" aria-label="Repositories">
+      {selectRepoResults(state).map((repo, index) => (
+        <li
+          key={repo.id}
+          aria-current={index === state.cursor || undefined}
+          className="aria-[current]:rounded-lg aria-[current]:ring-2 aria-[current]:ring-blue-400">
+          <RepoCard
+            repo={repo}
+            onOpen={(next) => dispatch({ type: "detail/opened", repo: next })}
+            onOpenOwner={actions.openUser}
+          />
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,69 @@
+import { Input } from "@/components/ui/input";
+import { QueryPreview } from "@/components/QueryPreview";
+import type { SearchReposSort, SortOrder } from "@/lib/github-types";
+import { emptyRepoFilters, isValidRange, type RepoSearchFilters } from "@/lib/search-query";
+
+interface RepoSearchFiltersPanelProps {
+  filters: RepoSearchFilters;
+  onChange: (filters: RepoSearchFilters) => void;
+  effectiveQuery: string;
+}
+
+const selectClass = "border-input h-9 w-full rounded-md border bg-transparent px-2 text-sm shadow-xs";
+
+/** Qualifiers and sorting for repository search; the counterpart of `SearchFilters`. */
+export function RepoSearchFiltersPanel({ filters, onChange, effectiveQuery }: RepoSearchFiltersPanelProps) {
+  const set = <K extends keyof RepoSearchFilters>(key: K, value: RepoSearchFilters[K]) =>
+    onChange({ ...filters, [key]: value });
+
+  const textField = (key: "language" | "stars" | "topic" | "pushed", label: string, placeholder: string) => {
+    const invalid = (key === "stars" || key === "pushed") && !isValidRange(filters[key]);
+    return (
+      <label className="text-xs text-gray-600 space-y-1">
+        <span>{label}</span>
+        <Input
+          value={filters[key]}
+          placeholder={placeholder}
+          aria-invalid={invalid || undefined}
+          onChange={(e) => set(key, e.target.value)}
+        />
+      </label>
+    );
+  };
+
+  return (
+    <div className="w-full rounded-lg border bg-white p-4 shadow-sm space-y-3 mb-4">
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+        {textField("language", "Language", "e.g. TypeScript")}
+        {textField("stars", "Stars", "e.g. >1000 or 10..50")}
+        {textField("topic", "Topic", "e.g. cli")}
+        {textField("pushed", "Pushed", "e.g. >2024-01-01")}
+        <label className="text-xs text-gray-600 space-y-1">
+          <span>Sort by</span>
+          <select
+            className={selectClass}
+            value={filters.sort}
+            onChange={(e) => set("sort", e.target.value as SearchReposSort | "")}>
+            <option value="">Best match</option>
+            <option value="stars">Stars</option>
+            <option value="forks">Forks</option>
+            <option value="help-wanted-issues">Help wanted issues</option>
+            <option value="updated">Recently updated</option>
+          </select>
+        </label>
+        <label className="text-xs text-gray-600 space-y-1">
+          <span>Order</span>
+          <select
+            className={selectClass}
+            value={filters.order}
+            disabled={!filters.sort}
+            onChange={(e) => set("order", e.target.value as SortOrder)}>
+            <option value="desc">Descending</option>
+            <option value="asc">Ascending</option>
+          </select>
+        </label>
+      </div>
+      <QueryPreview query={effectiveQuery} onReset={() => onChange(emptyRepoFilters)} />
+    </div>
+  );
+}
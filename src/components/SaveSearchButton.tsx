@@ -0,0 +1,62 @@
+import { useState, type FormEvent } from "react";
+import { BookmarkPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useSearchHistory } from "@/hooks/useSearchHistory";
+import { buildSearchRequest, type SearchInput } from "@/lib/search-query";
+
+interface SaveSearchButtonProps {
+  /** The search as currently typed and filtered. */
+  input: SearchInput;
+}
+
+/** Names the current search, qualifiers included, and keeps it among the saved searches. */
+export function SaveSearchButton({ input }: SaveSearchButtonProps) {
+  const { save } = useSearchHistory();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const q = buildSearchRequest(input).q;
+
+  const submit = (e: FormEvent) => {
+    e.preventDefault();
+    save(name.trim() || q, input);
+    setName("");
+    setOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <Button
+        variant="outline"
+        size="icon"
+        aria-label="Save query"
+        aria-expanded={open}
+        title="Save query"
+        disabled={!q}
+        onClick={() => setOpen(prev => !prev)}>
+        <BookmarkPlus />
+      </Button>
+      {open && q && (
+        <form
+          role="dialog"
+          aria-label="Save query"
+          onSubmit={submit}
+          className="absolute right-0 z-20 mt-2 w-72 space-y-2 rounded-lg border bg-white p-3 shadow-lg">
+          <label htmlFor="saved-search-name" className="block text-sm font-medium">Name</label>
+          <Input
+            id="saved-search-name"
+            autoFocus
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={q}
+          />
+          <p className="text-xs text-gray-500 break-all">Saves <code>{q}</code></p>
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="ghost" size="sm" onClick={() => setOpen(false)}>Cancel</Button>
+            <Button type="submit" size="sm">Save</Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { useId, useState, type KeyboardEvent, type RefObject } from "react";
+import { Input } from "@/components/ui/input";
+import { SearchSuggestions } from "@/components/SearchSuggestions";
+import { useExplorer } from "@/hooks/useExplorerStore";
+import { useSearchHistory } from "@/hooks/useSearchHistory";
+import { selectDraft, selectUsers } from "@/lib/explorer-store";
+import { restoreInput } from "@/lib/search-history";
+import { buildSuggestions, suggestionId, type Suggestion } from "@/lib/suggestions";
+
+interface SearchBarProps {
+  inputRef: RefObject<HTMLInputElement>;
+}
+
+/**
+ * The search input, as a combobox over matching users and saved and recent searches. Arrow keys move
+ * through the options while focus stays in the input; Enter picks the highlighted one or searches.
+ */
+export function SearchBar({ inputRef }: SearchBarProps) {
+  const { state, dispatch, actions } = useExplorer();
+  const { history, saved, removeEntry, clearHistory, removeSaved } = useSearchHistory();
+  const listId = useId();
+  const [open, setOpen] = useState(false);
+  const [active, setActive] = useState(-1);
+
+  // Logins come from the debounced search already running for the typed term, so suggesting them
+  // costs no extra request; until that search settles only saved and recent searches are offered.
+  const settled = state.mode === "users" && state.committed.term.trim() === state.term.trim();
+  const suggestions = buildSuggestions({
+    term: state.term,
+    users: settled ? selectUsers(state) : [],
+    saved,
+    history,
+  });
+  const expanded = open && suggestions.length > 0;
+  const activeIndex = expanded && active < suggestions.length ? active : -1;
+
+  const close = () => {
+    setOpen(false);
+    setActive(-1);
+  };
+
+  const select = (suggestion: Suggestion) => {
+    if (suggestion.kind === "user") {
+      actions.openUser(suggestion.user.login);
+    } else {
+      actions.rerun(restoreInput(suggestion.kind === "saved" ? suggestion.search : suggestion.entry));
+    }
+    close();
+  };
+
+  const remove = (suggestion: Suggestion) => {
+    if (suggestion.kind === "saved") removeSaved(suggestion.search.id);
+    if (suggestion.kind === "recent") removeEntry(suggestion.entry);
+  };
+
+  const move = (step: number) => {
+    setOpen(true);
+    if (suggestions.length === 0) return;
+    const from = expanded ? activeIndex : -1;
+    setActive(from === -1 && step < 0 ? suggestions.length - 1 : (from + step + suggestions.length) % suggestions.length);
+  };
+
+  const onKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case "ArrowDown":
+      case "ArrowUp":
+        e.preventDefault();
+        move(e.key === "ArrowDown" ? 1 : -1);
+        break;
+      case "Enter":
+        e.preventDefault();
+        if (activeIndex >= 0) {
+          select(suggestions[activeIndex]);
+        } else {
+          // Searches right away instead of waiting out the debounce, and remembers the search.
+          actions.submit(selectDraft(state));
+          close();
+        }
+        break;
+      case "Escape":
+        if (expanded) e.preventDefault();
+        close();
+        break;
+    }
+  };
+
+  const clear = () => {
+    dispatch({ type: "input/changed", term: "" });
+    actions.clear();
+    inputRef.current?.focus();
+  };
+
+  return (
+    <div className="w-full max-w-lg relative mb-2">
+      <Input
+        ref={inputRef}
+        role="combobox"
+        aria-expanded={expanded}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={activeIndex >= 0 ? suggestionId(listId, activeIndex) : undefined}
+        value={state.term}
+        onChange={(e) => {
+          dispatch({ type: "input/changed", term: e.target.value });
+          setOpen(true);
+          setActive(-1);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={close}
+        onKeyDown={onKeyDown}
+        placeholder={state.mode === "repos" ? "Search repositories" : "Enter GitHub username"}
+        className="w-full pr-10"
+      />
+      {state.term && (
+        <button
+          onClick={clear}
+          className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
+          aria-label="Clear input"
+        >
+          ✕
+        </button>
+      )}
+      {expanded && (
+        <SearchSuggestions
+          id={listId}
+          suggestions={suggestions}
+          activeIndex={activeIndex}
+          term={state.term}
+          onSelect={select}
+          onHover={setActive}
+          onRemove={remove}
+          onClearHistory={clearHistory}
+        />
+      )}
+    </div>
+  );
+}
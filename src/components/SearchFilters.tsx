@@ -0,0 +1,79 @@
+import { Input } from "@/components/ui/input";
+import { QueryPreview } from "@/components/QueryPreview";
+import type { SearchUsersSort, SortOrder } from "@/lib/github-types";
+import { emptyFilters, isValidRange, type AccountFilter, type UserSearchFilters } from "@/lib/search-query";
+
+interface SearchFiltersProps {
+  filters: UserSearchFilters;
+  onChange: (filters: UserSearchFilters) => void;
+  effectiveQuery: string;
+}
+
+const selectClass = "border-input h-9 w-full rounded-md border bg-transparent px-2 text-sm shadow-xs";
+
+export function SearchFilters({ filters, onChange, effectiveQuery }: SearchFiltersProps) {
+  const set = <K extends keyof UserSearchFilters>(key: K, value: UserSearchFilters[K]) =>
+    onChange({ ...filters, [key]: value });
+
+  const textField = (key: "location" | "language" | "followers" | "repos" | "created", label: string, placeholder: string) => {
+    const invalid = key !== "location" && key !== "language" && !isValidRange(filters[key]);
+    return (
+      <label className="text-xs text-gray-600 space-y-1">
+        <span>{label}</span>
+        <Input
+          value={filters[key]}
+          placeholder={placeholder}
+          aria-invalid={invalid || undefined}
+          onChange={(e) => set(key, e.target.value)}
+        />
+      </label>
+    );
+  };
+
+  return (
+    <div className="w-full rounded-lg border bg-white p-4 shadow-sm space-y-3 mb-4">
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+        <label className="text-xs text-gray-600 space-y-1">
+          <span>Account type</span>
+          <select
+            className={selectClass}
+            value={filters.type}
+            onChange={(e) => set("type", e.target.value as AccountFilter)}>
+            <option value="">Any</option>
+            <option value="user">Users</option>
+            <option value="org">Organizations</option>
+          </select>
+        </label>
+        {textField("location", "Location", "e.g. Berlin")}
+        {textField("language", "Language", "e.g. TypeScript")}
+        {textField("followers", "Followers", "e.g. >100 or 10..50")}
+        {textField("repos", "Repositories", "e.g. >20")}
+        {textField("created", "Joined", "e.g. <2015-01-01")}
+        <label className="text-xs text-gray-600 space-y-1">
+          <span>Sort by</span>
+          <select
+            className={selectClass}
+            value={filters.sort}
+            onChange={(e) => set("sort", e.target.value as SearchUsersSort | "")}>
+            <option value="">Best match</option>
+            <option value="followers">Followers</option>
+            <option value="repositories">Repositories</option>
+            <option value="joined">Joined</option>
+          </select>
+        </label>
+        <label className="text-xs text-gray-600 space-y-1">
+          <span>Order</span>
+          <select
+            className={selectClass}
+            value={filters.order}
+            disabled={!filters.sort}
+            onChange={(e) => set("order", e.target.value as SortOrder)}>
+            <option value="desc">Descending</option>
+            <option value="asc">Ascending</option>
+          </select>
+        </label>
+      </div>
+      <QueryPreview query={effectiveQuery} onReset={() => onChange(emptyFilters)} />
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import clsx from "clsx";
+import { BookMarked, Users } from "lucide-react";
+import { useExplorer } from "@/hooks/useExplorerStore";
+import type { SearchMode } from "@/lib/search-query";
+
+const modes: { value: SearchMode; label: string; Icon: typeof Users }[] = [
+  { value: "users", label: "Users", Icon: Users },
+  { value: "repos", label: "Repositories", Icon: BookMarked },
+];
+
+/** Switches the search bar between GitHub user search and repository search. */
+export function SearchModeToggle() {
+  const { state, actions } = useExplorer();
+
+  return (
+    <div role="group" aria-label="Search mode" className="mb-2 inline-flex rounded-md border bg-white p-0.5 shadow-xs">
+      {modes.map(({ value, label, Icon }) => (
+        <button
+          key={value}
+          type="button"
+          aria-pressed={state.mode === value}
+          onClick={() => state.mode !== value && actions.switchMode(value)}
+          className={clsx("flex items-center gap-1.5 rounded px-3 py-1 text-sm",
+            state.mode === value ? "bg-blue-500 text-white" : "text-gray-600 hover:bg-gray-100")}>
+          <Icon size={14} />
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import type { ReactNode } from "react";
+import clsx from "clsx";
+import { BookMarked, Clock, X } from "lucide-react";
+import { formatRelativeTime } from "@/lib/format";
+import { suggestionId, suggestionKey, type Suggestion } from "@/lib/suggestions";
+
+interface SearchSuggestionsProps {
+  /** Id of the listbox, referenced by the combobox's `aria-controls`. */
+  id: string;
+  suggestions: Suggestion[];
+  /** Index of the option highlighted from the keyboard, or -1. */
+  activeIndex: number;
+  /** What is typed, highlighted inside matching logins. */
+  term: string;
+  onSelect: (suggestion: Suggestion) => void;
+  onHover: (index: number) => void;
+  onRemove: (suggestion: Suggestion) => void;
+  onClearHistory: () => void;
+}
+
+/**
+ * The listbox under the search bar: matching users, saved searches and recent searches. Focus stays
+ * in the input, which moves the highlighted option; see `SearchBar`.
+ */
+export function SearchSuggestions({
+  id, suggestions, activeIndex, term, onSelect, onHover, onRemove, onClearHistory,
+}: SearchSuggestionsProps) {
+  const groups: { kind: Suggestion["kind"]; label: string; action?: ReactNode }[] = [
+    { kind: "user", label: "Users" },
+    { kind: "saved", label: "Saved searches" },
+    {
+      kind: "recent",
+      label: "Recent searches",
+      action: (
+        <button type="button" tabIndex={-1} onClick={onClearHistory} className="text-xs text-blue-600 hover:underline">
+          Clear history
+        </button>
+      ),
+    },
+  ];
+
+  return (
+    <div
+      id={id}
+      role="listbox"
+      aria-label="Suggestions"
+      // Keeps focus in the search bar, which would otherwise blur and close the list before the click lands.
+      onMouseDown={(e) => e.preventDefault()}
+      className="absolute inset-x-0 top-full z-20 mt-1 max-h-96 space-y-2 overflow-y-auto rounded-lg border bg-white p-2 text-sm shadow-lg">
+      {groups.map(({ kind, label, action }) => {
+        const options = suggestions.flatMap((suggestion, index) => suggestion.kind === kind ? [{ suggestion, index }] : []);
+        if (options.length === 0) return null;
+        return (
+          <div key={kind} role="group" aria-label={label}>
+            <div className="flex items-center justify-between px-2 py-1">
+              <span aria-hidden className="text-xs font-medium text-gray-500">{label}</span>
+              {action}
+            </div>
+            {options.map(({ suggestion, index }) => (
+              <div
+                key={suggestionKey(suggestion)}
+                id={suggestionId(id, index)}
+                role="option"
+                // The highlighted part of a login would otherwise be read as a separate word.
+                aria-label={suggestion.kind === "user" ? suggestion.user.login : undefined}
+                aria-selected={index === activeIndex}
+                onClick={() => onSelect(suggestion)}
+                onMouseMove={() => index !== activeIndex && onHover(index)}
+                className={clsx("flex cursor-pointer items-center gap-2 rounded px-2 py-1.5",
+                  index === activeIndex && "bg-blue-50")}>
+                <SuggestionContent suggestion={suggestion} term={term} />
+                {suggestion.kind !== "user" && (
+                  <button
+                    type="button"
+                    tabIndex={-1}
+                    aria-label={suggestion.kind === "saved"
+                      ? `Delete ${suggestion.search.name}`
+                      : `Remove ${suggestion.entry.request.q} from history`}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onRemove(suggestion);
+                    }}
+                    className="p-1 text-gray-300 hover:text-gray-600">
+                    <X size={12} />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function SuggestionContent({ suggestion, term }: { suggestion: Suggestion; term: string }) {
+  switch (suggestion.kind) {
+    case "user":
+      return (
+        <>
+          <img src={suggestion.user.avatar_url} alt="" loading="lazy" className="size-6 shrink-0 rounded-full bg-gray-100" />
+          <span className="truncate"><Highlight text={suggestion.user.login} term={term} /></span>
+          {suggestion.user.type === "Organization" && <span className="ml-auto text-xs text-gray-400">organization</span>}
+        </>
+      );
+    case "saved":
+      return (
+        <>
+          <BookMarked size={14} className="shrink-0 text-blue-500" />
+          <span className="truncate">{suggestion.search.name}</span>
+          <Detail search={suggestion.search.request.mode}>{suggestion.search.request.q}</Detail>
+        </>
+      );
+    case "recent":
+      return (
+        <>
+          <Clock size={14} className="shrink-0 text-gray-400" />
+          <span className="truncate">{suggestion.entry.request.q}</span>
+          <Detail search={suggestion.entry.request.mode}>{formatRelativeTime(suggestion.entry.searchedAt)}</Detail>
+        </>
+      );
+  }
+}
+
+function Detail({ search, children }: { search: "users" | "repos"; children: ReactNode }) {
+  return (
+    <span className="ml-auto flex min-w-0 shrink-0 gap-2 text-xs text-gray-400">
+      {search === "repos" && <span>repositories</span>}
+      <span className="truncate">{children}</span>
+    </span>
+  );
+}
+
+/** `text` with the first case-insensitive occurrence of `term` marked. */
+function Highlight({ text, term }: { text: string; term: string }) {
+  const start = term.trim() ? text.toLowerCase().indexOf(term.trim().toLowerCase()) : -1;
+  if (start < 0) return <>{text}</>;
+  const end = start + term.trim().length;
+  return (
+    <>
+      {text.slice(0, start)}
+      <mark className="bg-transparent font-semibold text-inherit">{text.slice(start, end)}</mark>
+      {text.slice(end)}
+    </>
+  );
+}
@@ -0,0 +1,79 @@
+import { useState } from "react";
+import { Settings } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useLocalStorage } from "@/hooks/useLocalStorage";
+import { STORAGE_KEYS } from "@/lib/storage";
+import type { RepoPrefetch } from "@/lib/repo-pages";
+
+export function SettingsPanel() {
+  const [open, setOpen] = useState(false);
+  const [token, setToken] = useLocalStorage<string | null>(STORAGE_KEYS.token, null);
+  const [draft, setDraft] = useState("");
+  const [prefetch, setPrefetch] = useLocalStorage<RepoPrefetch>(STORAGE_KEYS.prefetch, "hover");
+
+  const save = () => {
+    setToken(draft.trim() || null);
+    setDraft("");
+  };
+
+  return (
+    <div className="relative">
+      <Button
+        variant="ghost"
+        size="icon"
+        aria-label="Settings"
+        aria-expanded={open}
+        onClick={() => setOpen(prev => !prev)}>
+        <Settings />
+      </Button>
+      {open && (
+        <div
+          role="dialog"
+          aria-label="Settings"
+          className="absolute right-0 z-10 mt-2 w-80 rounded-lg border bg-white p-4 shadow-lg space-y-3">
+          <label htmlFor="github-token" className="block text-sm font-medium">
+            Personal access token
+          </label>
+          <Input
+            id="github-token"
+            type="password"
+            autoComplete="off"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder={token ? "A token is saved" : "ghp_…"}
+          />
+          <p className="text-xs text-gray-500">
+            Stored only in this browser and sent as an Authorization header to api.github.com.
+            Authenticated requests get 30 searches/minute and 5,000 requests/hour.
+          </p>
+          <div className="flex justify-end gap-2">
+            {token && (
+              <Button variant="outline" size="sm" onClick={() => setToken(null)}>
+                Remove token
+              </Button>
+            )}
+            <Button size="sm" disabled={!draft.trim()} onClick={save}>
+              Save token
+            </Button>
+          </div>
+          <label htmlFor="prefetch-repos" className="block text-sm font-medium border-t pt-3">
+            Prefetch repositories
+          </label>
+          <select
+            id="prefetch-repos"
+            className="border-input h-9 w-full rounded-md border bg-transparent px-2 text-sm shadow-xs"
+            value={prefetch}
+            onChange={(e) => setPrefetch(e.target.value as RepoPrefetch)}>
+            <option value="off">Off</option>
+            <option value="hover">When hovering a user</option>
+            <option value="background">For every result in the background</option>
+          </select>
+          <p className="text-xs text-gray-500">
+            Background prefetch loads every user on the page and uses more of the rate limit.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { Fragment, useEffect, useRef } from "react";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { formatKey, type Shortcut } from "@/lib/shortcuts";
+
+interface ShortcutHelpProps {
+  shortcuts: Shortcut[];
+  onClose: () => void;
+}
+
+/** Overlay listing the keyboard shortcuts, opened with `?`. */
+export function ShortcutHelp({ shortcuts, onClose }: ShortcutHelpProps) {
+  const dialog = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    dialog.current?.focus();
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape" || e.key === "?") onClose();
+    };
+    document.addEventListener("keydown", onKeyDown);
+    return () => document.removeEventListener("keydown", onKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/30" aria-hidden onClick={onClose} />
+      <div
+        ref={dialog}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcut-help-title"
+        tabIndex={-1}
+        className="relative w-full max-w-sm rounded-lg bg-white p-4 shadow-xl outline-none">
+        <div className="mb-3 flex items-center justify-between">
+          <h2 id="shortcut-help-title" className="text-lg font-bold">Keyboard shortcuts</h2>
+          <Button variant="ghost" size="icon" onClick={onClose} aria-label="Close shortcuts">
+            <X />
+          </Button>
+        </div>
+        <dl className="grid grid-cols-[auto_1fr] items-center gap-x-4 gap-y-2 text-sm">
+          {shortcuts.map((shortcut) => (
+            <Fragment key={shortcut.keys.join()}>
+              <dt className="flex gap-1">
+                {shortcut.keys.map((key) => (
+                  <kbd key={key} className="rounded border bg-gray-50 px-1.5 py-0.5 font-mono text-xs">{formatKey(key)}</kbd>
+                ))}
+              </dt>
+              <dd className="text-gray-600">{shortcut.description}</dd>
+            </Fragment>
+          ))}
+        </dl>
+      </div>
+    </div>
+  );
+}
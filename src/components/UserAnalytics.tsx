@@ -0,0 +1,85 @@
+import { useState, type ReactNode } from "react";
+import { BarChart3, ChevronDown, GitFork, Star } from "lucide-react";
+import clsx from "clsx";
+import { BarChart } from "@/components/charts/BarChart";
+import { ColumnChart } from "@/components/charts/ColumnChart";
+import { DonutChart } from "@/components/charts/DonutChart";
+import { analyzeRepos } from "@/lib/analytics";
+import type { Repo } from "@/lib/github-types";
+import { formatCount } from "@/lib/format";
+
+interface UserAnalyticsProps {
+  repos: Repo[];
+  /** Public repo count from the profile, to say when the charts only cover part of them. */
+  totalCount?: number;
+}
+
+/** Totals and charts over a user's loaded repositories; the charts fold away until asked for. */
+export function UserAnalytics({ repos, totalCount }: UserAnalyticsProps) {
+  const [open, setOpen] = useState(false);
+  const { summary, languages, starsPerRepo, createdPerYear } = analyzeRepos(repos);
+  const partial = totalCount !== undefined && repos.length < totalCount;
+
+  return (
+    <section aria-label="Repository analytics" className="mb-4 rounded-lg border bg-gray-50 p-3">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm">
+        <span className="flex items-center gap-1">
+          <Star size={14} className="text-yellow-500" />
+          {formatCount(summary.stars)} total stars
+        </span>
+        <span className="flex items-center gap-1">
+          <GitFork size={14} />
+          {formatCount(summary.forks)} total forks
+        </span>
+        {partial && (
+          <span className="text-xs text-gray-400">
+            Based on {summary.repoCount} of {totalCount} repositories
+          </span>
+        )}
+        <button
+          type="button"
+          aria-expanded={open}
+          onClick={() => setOpen(!open)}
+          className="ml-auto flex items-center gap-1 text-xs text-blue-600 hover:underline">
+          <BarChart3 size={14} />
+          {open ? "Hide charts" : "Show charts"}
+          <ChevronDown size={14} className={clsx("transition-transform", open && "rotate-180")} />
+        </button>
+      </div>
+      {open && (
+        <div className="mt-3 grid gap-4 sm:grid-cols-2">
+          <Chart title="Languages" empty={languages.length === 0 && "No languages detected."}>
+            <DonutChart data={languages} label="Language distribution" />
+          </Chart>
+          <Chart title="Stars per repository" empty={starsPerRepo.length === 0 && "No starred repositories yet."}>
+            <BarChart data={starsPerRepo} label="Stars per repository" />
+          </Chart>
+          <Chart title="Repositories created per year" className="sm:col-span-2">
+            <ColumnChart
+              data={createdPerYear}
+              label="Repositories created per year"
+              describe={({ label, value }) => `${label}: ${value} ${value === 1 ? "repository" : "repositories"}`}
+            />
+          </Chart>
+        </div>
+      )}
+    </section>
+  );
+}
+
+interface ChartProps {
+  title: string;
+  /** Shown instead of the chart when there is nothing to draw. */
+  empty?: string | false;
+  className?: string;
+  children: ReactNode;
+}
+
+function Chart({ title, empty, className, children }: ChartProps) {
+  return (
+    <figure className={clsx("space-y-2", className)}>
+      <figcaption className="text-xs font-semibold text-gray-700">{title}</figcaption>
+      {empty ? <p className="text-xs text-gray-500 italic">{empty}</p> : children}
+    </figure>
+  );
+}
@@ -0,0 +1,32 @@
+import { useEffect } from "react";
+import { UserAnalytics } from "@/components/UserAnalytics";
+import { UserProfile } from "@/components/UserProfile";
+import { UserRepoList } from "@/components/UserRepoList";
+import { useExplorer } from "@/hooks/useExplorerStore";
+import { selectRepoRequest } from "@/lib/explorer-store";
+
+interface UserDetailsProps {
+  login: string;
+}
+
+/** Profile, repository analytics and repositories of an expanded user; loads both the first time it opens. */
+export function UserDetails({ login }: UserDetailsProps) {
+  const { state, actions } = useExplorer();
+  const profile = state.profiles[login];
+  const repos = selectRepoRequest(state, login);
+
+  useEffect(() => {
+    actions.loadRepos(login);
+    if (profile === undefined) actions.loadProfile(login);
+  }, [login, profile, actions]);
+
+  return (
+    <>
+      <UserProfile profile={profile} />
+      {repos.pages && repos.pages.repos.length > 0 && (
+        <UserAnalytics repos={repos.pages.repos} totalCount={profile?.public_repos} />
+      )}
+      <UserRepoList login={login} totalCount={profile?.public_repos} />
+    </>
+  );
+}
@@ -0,0 +1,57 @@
+import { Building2, CalendarDays, Link as LinkIcon, MapPin, Users } from "lucide-react";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { User } from "@/lib/github-types";
+import { formatCount, formatDate, toExternalUrl } from "@/lib/format";
+
+interface UserProfileProps {
+  /** `undefined` while loading, `null` when the profile could not be loaded. */
+  profile?: User | null;
+}
+
+export function UserProfile({ profile }: UserProfileProps) {
+  if (profile === null) return null;
+
+  if (!profile) {
+    return (
+      <div className="mb-4 space-y-2">
+        <Skeleton data-testid="loading-skeleton-profile" className="h-4 w-1/3" />
+        <Skeleton data-testid="loading-skeleton-profile" className="h-3 w-2/3" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-4 space-y-2">
+      {(profile.name || profile.bio) && (
+        <div>
+          {profile.name && <p className="font-semibold text-base">{profile.name}</p>}
+          {profile.bio && <p className="text-sm text-gray-600">{profile.bio}</p>}
+        </div>
+      )}
+      <ul className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500">
+        {profile.company && (
+          <li className="flex items-center gap-1"><Building2 size={14} />{profile.company}</li>
+        )}
+        {profile.location && (
+          <li className="flex items-center gap-1"><MapPin size={14} />{profile.location}</li>
+        )}
+        {profile.blog && (
+          <li className="flex items-center gap-1">
+            <LinkIcon size={14} />
+            <a href={toExternalUrl(profile.blog)} target="_blank" rel="noopener noreferrer" className="hover:underline">
+              {profile.blog}
+            </a>
+          </li>
+        )}
+        <li className="flex items-center gap-1">
+          <Users size={14} />
+          <span>{formatCount(profile.followers)} followers · {formatCount(profile.following)} following</span>
+        </li>
+        <li className="flex items-center gap-1">
+          <CalendarDays size={14} />
+          <span>Joined {formatDate(profile.created_at)}</span>
+        </li>
+      </ul>
+    </div>
+  );
+}
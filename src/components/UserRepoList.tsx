@@ -0,0 +1,31 @@
+import { RepoList } from "@/components/RepoList";
+import { useExplorer } from "@/hooks/useExplorerStore";
+import { selectRepoOptions, selectRepoRequest } from "@/lib/explorer-store";
+
+interface UserRepoListProps {
+  login: string;
+  /** Public repository count from the profile, once it has loaded. */
+  totalCount?: number;
+}
+
+/** The repositories of a user or organization, wired to the store's paged loading and list options. */
+export function UserRepoList({ login, totalCount }: UserRepoListProps) {
+  const { state, dispatch, actions } = useExplorer();
+  const repos = selectRepoRequest(state, login);
+
+  return (
+    <RepoList
+      pages={repos.pages}
+      totalCount={totalCount}
+      isLoading={repos.status === "loading"}
+      isLoadingMore={repos.loadingMore}
+      error={repos.status === "error" ? repos.error : undefined}
+      options={selectRepoOptions(state, login)}
+      onOptionsChange={(options) => dispatch({ type: "repos/options-changed", login, options })}
+      onLoadMore={(all) => actions.loadMoreRepos(login, all)}
+      onRefresh={() => actions.refreshUser(login)}
+      onRetry={() => repos.failed === "more" ? actions.loadMoreRepos(login) : actions.loadRepos(login, true)}
+      onOpenRepo={(repo) => dispatch({ type: "detail/opened", repo })}
+    />
+  );
+}
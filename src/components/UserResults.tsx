@@ -0,0 +1,34 @@
+import { Accordion, AccordionContent, AccordionItem } from "@/components/ui/accordion";
+import { AccountTrigger } from "@/components/AccountTrigger";
+import { OrgView } from "@/components/OrgView";
+import { UserDetails } from "@/components/UserDetails";
+import { useExplorer } from "@/hooks/useExplorerStore";
+import { selectUsers } from "@/lib/explorer-store";
+
+/** A page of user search results, one accordion item each; which user is expanded lives in the store. */
+export function UserResults() {
+  const { state, dispatch } = useExplorer();
+  const { expanded, cursor } = state;
+
+  return (
+    <Accordion
+      type="single"
+      collapsible
+      className="w-full"
+      value={expanded ?? ""}
+      onValueChange={(value) => dispatch({ type: "user/expanded", login: value || null })}>
+      {selectUsers(state).map((user, index) => (
+        <AccordionItem
+          key={user.login}
+          value={user.login}
+          aria-current={index === cursor || undefined}
+          className="aria-[current]:rounded-md aria-[current]:ring-2 aria-[current]:ring-blue-400">
+          <AccountTrigger account={user} />
+          <AccordionContent>
+            {user.type === "Organization" ? <OrgView login={user.login} /> : <UserDetails login={user.login} />}
+          </AccordionContent>
+        </AccordionItem>
+      ))}
+    </Accordion>
+  );
+}
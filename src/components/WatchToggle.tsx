@@ -0,0 +1,32 @@
+import clsx from "clsx";
+import { Bookmark } from "lucide-react";
+import { useWatchlist } from "@/hooks/useWatchlist";
+import type { WatchItem } from "@/lib/watchlist";
+
+interface WatchToggleProps {
+  /** The entry added when switched on, e.g. from `watchUser` or `watchRepo`. */
+  item: WatchItem;
+  /** Name read out with the button, e.g. "octocat" or "octocat/hello". */
+  name: string;
+}
+
+/** Adds a user or repository to the watchlist, or takes it off again. */
+export function WatchToggle({ item, name }: WatchToggleProps) {
+  const watchlist = useWatchlist();
+  const watched = watchlist.isWatched(item);
+
+  return (
+    <button
+      type="button"
+      aria-pressed={watched}
+      aria-label={`Watch ${name}`}
+      title={watched ? "Remove from watchlist" : "Add to watchlist"}
+      onClick={(e) => {
+        e.stopPropagation();
+        watchlist.toggle(item);
+      }}
+      className={clsx("rounded p-1", watched ? "text-blue-600" : "text-gray-400 hover:text-gray-700")}>
+      <Bookmark size={16} className={clsx(watched && "fill-current")} />
+    </button>
+  );
+}
@@ -0,0 +1,277 @@
+import { useCallback, useEffect, useMemo, useRef, useState, type ChangeEvent } from "react";
+import clsx from "clsx";
+import { Bookmark, Download, RefreshCw, Upload, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ErrorAlert } from "@/components/ErrorAlert";
+import { useExplorer } from "@/hooks/useExplorerStore";
+import { useWatchlist, useWatchlistRefresh } from "@/hooks/useWatchlist";
+import { downloadFile } from "@/lib/export";
+import { formatCount, formatRelativeTime } from "@/lib/format";
+import type { DetailSection } from "@/lib/repo-details";
+import {
+  describeChanges,
+  hasChanges,
+  parseWatchlist,
+  serializeWatchlist,
+  watchKey,
+  type WatchChanges,
+  type WatchCurrent,
+  type WatchItem,
+} from "@/lib/watchlist";
+
+/** Header button that opens the watchlist; shows how many entries are on it. */
+export function WatchlistPanel() {
+  const { items } = useWatchlist();
+  const [open, setOpen] = useState(false);
+  const close = useCallback(() => setOpen(false), []);
+
+  return (
+    <>
+      <Button variant="ghost" size="sm" aria-expanded={open} onClick={() => setOpen(true)}>
+        <Bookmark />
+        Watchlist{items.length > 0 && ` (${items.length})`}
+      </Button>
+      {open && <WatchlistDrawer onClose={close} />}
+    </>
+  );
+}
+
+function WatchlistDrawer({ onClose }: { onClose: () => void }) {
+  const { dispatch, actions } = useExplorer();
+  const watchlist = useWatchlist();
+  const { items } = watchlist;
+  const { current, refresh } = useWatchlistRefresh(items);
+  const [importError, setImportError] = useState<string | null>(null);
+  const dialog = useRef<HTMLDivElement>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const loaded = useMemo(() => loadedOnly(current), [current]);
+  const changed = items.filter(item => {
+    const data = loaded[watchKey(item)];
+    return data && hasChanges(describeChanges(item, data));
+  });
+  const users = items.filter(item => item.kind === "user");
+  const repos = items.filter(item => item.kind === "repo");
+
+  // Entries added from search results have no stats yet; their first refresh becomes the baseline.
+  const { markSeen } = watchlist;
+  const unseen = items.some(item => !item.seen && loaded[watchKey(item)]);
+  useEffect(() => {
+    if (unseen) markSeen(loaded, true);
+  }, [unseen, loaded, markSeen]);
+
+  // Closing the drawer makes what it showed the baseline, so the next visit shows what changed since this one.
+  const seenOnClose = useRef({ loaded, markSeen });
+  seenOnClose.current = { loaded, markSeen };
+  useEffect(() => () => {
+    const { loaded: shown, markSeen: mark } = seenOnClose.current;
+    if (Object.keys(shown).length > 0) mark(shown);
+  }, []);
+
+  useEffect(() => {
+    dialog.current?.focus();
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", onKeyDown);
+    return () => document.removeEventListener("keydown", onKeyDown);
+  }, [onClose]);
+
+  const open = (item: WatchItem) => {
+    const data = current[watchKey(item)];
+    if (item.kind === "user") {
+      actions.openUser(item.login);
+    } else if (data?.status === "loaded" && data.data.kind === "repo") {
+      dispatch({ type: "detail/opened", repo: data.data.repo });
+    } else {
+      return;
+    }
+    onClose();
+  };
+
+  const importFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      watchlist.importItems(parseWatchlist(await readText(file)));
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : "The file could not be read.");
+    }
+  };
+
+  const exportList = () => {
+    const day = new Date().toISOString().slice(0, 10);
+    downloadFile(`github-watchlist-${day}.json`, serializeWatchlist(items), "application/json");
+  };
+
+  const renderGroup = (title: string, group: WatchItem[]) => group.length > 0 && (
+    <section aria-label={title} className="space-y-2">
+      <h3 className="text-sm font-semibold text-gray-700">{title}</h3>
+      <ul className="space-y-2">
+        {group.map((item) => {
+          const key = watchKey(item);
+          return (
+            <WatchRow
+              key={key}
+              item={item}
+              section={current[key]}
+              onOpen={() => open(item)}
+              onRemove={() => watchlist.remove(key)}
+              onRetry={refresh}
+            />
+          );
+        })}
+      </ul>
+    </section>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black/30" aria-hidden onClick={onClose} />
+      <div
+        ref={dialog}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="watchlist-title"
+        tabIndex={-1}
+        className="relative flex h-full w-full max-w-md flex-col overflow-y-auto bg-white shadow-xl outline-none">
+        <header className="sticky top-0 z-10 space-y-2 border-b bg-white p-4">
+          <div className="flex items-center justify-between gap-2">
+            <h2 id="watchlist-title" className="text-lg font-bold">Watchlist</h2>
+            <Button variant="ghost" size="icon" onClick={onClose} aria-label="Close watchlist">
+              <X />
+            </Button>
+          </div>
+          <div className="flex flex-wrap items-center gap-1">
+            <Button variant="outline" size="sm" onClick={refresh} disabled={items.length === 0}>
+              <RefreshCw />
+              Refresh
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => markSeen(loaded)} disabled={changed.length === 0}>
+              Mark as seen
+            </Button>
+            <Button variant="ghost" size="sm" onClick={exportList} disabled={items.length === 0}>
+              <Download />
+              Export list
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => fileInput.current?.click()}>
+              <Upload />
+              Import list
+            </Button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept="application/json,.json"
+              aria-label="Watchlist file"
+              className="hidden"
+              onChange={importFile}
+            />
+          </div>
+          {changed.length > 0 && (
+            <p className="text-xs text-gray-500">
+              {changed.length} {changed.length === 1 ? "entry has" : "entries have"} changed since you last looked.
+            </p>
+          )}
+          {importError && <p role="alert" className="text-xs text-red-600">{importError}</p>}
+        </header>
+
+        <div className="space-y-6 p-4">
+          {items.length === 0 ? (
+            <p className="text-sm text-gray-500 italic">
+              Nothing watched yet. Use the bookmark next to a user or repository to follow it here.
+            </p>
+          ) : (
+            <>
+              {renderGroup("Users", users)}
+              {renderGroup("Repositories", repos)}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface WatchRowProps {
+  item: WatchItem;
+  section?: DetailSection<WatchCurrent>;
+  onOpen: () => void;
+  onRemove: () => void;
+  onRetry: () => void;
+}
+
+function WatchRow({ item, section, onOpen, onRemove, onRetry }: WatchRowProps) {
+  const name = item.kind === "user" ? item.login : item.fullName;
+  const data = section?.status === "loaded" ? section.data : undefined;
+  const changes = data && describeChanges(item, data);
+
+  return (
+    <li className={clsx("rounded-lg border p-3 space-y-1", changes && hasChanges(changes) && "border-blue-300 bg-blue-50")}>
+      <div className="flex items-center gap-2">
+        {data?.kind === "user" && <img src={data.profile.avatar_url} alt="" className="size-6 rounded-full bg-gray-100" />}
+        <button
+          type="button"
+          onClick={onOpen}
+          disabled={item.kind === "repo" && !data}
+          className="truncate text-left font-medium hover:underline disabled:no-underline">
+          {name}
+        </button>
+        <button
+          type="button"
+          aria-label={`Stop watching ${name}`}
+          onClick={onRemove}
+          className="ml-auto text-gray-400 hover:text-gray-700">
+          <X size={14} />
+        </button>
+      </div>
+      {(!section || section.status === "loading") && <Skeleton data-testid="loading-skeleton-watch" className="h-3 w-2/3" />}
+      {section?.status === "error" && <ErrorAlert error={section.error} onRetry={onRetry} />}
+      {data && (
+        <p className="text-xs text-gray-500">
+          {data.kind === "user"
+            ? `${formatCount(data.profile.followers)} followers · ${formatCount(data.profile.public_repos)} public repos`
+            : `${formatCount(data.repo.stargazers_count)} stars · ${formatCount(data.repo.forks_count)} forks · ${formatCount(data.repo.open_issues_count)} open issues`}
+        </p>
+      )}
+      {changes && hasChanges(changes) && <ChangeList changes={changes} since={item.seenAt} />}
+    </li>
+  );
+}
+
+function ChangeList({ changes, since }: { changes: WatchChanges; since: string }) {
+  return (
+    <ul aria-label="Changes" className="flex flex-wrap gap-x-3 gap-y-1 text-xs">
+      {changes.stats.map(({ label, delta }) => (
+        <li key={label} className={delta > 0 ? "text-green-700" : "text-red-700"}>
+          {delta > 0 ? "+" : "−"}{formatCount(Math.abs(delta))} {label}
+        </li>
+      ))}
+      {changes.newRepos.length > 0 && (
+        <li className="text-blue-700">
+          New: {changes.newRepos.map(repo => repo.name).join(", ")}
+        </li>
+      )}
+      {changes.pushed && <li className="text-blue-700">New commits since {formatRelativeTime(since)}</li>}
+    </ul>
+  );
+}
+
+function loadedOnly(current: Record<string, DetailSection<WatchCurrent>>): Record<string, WatchCurrent> {
+  const loaded: Record<string, WatchCurrent> = {};
+  for (const [key, section] of Object.entries(current)) {
+    if (section.status === "loaded") loaded[key] = section.data;
+  }
+  return loaded;
+}
+
+/** File.text() is missing in some environments (jsdom among them); FileReader works everywhere. */
+function readText(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error("The file could not be read."));
+    reader.readAsText(file);
+  });
+}
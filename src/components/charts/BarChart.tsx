@@ -0,0 +1,31 @@
+import type { ChartDatum } from "@/lib/analytics";
+import { formatCount } from "@/lib/format";
+
+interface BarChartProps {
+  data: ChartDatum[];
+  /** Accessible name of the chart. */
+  label: string;
+  formatValue?: (value: number) => string;
+}
+
+/** Labelled horizontal bars scaled to the largest value. */
+export function BarChart({ data, label, formatValue = formatCount }: BarChartProps) {
+  const max = Math.max(0, ...data.map((datum) => datum.value));
+
+  return (
+    <ul aria-label={label} className="space-y-1 text-xs">
+      {data.map((datum) => (
+        <li key={datum.label} className="grid grid-cols-[minmax(0,8rem)_1fr_auto] items-center gap-2">
+          <span className="truncate text-gray-600" title={datum.label}>{datum.label}</span>
+          <span className="h-2 rounded-full bg-gray-100" aria-hidden>
+            <span
+              className="block h-full rounded-full bg-blue-500"
+              style={{ width: `${max > 0 ? (datum.value / max) * 100 : 0}%`, backgroundColor: datum.color }}
+            />
+          </span>
+          <span className="tabular-nums text-gray-500">{formatValue(datum.value)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
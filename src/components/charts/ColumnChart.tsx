@@ -0,0 +1,34 @@
+import type { ChartDatum } from "@/lib/analytics";
+
+interface ColumnChartProps {
+  data: ChartDatum[];
+  /** Accessible name of the chart. */
+  label: string;
+  /** Describes one column for screen readers and the hover tooltip, e.g. "2019: 4 repos". */
+  describe?: (datum: ChartDatum) => string;
+  height?: number;
+}
+
+/** Vertical columns along an axis, such as counts per year; labels thin out when there are many. */
+export function ColumnChart({ data, label, describe = (datum) => `${datum.label}: ${datum.value}`, height = 80 }: ColumnChartProps) {
+  const max = Math.max(0, ...data.map((datum) => datum.value));
+  const labelEvery = Math.ceil(data.length / 8);
+
+  return (
+    <ul aria-label={label} className="flex items-end gap-1" style={{ height: height + 16 }}>
+      {data.map((datum, i) => (
+        <li key={datum.label} className="flex min-w-0 flex-1 flex-col items-center gap-1" title={describe(datum)}>
+          <span className="sr-only">{describe(datum)}</span>
+          <span
+            aria-hidden
+            className="w-full rounded-t bg-blue-500"
+            style={{ height: max > 0 ? (datum.value / max) * height : 0, minHeight: datum.value > 0 ? 2 : 0, backgroundColor: datum.color }}
+          />
+          <span aria-hidden className="h-3 text-[10px] leading-3 text-gray-400">
+            {i % labelEvery === 0 && datum.label}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,51 @@
+import type { ChartDatum } from "@/lib/analytics";
+
+interface DonutChartProps {
+  data: ChartDatum[];
+  /** Accessible name of the chart and its legend. */
+  label: string;
+  size?: number;
+}
+
+const RADIUS = 15.9155; // circumference of 100, so dash lengths read as percentages
+const FALLBACK_COLOR = "#3b82f6";
+
+/** Shares of a whole as a ring, with a legend listing each slice and its percentage. */
+export function DonutChart({ data, label, size = 96 }: DonutChartProps) {
+  const total = data.reduce((sum, datum) => sum + datum.value, 0);
+  let offset = 0;
+
+  return (
+    <div className="flex items-center gap-4">
+      <svg viewBox="0 0 42 42" width={size} height={size} className="shrink-0 -rotate-90" aria-hidden>
+        <circle cx="21" cy="21" r={RADIUS} fill="none" stroke="#e5e7eb" strokeWidth="6" />
+        {total > 0 && data.map((datum) => {
+          const percent = (datum.value / total) * 100;
+          const slice = (
+            <circle
+              key={datum.label}
+              cx="21"
+              cy="21"
+              r={RADIUS}
+              fill="none"
+              stroke={datum.color ?? FALLBACK_COLOR}
+              strokeWidth="6"
+              strokeDasharray={`${percent} ${100 - percent}`}
+              strokeDashoffset={-offset}
+            />
+          );
+          offset += percent;
+          return slice;
+        })}
+      </svg>
+      <ul aria-label={label} className="space-y-0.5 text-xs text-gray-600">
+        {data.map((datum) => (
+          <li key={datum.label} className="flex items-center gap-1">
+            <span aria-hidden className="inline-block size-2 rounded-full" style={{ backgroundColor: datum.color ?? FALLBACK_COLOR }} />
+            {datum.label} {total > 0 ? Math.round((datum.value / total) * 100) : 0}%
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { useEffect, useState } from "react";
+
+/** Milliseconds left until `target` (epoch ms), re-rendering every `interval` until it passes. */
+export function useCountdown(target: number | null, interval = 1000): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (target === null) return;
+    setNow(Date.now());
+    const timer = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= target) clearInterval(timer);
+    }, interval);
+    return () => clearInterval(timer);
+  }, [target, interval]);
+
+  return target === null ? 0 : Math.max(0, target - now);
+}
@@ -0,0 +1,353 @@
+import { createContext, useContext, useEffect, useMemo, useReducer, useRef, type Dispatch } from "react";
+import { useGithubClient } from "@/hooks/useGithubClient";
+import { toAppError } from "@/lib/errors";
+import { isAbortError, type Page, type RequestOptions } from "@/lib/github";
+import type { Repo, SimpleUser } from "@/lib/github-types";
+import {
+  createExplorerState,
+  explorerReducer,
+  PER_PAGE,
+  selectAccountType,
+  selectMemberRequest,
+  selectRepoRequest,
+  selectRequest,
+  type ExplorerAction,
+  type ExplorerState,
+  type SearchResults,
+} from "@/lib/explorer-store";
+import {
+  buildSearchRequest,
+  emptyFilters,
+  type SearchInput,
+  type SearchMode,
+  type SearchRequest,
+} from "@/lib/search-query";
+import type { MemberRequest } from "@/lib/org";
+import { rememberSearch } from "@/lib/search-history";
+import type { RepoRequest } from "@/lib/repo-pages";
+import type { UrlState } from "@/lib/url-state";
+
+const REPOS_PER_PAGE = 100;
+const MEMBERS_PER_PAGE = 100;
+
+const requestKey = (request: SearchRequest) => JSON.stringify(request);
+
+type Restore = Partial<Pick<UrlState, "page" | "expanded">>;
+
+/** A list kept per login and loaded a page at a time: a user's repositories or an organization's members. */
+interface PagedSource<T> {
+  kind: "repos" | "members";
+  select: (state: ExplorerState, login: string) => RepoRequest | MemberRequest;
+  fetch: (login: string, page: number, options: RequestOptions) => Promise<Page<T>>;
+  /** Stores a fetched page; page 1 replaces whatever was loaded before. */
+  loaded: (login: string, pageNumber: number, page: Page<T>) => ExplorerAction;
+}
+
+/** The explorer's side effects; each one dispatches its progress to the store. */
+export interface ExplorerActions {
+  search(input: SearchInput, restore?: Restore): Promise<void>;
+  /** Whether `request` is the search whose results are already on screen. */
+  isCurrentSearch(request: SearchRequest): boolean;
+  fetchPage(request: SearchRequest, page: number): Promise<void>;
+  goToPage(page: number): void;
+  /** Drops the results; what is typed stays, since an empty debounced query may lag behind the input. */
+  clear(): void;
+  /** Switches between user and repository search, running the current term in the new mode right away. */
+  switchMode(mode: SearchMode): void;
+  /** Leaves the repository results for the user explorer, with `login` searched and expanded. */
+  openUser(login: string): void;
+  /**
+   * Runs what the user asked for explicitly, with Enter or the Search button, and remembers it in the
+   * recent history; searches that merely settle while typing are not remembered.
+   */
+  submit(input: SearchInput): void;
+  /** Puts a remembered search back into the search bar and filters, and runs it. */
+  rerun(input: SearchInput): void;
+  /** Applies a URL from the browser history, searching again only when the query changed. */
+  restore(url: UrlState): void;
+  loadProfile(login: string, refresh?: boolean): Promise<void>;
+  /**
+   * Loads the first page of a user's repos once, whether asked by expanding, hovering or prefetching.
+   * `refresh` starts over: it retries a failure or revalidates a cached copy.
+   */
+  loadRepos(login: string, refresh?: boolean): Promise<void>;
+  loadMoreRepos(login: string, all?: boolean): Promise<void>;
+  loadOrg(login: string, refresh?: boolean): Promise<void>;
+  /** Loads the first page of an organization's public members once, or again with `refresh`. */
+  loadMembers(login: string, refresh?: boolean): Promise<void>;
+  loadMoreMembers(login: string, all?: boolean): Promise<void>;
+  refreshUser(login: string): void;
+}
+
+export interface ExplorerStore {
+  state: ExplorerState;
+  dispatch: Dispatch<ExplorerAction>;
+  actions: ExplorerActions;
+}
+
+export const ExplorerContext = createContext<ExplorerStore | null>(null);
+
+export function useExplorer(): ExplorerStore {
+  const store = useContext(ExplorerContext);
+  if (!store) throw new Error("useExplorer must be used inside an ExplorerContext provider");
+  return store;
+}
+
+/** Creates the explorer store; the owner passes it down through `ExplorerContext`. */
+export function useExplorerStore(initial: UrlState): ExplorerStore {
+  const client = useGithubClient();
+  const [state, dispatch] = useReducer(explorerReducer, initial, createExplorerState);
+  // Read by the actions so their identity does not change with every response.
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  // Key of the request whose results are on screen, so the debounced effect
+  // does not repeat a search that was already run by the button or history.
+  const lastSearchKey = useRef("");
+  // In-flight requests by key ("search", "repos:<login>", "profile:<login>", "org:<login>",
+  // "members:<login>"). Starting a request aborts the previous one under the same key, and
+  // only the controller still registered under its key may write its response into state.
+  const requests = useRef(new Map<string, AbortController>());
+
+  const actions = useMemo<ExplorerActions>(() => {
+    const inFlight = requests.current;
+
+    const startRequest = (key: string) => {
+      inFlight.get(key)?.abort();
+      const controller = new AbortController();
+      inFlight.set(key, controller);
+      return controller;
+    };
+
+    const isCurrent = (key: string, controller: AbortController) =>
+      inFlight.get(key) === controller && !controller.signal.aborted;
+
+    const finishRequest = (key: string, controller: AbortController) => {
+      if (inFlight.get(key) === controller) inFlight.delete(key);
+    };
+
+    const abortRequests = () => {
+      inFlight.forEach(controller => controller.abort());
+      inFlight.clear();
+    };
+
+    const runSearch = async (
+      request: SearchRequest,
+      page: number,
+      signal: AbortSignal,
+    ): Promise<{ results: SearchResults; totalCount: number }> => {
+      if (request.mode === "repos") {
+        const { mode, ...params } = request;
+        const data = await client.searchRepos({ ...params, per_page: PER_PAGE, page }, { signal });
+        return { results: { mode, items: data.items || [] }, totalCount: data.total_count ?? 0 };
+      }
+      const { mode, ...params } = request;
+      const data = await client.searchUsers({ ...params, per_page: PER_PAGE, page }, { signal });
+      return { results: { mode, items: data.items || [] }, totalCount: data.total_count ?? 0 };
+    };
+
+    const fetchPage = async (request: SearchRequest, page: number) => {
+      const controller = startRequest("search");
+      const start = performance.now();
+      dispatch({ type: "search/started" });
+      try {
+        const { results, totalCount } = await runSearch(request, page, controller.signal);
+        if (!isCurrent("search", controller)) return;
+        dispatch({ type: "search/succeeded", page, results, totalCount, searchTime: performance.now() - start });
+      } catch (e) {
+        // An aborted request was superseded or its results were cleared; either way the state is not ours.
+        if (!isCurrent("search", controller) || isAbortError(e)) return;
+        dispatch({ type: "search/failed", error: toAppError(e, request.mode === "repos" ? "repo-search" : "search") });
+      } finally {
+        finishRequest("search", controller);
+        // Aborted with no search taking its place, as on unmount: nothing else will end the loading state.
+        if (controller.signal.aborted && !inFlight.has("search")) dispatch({ type: "search/aborted" });
+      }
+    };
+
+    const search = async (input: SearchInput, { page = 1, expanded = null }: Restore = {}) => {
+      const request = buildSearchRequest(input);
+      if (!request.q) return;
+      lastSearchKey.current = requestKey(request);
+      abortRequests();
+      dispatch({ type: "search/committed", input, page, expanded });
+      await fetchPage(request, page);
+    };
+
+    const isCurrentSearch = (request: SearchRequest) => requestKey(request) === lastSearchKey.current;
+
+    const goToPage = (page: number) => {
+      dispatch({ type: "page/changed", page });
+      if (!stateRef.current.pages[page]) fetchPage(selectRequest(stateRef.current), page);
+    };
+
+    const clear = () => {
+      lastSearchKey.current = "";
+      abortRequests();
+      dispatch({ type: "search/cleared" });
+    };
+
+    const switchMode = (mode: SearchMode) => {
+      dispatch({ type: "mode/changed", mode });
+      const { term, filters, repoFilters } = stateRef.current;
+      const input = { mode, term, filters, repoFilters };
+      if (buildSearchRequest(input).q) search(input);
+    };
+
+    const openUser = (login: string) => {
+      const input = { mode: "users" as const, term: login, filters: emptyFilters, repoFilters: stateRef.current.repoFilters };
+      dispatch({ type: "input/replaced", input });
+      rememberSearch(input);
+      search(input, { expanded: login });
+    };
+
+    const submit = (input: SearchInput) => {
+      const request = buildSearchRequest(input);
+      if (!request.q) return;
+      rememberSearch(input);
+      if (!isCurrentSearch(request)) search(input);
+    };
+
+    const rerun = (input: SearchInput) => {
+      dispatch({ type: "input/replaced", input });
+      rememberSearch(input);
+      search(input);
+    };
+
+    const restore = (url: UrlState) => {
+      dispatch({ type: "input/replaced", input: url });
+      const next = buildSearchRequest(url);
+      if (next.q) rememberSearch(url);
+      if (!next.q) {
+        clear();
+      } else if (isCurrentSearch(next)) {
+        dispatch({ type: "page/changed", page: url.page });
+        dispatch({ type: "user/expanded", login: url.expanded });
+        if (!stateRef.current.pages[url.page]) fetchPage(next, url.page);
+      } else {
+        search(url, url);
+      }
+    };
+
+    const loadProfile = async (login: string, refresh = false) => {
+      const key = `profile:${login}`;
+      if (!refresh && inFlight.has(key)) return;
+      const controller = startRequest(key);
+      try {
+        const profile = await client.getUser(login, { signal: controller.signal, refresh });
+        if (isCurrent(key, controller)) dispatch({ type: "profile/loaded", login, profile });
+      } catch {
+        if (isCurrent(key, controller)) dispatch({ type: "profile/loaded", login, profile: null });
+      } finally {
+        finishRequest(key, controller);
+      }
+    };
+
+    /** Organizations have their own repo listing, which takes org-specific filters. */
+    const listRepos = (login: string) =>
+      selectAccountType(stateRef.current, login) === "Organization" ? client.listOrgRepos : client.listUserRepos;
+
+    const loadOrg = async (login: string, refresh = false) => {
+      const key = `org:${login}`;
+      if (!refresh && inFlight.has(key)) return;
+      const controller = startRequest(key);
+      try {
+        const org = await client.getOrg(login, { signal: controller.signal, refresh });
+        if (isCurrent(key, controller)) dispatch({ type: "org/loaded", login, org });
+      } catch {
+        if (isCurrent(key, controller)) dispatch({ type: "org/loaded", login, org: null });
+      } finally {
+        finishRequest(key, controller);
+      }
+    };
+
+    /** Loads the first page of `login`'s list once, or again with `refresh`. */
+    const loadFirstPage = async <T,>(source: PagedSource<T>, login: string, refresh: boolean) => {
+      const key = `${source.kind}:${login}`;
+      const { status } = source.select(stateRef.current, login);
+      if (!refresh && (inFlight.has(key) || status !== "idle")) return;
+      const controller = startRequest(key);
+      dispatch({ type: `${source.kind}/started`, login });
+      try {
+        const page = await source.fetch(login, 1, { signal: controller.signal, refresh });
+        if (isCurrent(key, controller)) dispatch(source.loaded(login, 1, page));
+      } catch (e) {
+        if (!isCurrent(key, controller) || isAbortError(e)) return;
+        dispatch({ type: `${source.kind}/failed`, login, error: toAppError(e, source.kind) });
+      } finally {
+        finishRequest(key, controller);
+      }
+    };
+
+    /** Appends the next page of `login`'s list, or every remaining page with `all`. */
+    const loadMorePages = async <T,>(source: PagedSource<T>, login: string, all: boolean) => {
+      let next = source.select(stateRef.current, login).pages?.nextPage ?? null;
+      if (!next) return;
+      const key = `${source.kind}:${login}`;
+      const controller = startRequest(key);
+      dispatch({ type: `${source.kind}/more-started`, login });
+      try {
+        while (next) {
+          const pageNumber: number = next;
+          const page = await source.fetch(login, pageNumber, { signal: controller.signal });
+          if (!isCurrent(key, controller)) return;
+          dispatch(source.loaded(login, pageNumber, page));
+          next = all ? page.nextPage : null;
+        }
+        dispatch({ type: `${source.kind}/more-finished`, login });
+      } catch (e) {
+        if (!isCurrent(key, controller) || isAbortError(e)) return;
+        dispatch({ type: `${source.kind}/failed`, login, error: toAppError(e, source.kind) });
+      } finally {
+        finishRequest(key, controller);
+      }
+    };
+
+    const repoPages: PagedSource<Repo> = {
+      kind: "repos",
+      select: selectRepoRequest,
+      fetch: (login, page, options) => listRepos(login)(login, { per_page: REPOS_PER_PAGE, page }, options),
+      loaded: (login, pageNumber, page) => pageNumber === 1
+        ? { type: "repos/loaded", login, page }
+        : { type: "repos/page-loaded", login, pageNumber, page },
+    };
+
+    const memberPages: PagedSource<SimpleUser> = {
+      kind: "members",
+      select: selectMemberRequest,
+      fetch: (login, page, options) => client.listOrgMembers(login, { per_page: MEMBERS_PER_PAGE, page }, options),
+      loaded: (login, pageNumber, page) => ({ type: "members/loaded", login, pageNumber, page }),
+    };
+
+    const loadRepos = (login: string, refresh = false) => loadFirstPage(repoPages, login, refresh);
+    const loadMoreRepos = (login: string, all = false) => loadMorePages(repoPages, login, all);
+    const loadMembers = (login: string, refresh = false) => loadFirstPage(memberPages, login, refresh);
+    const loadMoreMembers = (login: string, all = false) => loadMorePages(memberPages, login, all);
+
+    const refreshUser = (login: string) => {
+      if (selectAccountType(stateRef.current, login) === "Organization") {
+        loadOrg(login, true);
+        if (selectMemberRequest(stateRef.current, login).status !== "idle") loadMembers(login, true);
+      } else {
+        loadProfile(login, true);
+      }
+      loadRepos(login, true);
+    };
+
+    return {
+      search, isCurrentSearch, fetchPage, goToPage, clear, switchMode, openUser, submit, rerun, restore,
+      loadProfile, loadRepos, loadMoreRepos, loadOrg, loadMembers, loadMoreMembers, refreshUser,
+    };
+  }, [client]);
+
+  useEffect(() => {
+    const inFlight = requests.current;
+    return () => {
+      inFlight.forEach(controller => controller.abort());
+      inFlight.clear();
+      // The aborted search is no longer on screen, so a remount (as under StrictMode) runs it again.
+      lastSearchKey.current = "";
+    };
+  }, []);
+
+  return useMemo(() => ({ state, dispatch, actions }), [state, actions]);
+}
@@ -0,0 +1,8 @@
+import { createContext, useContext } from "react";
+import { githubClient, type GithubClient } from "@/lib/github";
+
+export const GithubClientContext = createContext<GithubClient>(githubClient);
+
+export function useGithubClient(): GithubClient {
+  return useContext(GithubClientContext);
+}
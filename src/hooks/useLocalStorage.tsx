@@ -0,0 +1,29 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { readStorage, STORAGE_EVENT, writeStorage } from "@/lib/storage";
+
+export function useLocalStorage<T>(key: string, initialValue: T): [T, (value: T | ((prev: T) => T)) => void] {
+  const [value, setValue] = useState<T>(() => readStorage(key, initialValue));
+  // Only a fallback, and callers commonly pass a fresh literal on every render, so the first one is kept.
+  const fallback = useRef(initialValue);
+
+  useEffect(() => {
+    const sync = (event: Event) => {
+      const changedKey = event instanceof StorageEvent ? event.key : (event as CustomEvent<string>).detail;
+      if (changedKey === key) setValue(readStorage(key, fallback.current));
+    };
+    window.addEventListener("storage", sync);
+    window.addEventListener(STORAGE_EVENT, sync);
+    return () => {
+      window.removeEventListener("storage", sync);
+      window.removeEventListener(STORAGE_EVENT, sync);
+    };
+  }, [key]);
+
+  const update = useCallback((next: T | ((prev: T) => T)) => {
+    const resolved = next instanceof Function ? next(readStorage(key, value)) : next;
+    setValue(resolved);
+    writeStorage(key, resolved);
+  }, [key, value]);
+
+  return [value, update];
+}
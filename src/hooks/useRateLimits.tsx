@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from "react";
+import { rateLimitStore, type RateLimit, type RateLimitStore } from "@/lib/rate-limit";
+
+export function useRateLimits(store: RateLimitStore = rateLimitStore): Record<string, RateLimit> {
+  return useSyncExternalStore(store.subscribe, store.getSnapshot);
+}
@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useState } from "react";
+import { useGithubClient } from "@/hooks/useGithubClient";
+import { toAppError } from "@/lib/errors";
+import { isAbortError } from "@/lib/github";
+import type { Repo } from "@/lib/github-types";
+import { rankLanguages } from "@/lib/languages";
+import { loadingDetails, nullIfNotFound, type DetailData, type RepoDetails } from "@/lib/repo-details";
+
+const LANGUAGES_SHOWN = 6;
+const CONTRIBUTORS_SHOWN = 10;
+const COMMITS_SHOWN = 10;
+
+/**
+ * Loads README, languages, contributors, latest release and recent commits of `repo` in parallel.
+ * Each part settles on its own, so one failing endpoint does not hide the others.
+ */
+export function useRepoDetails(repo: Repo): { details: RepoDetails; reload: () => void } {
+  const client = useGithubClient();
+  const [details, setDetails] = useState<RepoDetails>(loadingDetails);
+  // Bumped by `reload`, which revalidates with GitHub instead of trusting the cache.
+  const [attempt, setAttempt] = useState(0);
+  const owner = repo.owner.login;
+  const name = repo.name;
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const options = { signal: controller.signal, refresh: attempt > 0 };
+
+    const load = <K extends keyof RepoDetails>(key: K, request: Promise<DetailData<K>>) => {
+      request.then(
+        data => {
+          if (!controller.signal.aborted) setDetails(current => ({ ...current, [key]: { status: "loaded", data } }));
+        },
+        (e: unknown) => {
+          if (controller.signal.aborted || isAbortError(e)) return;
+          setDetails(current => ({ ...current, [key]: { status: "error", error: toAppError(e, "repo-details") } }));
+        },
+      );
+    };
+
+    load("readme", nullIfNotFound(client.getRepoReadme(owner, name, options)));
+    load("languages", client.getRepoLanguages(owner, name, options)
+      .then(languages => rankLanguages(Object.entries(languages), LANGUAGES_SHOWN)));
+    load("contributors", client.listRepoContributors(owner, name, { per_page: CONTRIBUTORS_SHOWN }, options)
+      .then(page => page.items));
+    load("release", nullIfNotFound(client.getLatestRelease(owner, name, options)));
+    load("commits", client.listRepoCommits(owner, name, { per_page: COMMITS_SHOWN }, options)
+      .then(page => page.items));
+
+    return () => controller.abort();
+  }, [client, owner, name, attempt]);
+
+  const reload = useCallback(() => {
+    setDetails(loadingDetails);
+    setAttempt(current => current + 1);
+  }, []);
+
+  return { details, reload };
+}
@@ -0,0 +1,19 @@
+import { useLocalStorage } from "@/hooks/useLocalStorage";
+import { STORAGE_KEYS } from "@/lib/storage";
+import { saveSearch, sameSearch, type HistoryEntry, type SavedSearch } from "@/lib/search-history";
+import type { SearchInput } from "@/lib/search-query";
+
+/** Recent and saved searches, persisted in local storage. */
+export function useSearchHistory() {
+  const [history, setHistory] = useLocalStorage<HistoryEntry[]>(STORAGE_KEYS.history, []);
+  const [saved, setSaved] = useLocalStorage<SavedSearch[]>(STORAGE_KEYS.savedSearches, []);
+
+  return {
+    history,
+    saved,
+    removeEntry: (entry: HistoryEntry) => setHistory(current => current.filter(existing => !sameSearch(existing, entry))),
+    clearHistory: () => setHistory([]),
+    save: (name: string, input: SearchInput) => setSaved(current => saveSearch(current, name, input)),
+    removeSaved: (id: string) => setSaved(current => current.filter(search => search.id !== id)),
+  };
+}
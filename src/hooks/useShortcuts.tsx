@@ -0,0 +1,22 @@
+import { useEffect, useRef } from "react";
+import { findShortcut, type Shortcut } from "@/lib/shortcuts";
+
+/**
+ * Runs `shortcuts` on keydown anywhere in the document. The list may change on every render; the
+ * listener is added once and always sees the latest one.
+ */
+export function useShortcuts(shortcuts: Shortcut[]) {
+  const shortcutsRef = useRef(shortcuts);
+  shortcutsRef.current = shortcuts;
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const shortcut = findShortcut(shortcutsRef.current, e);
+      if (!shortcut) return;
+      e.preventDefault();
+      shortcut.run(e);
+    };
+    document.addEventListener("keydown", onKeyDown);
+    return () => document.removeEventListener("keydown", onKeyDown);
+  }, []);
+}
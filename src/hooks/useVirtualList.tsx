@@ -0,0 +1,131 @@
+import { useCallback, useLayoutEffect, useRef, useState } from "react";
+import { DEFAULT_OVERSCAN, getRangePadding, getVirtualRange } from "@/lib/virtual-list";
+
+/** The rows of `container`: its outermost `data-index` elements, leaving out those of lists nested in a row. */
+function rowsOf(container: HTMLElement): HTMLElement[] {
+  return [...container.querySelectorAll<HTMLElement>("[data-index]")].filter(row => {
+    const outer = row.parentElement?.closest("[data-index]");
+    return !outer || !container.contains(outer);
+  });
+}
+
+interface VirtualListOptions {
+  count: number;
+  /** Height assumed for rows not rendered yet. */
+  estimateSize: number;
+  /** Identifies a row, so its measured height follows it when the list is sorted or filtered. */
+  getKey: (index: number) => string | number;
+  gap?: number;
+  overscan?: number;
+}
+
+/**
+ * Windowed rendering for a list in the page flow: only the rows near the viewport are rendered, and
+ * the container is padded by the height of the rest. Rendered rows carry `data-index`; their heights
+ * are measured when they appear and whenever they resize, so rows that grow, like an expanded
+ * accordion item, push the ones after them down.
+ */
+export function useVirtualList<T extends HTMLElement>({
+  count, estimateSize, getKey, gap = 0, overscan = DEFAULT_OVERSCAN,
+}: VirtualListOptions) {
+  const containerRef = useRef<T>(null);
+  const measured = useRef(new Map<string | number, number>());
+  const [, setMeasuredVersion] = useState(0);
+  const rowObserver = useRef<ResizeObserver | null>(null);
+  const observed = useRef(new Set<HTMLElement>());
+
+  const sizes = Array.from({ length: count }, (_, index) => measured.current.get(getKey(index)) ?? estimateSize);
+  const sizesRef = useRef(sizes);
+  sizesRef.current = sizes;
+  // Only the rendered slice is state: scrolling re-renders the list when other rows come into view, not every frame.
+  const [range, setRange] = useState(() => {
+    const { start, end } = getVirtualRange({ sizes, gap, viewportStart: 0, viewportEnd: window.innerHeight, overscan });
+    return { start, end };
+  });
+
+  const updateRange = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    // The visible part of the page, relative to the top of the list.
+    const top = container.getBoundingClientRect().top;
+    const { start, end } = getVirtualRange({
+      sizes: sizesRef.current, gap, viewportStart: -top, viewportEnd: window.innerHeight - top, overscan,
+    });
+    setRange(current => current.start === start && current.end === end ? current : { start, end });
+  }, [gap, overscan]);
+
+  const getKeyRef = useRef(getKey);
+  getKeyRef.current = getKey;
+  const measureRows = useCallback((rows: Iterable<Element>) => {
+    let changed = false;
+    for (const row of rows) {
+      if (!(row instanceof HTMLElement) || !row.isConnected) continue;
+      const key = getKeyRef.current(Number(row.dataset.index));
+      const height = row.offsetHeight;
+      // Hidden rows report 0; they keep their last height or the estimate.
+      if (height > 0 && measured.current.get(key) !== height) {
+        measured.current.set(key, height);
+        changed = true;
+      }
+    }
+    if (changed) setMeasuredVersion(version => version + 1);
+  }, []);
+
+  // Declared before the effects below, so the row observer exists when the first rows are observed.
+  useLayoutEffect(() => {
+    let frame = 0;
+    const scheduleUpdate = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(updateRange);
+    };
+    window.addEventListener("scroll", scheduleUpdate, { passive: true });
+    window.addEventListener("resize", scheduleUpdate);
+    const supported = typeof ResizeObserver !== "undefined";
+    // Content above the list, like a row of an outer list expanding, moves it without a scroll.
+    const pageObserver = supported ? new ResizeObserver(scheduleUpdate) : null;
+    pageObserver?.observe(document.body);
+    rowObserver.current = supported ? new ResizeObserver(entries => measureRows(entries.map(entry => entry.target))) : null;
+    const rows = observed.current;
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener("scroll", scheduleUpdate);
+      window.removeEventListener("resize", scheduleUpdate);
+      pageObserver?.disconnect();
+      rowObserver.current?.disconnect();
+      rowObserver.current = null;
+      rows.clear();
+    };
+  }, [updateRange, measureRows]);
+
+  // The range is stale once rows are added, removed, reordered or measured; the next frame would be too late.
+  const sizesKey = sizes.join();
+  useLayoutEffect(() => {
+    updateRange();
+  }, [sizesKey, updateRange]);
+
+  const start = Math.min(range.start, count);
+  const end = Math.min(range.end, count);
+  const { before, after } = getRangePadding(sizes, start, end, gap);
+  const renderedKeys = Array.from({ length: end - start }, (_, offset) => getKey(start + offset)).join("\n");
+
+  // Runs only when different rows are on screen: rows that appeared are measured and observed, rows that left are dropped.
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const rows = rowsOf(container);
+    const current = new Set(rows);
+    for (const row of observed.current) {
+      if (current.has(row)) continue;
+      rowObserver.current?.unobserve(row);
+      observed.current.delete(row);
+    }
+    const added = rows.filter(row => !observed.current.has(row));
+    for (const row of added) {
+      rowObserver.current?.observe(row);
+      observed.current.add(row);
+    }
+    measureRows(added);
+  }, [renderedKeys, measureRows]);
+
+  return { containerRef, start, end, before, after };
+}
@@ -0,0 +1,92 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useGithubClient } from "@/hooks/useGithubClient";
+import { useLocalStorage } from "@/hooks/useLocalStorage";
+import { toAppError } from "@/lib/errors";
+import { isAbortError, type GithubClient, type RequestOptions } from "@/lib/github";
+import type { DetailSection } from "@/lib/repo-details";
+import { STORAGE_KEYS } from "@/lib/storage";
+import {
+  markSeen,
+  mergeWatchlists,
+  toggleWatch,
+  watchKey,
+  type WatchCurrent,
+  type WatchItem,
+} from "@/lib/watchlist";
+
+/** Recent repositories fetched per watched user, enough to spot the ones created since the last visit. */
+const RECENT_REPOS = 30;
+
+/** The persisted watchlist; every component using it stays in sync through local storage. */
+export function useWatchlist() {
+  const [items, setItems] = useLocalStorage<WatchItem[]>(STORAGE_KEYS.watchlist, []);
+  const keys = useMemo(() => new Set(items.map(watchKey)), [items]);
+
+  return {
+    items,
+    isWatched: (item: WatchItem) => keys.has(watchKey(item)),
+    toggle: (item: WatchItem) => setItems(current => toggleWatch(current, item)),
+    remove: (key: string) => setItems(current => current.filter(item => watchKey(item) !== key)),
+    importItems: (imported: WatchItem[]) => setItems(current => mergeWatchlists(current, imported)),
+    /** Makes the refreshed stats the new baseline; `onlyFirst` limits that to entries without one yet. */
+    markSeen: (refreshed: Record<string, WatchCurrent>, onlyFirst = false) =>
+      setItems(current => current.map(item => {
+        const data = refreshed[watchKey(item)];
+        return data && !(onlyFirst && item.seen) ? markSeen(item, data) : item;
+      })),
+  };
+}
+
+async function fetchCurrent(client: GithubClient, item: WatchItem, options: RequestOptions): Promise<WatchCurrent> {
+  if (item.kind === "user") {
+    const [profile, repos] = await Promise.all([
+      client.getUser(item.login, options),
+      client.listUserRepos(item.login, { sort: "created", direction: "desc", per_page: RECENT_REPOS }, options),
+    ]);
+    return { kind: "user", profile, recentRepos: repos.items };
+  }
+  const [owner, name] = item.fullName.split("/");
+  return { kind: "repo", repo: await client.getRepo(owner, name, options) };
+}
+
+/**
+ * Fetches the current stats of every watched entry, each settling on its own. Entries added later
+ * load as they appear; `refresh` reloads them all, revalidating with GitHub instead of the cache.
+ */
+export function useWatchlistRefresh(items: WatchItem[]) {
+  const client = useGithubClient();
+  const [current, setCurrent] = useState<Record<string, DetailSection<WatchCurrent>>>({});
+  const [attempt, setAttempt] = useState(0);
+  const round = useRef<{ controller: AbortController; requested: Set<string> } | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    round.current = { controller, requested: new Set() };
+    return () => controller.abort();
+  }, [attempt]);
+
+  useEffect(() => {
+    if (!round.current) return;
+    const { controller, requested } = round.current;
+    const options = { signal: controller.signal, refresh: attempt > 0 };
+    for (const item of items) {
+      const key = watchKey(item);
+      if (requested.has(key)) continue;
+      requested.add(key);
+      setCurrent(prev => ({ ...prev, [key]: { status: "loading" } }));
+      fetchCurrent(client, item, options).then(
+        data => {
+          if (!controller.signal.aborted) setCurrent(prev => ({ ...prev, [key]: { status: "loaded", data } }));
+        },
+        (e: unknown) => {
+          if (controller.signal.aborted || isAbortError(e)) return;
+          setCurrent(prev => ({ ...prev, [key]: { status: "error", error: toAppError(e, "watchlist") } }));
+        },
+      );
+    }
+  }, [client, items, attempt]);
+
+  const refresh = useCallback(() => setAttempt(value => value + 1), []);
+
+  return { current, refresh };
+}
@@ -0,0 +1,58 @@
+import type { Repo } from "./github-types";
+import { getShareColor } from "./languages";
+import { summarizeRepos, type RepoSummary } from "./org";
+
+/** One bar, slice or column of a chart. */
+export interface ChartDatum {
+  label: string;
+  value: number;
+  /** Fill color; charts fall back to their own when missing. */
+  color?: string;
+}
+
+export interface RepoAnalytics {
+  summary: RepoSummary;
+  languages: ChartDatum[];
+  starsPerRepo: ChartDatum[];
+  createdPerYear: ChartDatum[];
+}
+
+/** Everything the analytics section charts, computed from the repos loaded so far. */
+export function analyzeRepos(repos: Repo[], { topRepos = 10 } = {}): RepoAnalytics {
+  const summary = summarizeRepos(repos);
+  return {
+    summary,
+    languages: summary.languages.map(({ language, count }) => ({
+      label: language,
+      value: count,
+      color: getShareColor(language),
+    })),
+    starsPerRepo: starsPerRepo(repos, topRepos),
+    createdPerYear: createdPerYear(repos),
+  };
+}
+
+/** The `top` most-starred repos, skipping those nobody starred. */
+export function starsPerRepo(repos: Repo[], top = 10): ChartDatum[] {
+  return repos
+    .filter(repo => repo.stargazers_count > 0)
+    .sort((a, b) => b.stargazers_count - a.stargazers_count || a.name.localeCompare(b.name))
+    .slice(0, top)
+    .map(repo => ({ label: repo.name, value: repo.stargazers_count }));
+}
+
+/** Repos created per year, from the first year to the last with the quiet years in between kept at zero. */
+export function createdPerYear(repos: Repo[]): ChartDatum[] {
+  const counts = new Map<number, number>();
+  for (const repo of repos) {
+    const year = new Date(repo.created_at).getUTCFullYear();
+    if (!Number.isNaN(year)) counts.set(year, (counts.get(year) ?? 0) + 1);
+  }
+  if (counts.size === 0) return [];
+  const years = [...counts.keys()];
+  const data: ChartDatum[] = [];
+  for (let year = Math.min(...years); year <= Math.max(...years); year++) {
+    data.push({ label: String(year), value: counts.get(year) ?? 0 });
+  }
+  return data;
+}
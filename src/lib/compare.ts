@@ -0,0 +1,50 @@
+import type { Repo, User } from "./github-types";
+import type { LanguageShare } from "./languages";
+import { summarizeRepos } from "./org";
+
+/** How many users fit side by side in the comparison table. */
+export const MAX_COMPARED = 4;
+
+/** One column of the comparison table, computed from a profile and the repos loaded for it. */
+export interface UserComparison {
+  login: string;
+  name: string | null;
+  avatarUrl: string;
+  htmlUrl: string;
+  followers: number;
+  publicRepos: number;
+  /** Summed over the loaded repos, which may be fewer than `publicRepos`. */
+  stars: number;
+  languages: LanguageShare[];
+  /** Own repositories with the most stars; forks are left out. */
+  topRepos: Repo[];
+  createdAt: string;
+  reposCounted: number;
+}
+
+export function compareUser(profile: User, repos: Repo[], { languages = 3, topRepos = 3 } = {}): UserComparison {
+  const summary = summarizeRepos(repos, languages);
+  return {
+    login: profile.login,
+    name: profile.name,
+    avatarUrl: profile.avatar_url,
+    htmlUrl: profile.html_url,
+    followers: profile.followers,
+    publicRepos: profile.public_repos,
+    stars: summary.stars,
+    languages: summary.languages,
+    topRepos: repos
+      .filter(repo => !repo.fork)
+      .sort((a, b) => b.stargazers_count - a.stargazers_count || a.name.localeCompare(b.name))
+      .slice(0, topRepos),
+    createdAt: profile.created_at,
+    reposCounted: repos.length,
+  };
+}
+
+/** Positions holding the highest value, or none when nobody stands out (all equal, or all zero). */
+export function leaders(values: number[]): Set<number> {
+  const best = Math.max(...values);
+  if (values.length < 2 || best <= 0 || values.every(value => value === best)) return new Set();
+  return new Set(values.flatMap((value, i) => (value === best ? [i] : [])));
+}
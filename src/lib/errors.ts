@@ -0,0 +1,63 @@
+import { GithubApiError, type GithubErrorKind } from "./github";
+
+/** Where a failure happened; decides the wording of 404s and the fallback message. */
+export type ErrorContext = "search" | "repo-search" | "repos" | "members" | "repo-details" | "watchlist";
+
+/** A failure ready to render: what went wrong, and when retrying makes sense again. */
+export interface AppError {
+  kind: GithubErrorKind;
+  message: string;
+  status: number | null;
+  /** Epoch ms before which retrying is pointless (rate limits), or null. */
+  retryAt: number | null;
+}
+
+const fallbackMessages: Record<ErrorContext, string> = {
+  search: "Failed to fetch users.",
+  "repo-search": "Failed to fetch repositories.",
+  repos: "Failed to fetch repositories.",
+  members: "Failed to fetch members.",
+  "repo-details": "Failed to load repository details.",
+  watchlist: "Failed to refresh this entry.",
+};
+
+const notFoundMessages: Record<ErrorContext, string> = {
+  search: "GitHub could not find what you searched for.",
+  "repo-search": "GitHub could not find what you searched for.",
+  repos: "This user no longer exists on GitHub.",
+  members: "This organization no longer exists on GitHub.",
+  "repo-details": "This repository no longer exists on GitHub.",
+  watchlist: "This no longer exists on GitHub.",
+};
+
+function messageFor(error: GithubApiError, context: ErrorContext): string {
+  switch (error.kind) {
+    case "network":
+      return "Couldn't reach GitHub. Check your connection and try again.";
+    case "rate_limit":
+      return `GitHub ${error.rateLimit?.resource ?? "API"} rate limit reached.` +
+        (error.rateLimit && error.rateLimit.limit <= 60 ? " A personal access token in settings raises the limit." : "");
+    case "abuse":
+      return "GitHub's secondary rate limit (abuse detection) was triggered. Slow down before retrying.";
+    case "unauthorized":
+      return "GitHub rejected the saved access token. Update or remove it in settings.";
+    case "not_found":
+      return notFoundMessages[context];
+    case "invalid_query":
+      return `GitHub could not process this search query: ${error.message}`;
+    case "server":
+      return `GitHub is having trouble right now (HTTP ${error.status}).`;
+    default:
+      return fallbackMessages[context];
+  }
+}
+
+export function toAppError(error: unknown, context: ErrorContext, now = Date.now()): AppError {
+  if (!(error instanceof GithubApiError)) {
+    return { kind: "unknown", message: fallbackMessages[context], status: null, retryAt: null };
+  }
+  let retryAt: number | null = null;
+  if (error.kind === "rate_limit") retryAt = error.rateLimit?.resetAt ?? null;
+  if (error.kind === "abuse" && error.retryAfter !== null) retryAt = now + error.retryAfter * 1000;
+  return { kind: error.kind, message: messageFor(error, context), status: error.status, retryAt };
+}
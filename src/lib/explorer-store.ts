@@ -0,0 +1,335 @@
+import { MAX_COMPARED } from "./compare";
+import type { AppError } from "./errors";
+import type { Page } from "./github";
+import type { AccountType, Organization, Repo, RepoSearchItem, SimpleUser, User, UserSearchItem } from "./github-types";
+import { idleMemberRequest, mergeMemberPage, type MemberRequest } from "./org";
+import { getPageCount } from "./pagination";
+import { defaultRepoListOptions, type RepoListOptions } from "./repo-filters";
+import { idleRepoRequest, mergeRepoPage, type RepoRequest } from "./repo-pages";
+import {
+  buildSearchRequest,
+  countActiveFilters,
+  countActiveRepoFilters,
+  emptyFilters,
+  emptyRepoFilters,
+  type RepoSearchFilters,
+  type SearchInput,
+  type SearchMode,
+  type SearchRequest,
+  type UserSearchFilters,
+} from "./search-query";
+import type { UrlState } from "./url-state";
+
+export const PER_PAGE = 10;
+
+/** One page of search results, tagged with the search that produced it. */
+export type SearchResults =
+  | { mode: "users"; items: UserSearchItem[] }
+  | { mode: "repos"; items: RepoSearchItem[] };
+
+/** Everything the explorer shows; changed only through `explorerReducer`. */
+export interface ExplorerState {
+  /** What is typed into the search bar and filter panel, searched once it settles. */
+  mode: SearchMode;
+  term: string;
+  filters: UserSearchFilters;
+  repoFilters: RepoSearchFilters;
+  showFilters: boolean;
+  /** The search whose results are on screen. */
+  committed: SearchInput;
+  /** Result pages already fetched for `committed`, by page number. */
+  pages: Record<number, SearchResults>;
+  page: number;
+  totalCount: number;
+  searchTime: number | null;
+  searching: boolean;
+  error: AppError | null;
+  expanded: string | null;
+  /** Index of the result on the current page picked from the keyboard, or -1. */
+  cursor: number;
+  repos: Record<string, RepoRequest>;
+  /** `null` once a profile failed to load, so it is not requested again. */
+  profiles: Record<string, User | null>;
+  /** Organization profiles, `null` when one failed to load. */
+  orgs: Record<string, Organization | null>;
+  /** Public members per organization. */
+  members: Record<string, MemberRequest>;
+  repoOptions: Record<string, RepoListOptions>;
+  /** The repository shown in the detail drawer. */
+  detailRepo: Repo | null;
+  /** Logins picked for the comparison table, kept across searches so results can be mixed. */
+  compared: string[];
+  comparing: boolean;
+}
+
+export type ExplorerAction =
+  | { type: "input/changed"; term: string }
+  | { type: "input/replaced"; input: SearchInput }
+  | { type: "mode/changed"; mode: SearchMode }
+  | { type: "filters/changed"; filters: UserSearchFilters }
+  | { type: "repo-filters/changed"; filters: RepoSearchFilters }
+  | { type: "filters/toggled" }
+  | { type: "search/committed"; input: SearchInput; page: number; expanded: string | null }
+  | { type: "search/cleared" }
+  | { type: "search/started" }
+  | { type: "search/succeeded"; page: number; results: SearchResults; totalCount: number; searchTime: number }
+  | { type: "search/failed"; error: AppError }
+  | { type: "search/aborted" }
+  | { type: "page/changed"; page: number }
+  | { type: "user/expanded"; login: string | null }
+  | { type: "cursor/moved"; step: number }
+  | { type: "profile/loaded"; login: string; profile: User | null }
+  | { type: "repos/started"; login: string }
+  | { type: "repos/loaded"; login: string; page: Page<Repo> }
+  | { type: "repos/more-started"; login: string }
+  | { type: "repos/page-loaded"; login: string; pageNumber: number; page: Page<Repo> }
+  | { type: "repos/more-finished"; login: string }
+  | { type: "repos/failed"; login: string; error: AppError }
+  | { type: "repos/options-changed"; login: string; options: RepoListOptions }
+  | { type: "org/loaded"; login: string; org: Organization | null }
+  | { type: "members/started"; login: string }
+  | { type: "members/more-started"; login: string }
+  | { type: "members/loaded"; login: string; pageNumber: number; page: Page<SimpleUser> }
+  | { type: "members/more-finished"; login: string }
+  | { type: "members/failed"; login: string; error: AppError }
+  | { type: "detail/opened"; repo: Repo }
+  | { type: "detail/closed" }
+  | { type: "compare/toggled"; login: string }
+  | { type: "compare/opened" }
+  | { type: "compare/closed" }
+  | { type: "compare/cleared" };
+
+const emptyResults = {
+  pages: {},
+  page: 1,
+  totalCount: 0,
+  searchTime: null,
+  searching: false,
+  error: null,
+  expanded: null,
+  cursor: -1,
+  repos: {},
+  profiles: {},
+  orgs: {},
+  members: {},
+  repoOptions: {},
+  detailRepo: null,
+} satisfies Partial<ExplorerState>;
+
+const toDraft = ({ mode, term, filters, repoFilters }: SearchInput): SearchInput => ({ mode, term, filters, repoFilters });
+
+/** The starting state, seeded from the URL so shared links open on the same search. */
+export function createExplorerState(url: UrlState): ExplorerState {
+  return {
+    ...emptyResults,
+    ...toDraft(url),
+    showFilters: (url.mode === "repos" ? countActiveRepoFilters(url.repoFilters) : countActiveFilters(url.filters)) > 0,
+    committed: toDraft(url),
+    compared: [],
+    comparing: false,
+    page: url.page,
+    expanded: url.expanded,
+  };
+}
+
+function updateRepos(state: ExplorerState, login: string, update: (current: RepoRequest) => RepoRequest): ExplorerState {
+  return { ...state, repos: { ...state.repos, [login]: update(state.repos[login] ?? idleRepoRequest) } };
+}
+
+function updateMembers(
+  state: ExplorerState,
+  login: string,
+  update: (current: MemberRequest) => MemberRequest,
+): ExplorerState {
+  return { ...state, members: { ...state.members, [login]: update(state.members[login] ?? idleMemberRequest) } };
+}
+
+export function explorerReducer(state: ExplorerState, action: ExplorerAction): ExplorerState {
+  switch (action.type) {
+    case "input/changed":
+      return { ...state, term: action.term };
+    case "input/replaced":
+      return { ...state, ...toDraft(action.input) };
+    case "mode/changed":
+      return { ...state, mode: action.mode };
+    case "filters/changed":
+      return { ...state, filters: action.filters };
+    case "repo-filters/changed":
+      return { ...state, repoFilters: action.filters };
+    case "filters/toggled":
+      return { ...state, showFilters: !state.showFilters };
+    case "search/committed":
+      return {
+        ...state,
+        ...emptyResults,
+        committed: action.input,
+        page: action.page,
+        expanded: action.expanded,
+      };
+    case "search/cleared":
+      return {
+        ...state,
+        ...emptyResults,
+        committed: { mode: state.mode, term: "", filters: emptyFilters, repoFilters: emptyRepoFilters },
+      };
+    case "search/started":
+      return { ...state, searching: true, error: null };
+    case "search/succeeded":
+      return {
+        ...state,
+        searching: false,
+        pages: { ...state.pages, [action.page]: action.results },
+        totalCount: action.totalCount,
+        searchTime: action.searchTime,
+      };
+    case "search/failed":
+      return { ...state, searching: false, error: action.error };
+    case "search/aborted":
+      return { ...state, searching: false };
+    case "page/changed":
+      return { ...state, page: action.page, expanded: null, cursor: -1 };
+    case "user/expanded":
+      return { ...state, expanded: action.login };
+    case "cursor/moved": {
+      const count = state.pages[state.page]?.items.length ?? 0;
+      if (count === 0) return state;
+      // The first move lands on the first result, whichever way it goes.
+      const cursor = state.cursor < 0 ? 0 : Math.min(Math.max(state.cursor + action.step, 0), count - 1);
+      return { ...state, cursor };
+    }
+    case "profile/loaded":
+      return { ...state, profiles: { ...state.profiles, [action.login]: action.profile } };
+    case "repos/started":
+      return updateRepos(state, action.login, current => ({
+        ...current, status: "loading", error: undefined, failed: undefined, loadingMore: false,
+      }));
+    case "repos/loaded":
+      return updateRepos(state, action.login, () => ({
+        status: "loaded", pages: mergeRepoPage(undefined, 1, action.page), loadingMore: false,
+      }));
+    case "repos/more-started":
+      return updateRepos(state, action.login, current => ({
+        ...current, status: "loaded", error: undefined, failed: undefined, loadingMore: true,
+      }));
+    case "repos/page-loaded":
+      return updateRepos(state, action.login, current => ({
+        ...current, pages: mergeRepoPage(current.pages, action.pageNumber, action.page),
+      }));
+    case "repos/more-finished":
+      return updateRepos(state, action.login, current => ({ ...current, loadingMore: false }));
+    case "repos/failed":
+      return updateRepos(state, action.login, current => ({
+        ...current, status: "error", error: action.error, failed: current.loadingMore ? "more" : "first", loadingMore: false,
+      }));
+    case "repos/options-changed":
+      return { ...state, repoOptions: { ...state.repoOptions, [action.login]: action.options } };
+    case "org/loaded":
+      return { ...state, orgs: { ...state.orgs, [action.login]: action.org } };
+    case "members/started":
+      return updateMembers(state, action.login, current => ({
+        ...current, status: "loading", error: undefined, failed: undefined, loadingMore: false,
+      }));
+    case "members/more-started":
+      return updateMembers(state, action.login, current => ({
+        ...current, status: "loaded", error: undefined, failed: undefined, loadingMore: true,
+      }));
+    case "members/loaded":
+      return updateMembers(state, action.login, current => ({
+        status: "loaded",
+        // The first page starts over, so a refresh does not keep members who left.
+        pages: mergeMemberPage(action.pageNumber === 1 ? undefined : current.pages, action.page),
+        loadingMore: action.pageNumber === 1 ? false : current.loadingMore,
+      }));
+    case "members/more-finished":
+      return updateMembers(state, action.login, current => ({ ...current, loadingMore: false }));
+    case "members/failed":
+      return updateMembers(state, action.login, current => ({
+        ...current, status: "error", error: action.error, failed: current.loadingMore ? "more" : "first", loadingMore: false,
+      }));
+    case "detail/opened":
+      return { ...state, detailRepo: action.repo };
+    case "detail/closed":
+      return { ...state, detailRepo: null };
+    case "compare/toggled": {
+      if (state.compared.includes(action.login)) {
+        const compared = state.compared.filter(login => login !== action.login);
+        return { ...state, compared, comparing: state.comparing && compared.length >= 2 };
+      }
+      if (state.compared.length >= MAX_COMPARED) return state;
+      return { ...state, compared: [...state.compared, action.login] };
+    }
+    case "compare/opened":
+      return { ...state, comparing: state.compared.length >= 2 };
+    case "compare/closed":
+      return { ...state, comparing: false };
+    case "compare/cleared":
+      return { ...state, compared: [], comparing: false };
+  }
+}
+
+export const selectRequest = (state: ExplorerState): SearchRequest => buildSearchRequest(state.committed);
+
+export const selectDraft = (state: ExplorerState): SearchInput => toDraft(state);
+
+/** The request the search bar and filters currently describe, before it is committed. */
+export const selectDraftRequest = (state: ExplorerState): SearchRequest => buildSearchRequest(state);
+
+const noUsers: UserSearchItem[] = [];
+const noRepos: RepoSearchItem[] = [];
+
+export const selectUsers = (state: ExplorerState): UserSearchItem[] => {
+  const results = state.pages[state.page];
+  return results?.mode === "users" ? results.items : noUsers;
+};
+
+export const selectRepoResults = (state: ExplorerState): RepoSearchItem[] => {
+  const results = state.pages[state.page];
+  return results?.mode === "repos" ? results.items : noRepos;
+};
+
+export const selectPageCount = (state: ExplorerState): number => getPageCount(state.totalCount, PER_PAGE);
+
+export const selectRepoRequest = (state: ExplorerState, login: string): RepoRequest =>
+  state.repos[login] ?? idleRepoRequest;
+
+export const selectRepoOptions = (state: ExplorerState, login: string): RepoListOptions =>
+  state.repoOptions[login] ?? defaultRepoListOptions;
+
+export const selectHasResults = (state: ExplorerState): boolean =>
+  (state.pages[state.page]?.items.length ?? 0) > 0 || state.searching || state.error !== null;
+
+export const selectMemberRequest = (state: ExplorerState, login: string): MemberRequest =>
+  state.members[login] ?? idleMemberRequest;
+
+/** Account type of a login from the search results; members listed inside an organization are users. */
+export const selectAccountType = (state: ExplorerState, login: string): AccountType => {
+  for (const results of Object.values(state.pages)) {
+    if (results.mode !== "users") continue;
+    const match = results.items.find(item => item.login === login);
+    if (match) return match.type;
+  }
+  return "User";
+};
+
+/** Users from every result page loaded for the current search, in page order and each once. */
+export const selectLoadedUsers = (state: ExplorerState): UserSearchItem[] => {
+  const byLogin = new Map<string, UserSearchItem>();
+  const pages = Object.entries(state.pages).sort(([a], [b]) => Number(a) - Number(b));
+  for (const [, results] of pages) {
+    if (results.mode !== "users") continue;
+    for (const user of results.items) {
+      if (!byLogin.has(user.login)) byLogin.set(user.login, user);
+    }
+  }
+  return [...byLogin.values()];
+};
+
+/** Every repository on screen or loaded for a user: the current repo search page, then each user's loaded pages. */
+export const selectLoadedRepos = (state: ExplorerState): Repo[] => {
+  const byId = new Map<number, Repo>();
+  const loaded = Object.values(state.repos).flatMap(request => request.pages?.repos ?? []);
+  for (const repo of [...selectRepoResults(state), ...loaded]) {
+    if (!byId.has(repo.id)) byId.set(repo.id, repo);
+  }
+  return [...byId.values()];
+};
@@ -0,0 +1,117 @@
+import type { Repo, User, UserSearchItem } from "./github-types";
+
+export type ExportFormat = "csv" | "json" | "markdown";
+
+export type ExportValue = string | number | boolean | null;
+
+export interface ExportColumn<T> {
+  key: string;
+  label: string;
+  value: (row: T) => ExportValue;
+}
+
+/** A search result with its profile when one has been loaded; profile-only columns stay empty otherwise. */
+export interface UserExportRow {
+  user: UserSearchItem;
+  profile?: User | null;
+}
+
+export const userColumns: ExportColumn<UserExportRow>[] = [
+  { key: "login", label: "Login", value: ({ user }) => user.login },
+  { key: "type", label: "Type", value: ({ user }) => user.type },
+  { key: "name", label: "Name", value: ({ profile }) => profile?.name ?? null },
+  { key: "company", label: "Company", value: ({ profile }) => profile?.company ?? null },
+  { key: "location", label: "Location", value: ({ profile }) => profile?.location ?? null },
+  { key: "followers", label: "Followers", value: ({ profile }) => profile?.followers ?? null },
+  { key: "public_repos", label: "Public repos", value: ({ profile }) => profile?.public_repos ?? null },
+  { key: "created_at", label: "Joined", value: ({ profile }) => profile?.created_at ?? null },
+  { key: "html_url", label: "Profile URL", value: ({ user }) => user.html_url },
+];
+
+export const repoColumns: ExportColumn<Repo>[] = [
+  { key: "full_name", label: "Repository", value: repo => repo.full_name },
+  { key: "owner", label: "Owner", value: repo => repo.owner.login },
+  { key: "description", label: "Description", value: repo => repo.description },
+  { key: "language", label: "Language", value: repo => repo.language },
+  { key: "stars", label: "Stars", value: repo => repo.stargazers_count },
+  { key: "forks", label: "Forks", value: repo => repo.forks_count },
+  { key: "open_issues", label: "Open issues", value: repo => repo.open_issues_count },
+  { key: "license", label: "License", value: repo => repo.license?.spdx_id ?? null },
+  { key: "topics", label: "Topics", value: repo => repo.topics?.join(" ") ?? null },
+  { key: "fork", label: "Fork", value: repo => repo.fork },
+  { key: "archived", label: "Archived", value: repo => repo.archived },
+  { key: "created_at", label: "Created", value: repo => repo.created_at },
+  { key: "pushed_at", label: "Last push", value: repo => repo.pushed_at },
+  { key: "html_url", label: "URL", value: repo => repo.html_url },
+];
+
+export const exportFormats: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  csv: { label: "CSV", extension: "csv", mimeType: "text/csv;charset=utf-8" },
+  json: { label: "JSON", extension: "json", mimeType: "application/json" },
+  markdown: { label: "Markdown", extension: "md", mimeType: "text/markdown;charset=utf-8" },
+};
+
+/** Spreadsheets run cells starting with these as formulas, so such text is prefixed with a quote. */
+const formulaStart = /^[=+\-@\t\r]/;
+
+function csvCell(value: ExportValue): string {
+  if (value === null) return "";
+  let text = String(value);
+  if (typeof value === "string" && formulaStart.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv<T>(rows: T[], columns: ExportColumn<T>[]): string {
+  const lines = [columns.map(column => csvCell(column.label))];
+  for (const row of rows) lines.push(columns.map(column => csvCell(column.value(row))));
+  return lines.map(cells => cells.join(",")).join("\r\n") + "\r\n";
+}
+
+export function toJson<T>(rows: T[], columns: ExportColumn<T>[]): string {
+  const objects = rows.map(row => Object.fromEntries(columns.map(column => [column.key, column.value(row)])));
+  return JSON.stringify(objects, null, 2) + "\n";
+}
+
+const markdownCell = (value: ExportValue) =>
+  value === null ? "" : String(value).replace(/\\/g, "\\\\").replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+
+export function toMarkdown<T>(rows: T[], columns: ExportColumn<T>[]): string {
+  const line = (cells: string[]) => `| ${cells.join(" | ")} |`;
+  return [
+    line(columns.map(column => markdownCell(column.label))),
+    line(columns.map(() => "---")),
+    ...rows.map(row => line(columns.map(column => markdownCell(column.value(row))))),
+  ].join("\n") + "\n";
+}
+
+export function formatExport<T>(format: ExportFormat, rows: T[], columns: ExportColumn<T>[]): string {
+  switch (format) {
+    case "csv":
+      return toCsv(rows, columns);
+    case "json":
+      return toJson(rows, columns);
+    case "markdown":
+      return toMarkdown(rows, columns);
+  }
+}
+
+/** "github-users-octo-type-org-2024-06-10.csv": what was exported, for which query, and when. */
+export function exportFilename(dataset: string, query: string, format: ExportFormat, date = new Date()): string {
+  const slug = query.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 60);
+  const day = [date.getFullYear(), date.getMonth() + 1, date.getDate()].map(n => String(n).padStart(2, "0")).join("-");
+  return [`github-${dataset}`, slug, day].filter(Boolean).join("-") + `.${exportFormats[format].extension}`;
+}
+
+/** Hands `content` to the browser as a file download. */
+export function downloadFile(filename: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  // Firefox only follows links in the document, and some browsers drop a download whose URL is revoked
+  // before they have started reading it.
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
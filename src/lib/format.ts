@@ -0,0 +1,48 @@
+const compactFormatter = new Intl.NumberFormat("en-US", { notation: "compact", maximumFractionDigits: 1 });
+
+/** 1234 -> "1.2K"; small numbers are left as they are. */
+export function formatCount(value: number): string {
+  return value < 1000 ? String(value) : compactFormatter.format(value);
+}
+
+export function formatDate(iso: string, options: Intl.DateTimeFormatOptions = { month: "short", year: "numeric" }): string {
+  return new Date(iso).toLocaleDateString("en-US", options);
+}
+
+/** Profiles often list their blog without a scheme, which would otherwise resolve as a relative link. */
+export function toExternalUrl(url: string): string {
+  return /^https?:\/\//i.test(url) ? url : `https://${url}`;
+}
+
+const relativeFormatter = new Intl.RelativeTimeFormat("en-US", { numeric: "auto" });
+
+const relativeUnits: [Intl.RelativeTimeFormatUnit, number][] = [
+  ["year", 365 * 24 * 3600],
+  ["month", 30 * 24 * 3600],
+  ["week", 7 * 24 * 3600],
+  ["day", 24 * 3600],
+  ["hour", 3600],
+  ["minute", 60],
+];
+
+/** "3 days ago", "last month", "just now" relative to `now`. */
+export function formatRelativeTime(iso: string, now = Date.now()): string {
+  const seconds = (Date.parse(iso) - now) / 1000;
+  for (const [unit, size] of relativeUnits) {
+    if (Math.abs(seconds) >= size) {
+      return relativeFormatter.format(Math.round(seconds / size), unit);
+    }
+  }
+  return "just now";
+}
+
+/** "12 years", "3 months": how long ago `iso` was, rounded down, for account ages. */
+export function formatAge(iso: string, now = Date.now()): string {
+  const seconds = Math.max(0, (now - Date.parse(iso)) / 1000);
+  for (const [unit, size] of relativeUnits) {
+    if (seconds >= size) {
+      return new Intl.NumberFormat("en-US", { style: "unit", unit, unitDisplay: "long" }).format(Math.floor(seconds / size));
+    }
+  }
+  return "less than a minute";
+}
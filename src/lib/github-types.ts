@@ -0,0 +1,216 @@
+// Response shapes for the subset of the GitHub REST API the explorer uses.
+// See https://docs.github.com/en/rest for the full schemas.
+
+export type AccountType = "User" | "Organization" | "Bot";
+
+export interface SimpleUser {
+  login: string;
+  id: number;
+  node_id: string;
+  avatar_url: string;
+  gravatar_id: string | null;
+  url: string;
+  html_url: string;
+  followers_url: string;
+  following_url: string;
+  gists_url: string;
+  starred_url: string;
+  subscriptions_url: string;
+  organizations_url: string;
+  repos_url: string;
+  events_url: string;
+  received_events_url: string;
+  type: AccountType;
+  site_admin: boolean;
+}
+
+export interface UserSearchItem extends SimpleUser {
+  score: number;
+}
+
+export interface User extends SimpleUser {
+  name: string | null;
+  company: string | null;
+  blog: string | null;
+  location: string | null;
+  email: string | null;
+  hireable: boolean | null;
+  bio: string | null;
+  twitter_username?: string | null;
+  public_repos: number;
+  public_gists: number;
+  followers: number;
+  following: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Organization {
+  login: string;
+  id: number;
+  node_id: string;
+  url: string;
+  repos_url: string;
+  members_url: string;
+  public_members_url: string;
+  avatar_url: string;
+  description: string | null;
+  name?: string | null;
+  company?: string | null;
+  blog?: string | null;
+  location?: string | null;
+  email?: string | null;
+  twitter_username?: string | null;
+  is_verified?: boolean;
+  html_url: string;
+  public_repos: number;
+  public_gists: number;
+  followers: number;
+  following: number;
+  created_at: string;
+  updated_at: string;
+  type: "Organization";
+}
+
+export interface License {
+  key: string;
+  name: string;
+  spdx_id: string | null;
+  url: string | null;
+  node_id: string;
+}
+
+export interface Repo {
+  id: number;
+  node_id: string;
+  name: string;
+  full_name: string;
+  private: boolean;
+  owner: SimpleUser;
+  html_url: string;
+  description: string | null;
+  fork: boolean;
+  url: string;
+  homepage: string | null;
+  size: number;
+  stargazers_count: number;
+  watchers_count: number;
+  language: string | null;
+  forks_count: number;
+  open_issues_count: number;
+  license: License | null;
+  topics?: string[];
+  has_issues: boolean;
+  has_wiki: boolean;
+  has_pages: boolean;
+  archived: boolean;
+  disabled: boolean;
+  visibility?: string;
+  default_branch: string;
+  created_at: string;
+  updated_at: string;
+  pushed_at: string | null;
+}
+
+/** Bytes of code per language, as GitHub reports them for a repository. */
+export type RepoLanguages = Record<string, number>;
+
+export interface Contributor {
+  login: string;
+  id: number;
+  avatar_url: string;
+  html_url: string;
+  type: AccountType;
+  contributions: number;
+}
+
+export interface Release {
+  id: number;
+  tag_name: string;
+  name: string | null;
+  html_url: string;
+  draft: boolean;
+  prerelease: boolean;
+  created_at: string;
+  published_at: string | null;
+}
+
+export interface GitActor {
+  name: string;
+  email: string;
+  date: string;
+}
+
+export interface Commit {
+  sha: string;
+  html_url: string;
+  commit: {
+    message: string;
+    author: GitActor | null;
+    committer: GitActor | null;
+  };
+  /** The GitHub account behind the commit author, when GitHub could match one. */
+  author: SimpleUser | null;
+}
+
+export interface ListRepoItemsParams {
+  per_page?: number;
+  page?: number;
+}
+
+export interface SearchResponse<T> {
+  total_count: number;
+  incomplete_results: boolean;
+  items: T[];
+}
+
+export type SearchUsersSort = "followers" | "repositories" | "joined";
+export type SortOrder = "asc" | "desc";
+
+export interface SearchUsersParams {
+  q: string;
+  sort?: SearchUsersSort;
+  order?: SortOrder;
+  per_page?: number;
+  page?: number;
+}
+
+export interface RepoSearchItem extends Repo {
+  score: number;
+}
+
+export type SearchReposSort = "stars" | "forks" | "help-wanted-issues" | "updated";
+
+export interface SearchReposParams {
+  q: string;
+  sort?: SearchReposSort;
+  order?: SortOrder;
+  per_page?: number;
+  page?: number;
+}
+
+export type RepoType = "all" | "owner" | "member";
+export type RepoSort = "created" | "updated" | "pushed" | "full_name";
+
+export interface ListReposParams {
+  type?: RepoType;
+  sort?: RepoSort;
+  direction?: SortOrder;
+  per_page?: number;
+  page?: number;
+}
+
+export type OrgRepoType = "all" | "public" | "private" | "forks" | "sources" | "member";
+
+export interface ListOrgReposParams {
+  type?: OrgRepoType;
+  sort?: RepoSort;
+  direction?: SortOrder;
+  per_page?: number;
+  page?: number;
+}
+
+export interface ListMembersParams {
+  per_page?: number;
+  page?: number;
+}
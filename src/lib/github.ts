@@ -0,0 +1,316 @@
+import axios, { type AxiosInstance } from "axios";
+import { baseUrl } from "./utils";
+import { getPageParam, parseLinkHeader } from "./pagination";
+import { parseRateLimit, rateLimitStore, type RateLimit } from "./rate-limit";
+import { createResponseCache, type CachedResponse, type ResponseCache } from "./response-cache";
+import { readStorage, STORAGE_KEYS } from "./storage";
+import type {
+  Commit,
+  Contributor,
+  ListMembersParams,
+  ListOrgReposParams,
+  ListRepoItemsParams,
+  ListReposParams,
+  Organization,
+  Release,
+  Repo,
+  RepoLanguages,
+  RepoSearchItem,
+  SearchReposParams,
+  SearchResponse,
+  SearchUsersParams,
+  SimpleUser,
+  User,
+  UserSearchItem,
+} from "./github-types";
+
+export type QueryValue = string | number | boolean | null | undefined;
+export type QueryParams = Record<string, QueryValue>;
+
+export function toQueryString(params: QueryParams = {}): string {
+  const parts = Object.entries(params)
+    .filter(([, value]) => value !== undefined && value !== null && value !== "")
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`);
+  return parts.length ? `?${parts.join("&")}` : "";
+}
+
+export type GithubErrorKind =
+  | "aborted"
+  | "network"
+  | "rate_limit"
+  | "abuse"
+  | "unauthorized"
+  | "not_found"
+  | "invalid_query"
+  | "server"
+  | "unknown";
+
+export interface GithubApiErrorDetails {
+  status?: number | null;
+  data?: unknown;
+  rateLimit?: RateLimit | null;
+  /** Seconds from the `Retry-After` header, sent with secondary rate limits. */
+  retryAfter?: number | null;
+  /** The request never got a response (offline, DNS, CORS, ...). */
+  network?: boolean;
+  /** The caller cancelled the request through its AbortSignal. */
+  aborted?: boolean;
+}
+
+export class GithubApiError extends Error {
+  readonly status: number | null;
+  readonly data: unknown;
+  readonly rateLimit: RateLimit | null;
+  readonly retryAfter: number | null;
+  readonly kind: GithubErrorKind;
+
+  constructor(message: string, details: GithubApiErrorDetails = {}) {
+    super(message);
+    this.name = "GithubApiError";
+    this.status = details.status ?? null;
+    this.data = details.data;
+    this.rateLimit = details.rateLimit ?? null;
+    this.retryAfter = details.retryAfter ?? null;
+    this.kind = details.aborted ? "aborted" : classify(this, details.network ?? false);
+  }
+
+  /** GitHub answers an exhausted quota with 403 (or 429) and `X-RateLimit-Remaining: 0`. */
+  get isRateLimited(): boolean {
+    return (this.status === 403 || this.status === 429) && this.rateLimit?.remaining === 0;
+  }
+}
+
+function classify(error: GithubApiError, network: boolean): GithubErrorKind {
+  if (network) return "network";
+  if (error.isRateLimited) return "rate_limit";
+  switch (error.status) {
+    case null:
+      return "unknown";
+    case 401:
+      return "unauthorized";
+    case 403:
+    case 429:
+      return error.retryAfter !== null || /secondary rate limit|abuse/i.test(error.message) ? "abuse" : "unknown";
+    case 404:
+      return "not_found";
+    case 422:
+      return "invalid_query";
+    default:
+      return error.status >= 500 ? "server" : "unknown";
+  }
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  /** Revalidate with GitHub even when the cached copy is still fresh. */
+  refresh?: boolean;
+}
+
+/** One page of a list endpoint, with neighbours resolved from the `Link` header. */
+export interface Page<T> {
+  items: T[];
+  nextPage: number | null;
+  lastPage: number | null;
+  /** Epoch ms at which GitHub last confirmed this page; older than now when served from the cache. */
+  fetchedAt: number;
+}
+
+export interface GithubClient {
+  searchUsers(params: SearchUsersParams, options?: RequestOptions): Promise<SearchResponse<UserSearchItem>>;
+  searchRepos(params: SearchReposParams, options?: RequestOptions): Promise<SearchResponse<RepoSearchItem>>;
+  getUser(login: string, options?: RequestOptions): Promise<User>;
+  listUserRepos(login: string, params?: ListReposParams, options?: RequestOptions): Promise<Page<Repo>>;
+  getOrg(org: string, options?: RequestOptions): Promise<Organization>;
+  listOrgRepos(org: string, params?: ListOrgReposParams, options?: RequestOptions): Promise<Page<Repo>>;
+  /** Only members who made their membership public; the full list needs org access. */
+  listOrgMembers(org: string, params?: ListMembersParams, options?: RequestOptions): Promise<Page<SimpleUser>>;
+  getRepo(owner: string, repo: string, options?: RequestOptions): Promise<Repo>;
+  /** The README rendered to HTML by GitHub, which also sanitizes it. */
+  getRepoReadme(owner: string, repo: string, options?: RequestOptions): Promise<string>;
+  getRepoLanguages(owner: string, repo: string, options?: RequestOptions): Promise<RepoLanguages>;
+  listRepoContributors(
+    owner: string, repo: string, params?: ListRepoItemsParams, options?: RequestOptions): Promise<Page<Contributor>>;
+  /** Rejects with a 404 when the repository has no published release. */
+  getLatestRelease(owner: string, repo: string, options?: RequestOptions): Promise<Release>;
+  listRepoCommits(owner: string, repo: string, params?: ListRepoItemsParams, options?: RequestOptions): Promise<Page<Commit>>;
+}
+
+export interface GithubClientConfig {
+  baseUrl?: string;
+  /** Transport used for requests; defaults to the shared axios instance. */
+  http?: Pick<AxiosInstance, "get">;
+  headers?: Record<string, string>;
+  /** Read before every request so a token saved in settings applies immediately. */
+  getToken?: () => string | null | undefined;
+  /** Called with the `X-RateLimit-*` values of every response that carries them. */
+  onRateLimit?: (rate: RateLimit) => void;
+  /** How many times a network failure or 5xx response is retried. */
+  retries?: number;
+  /** Base delay in ms, doubled on every retry. */
+  retryDelay?: number;
+  /** Responses are kept here and revalidated with `If-None-Match`; a 304 is free on the rate limit. */
+  cache?: ResponseCache;
+}
+
+const defaultHeaders = {
+  Accept: "application/vnd.github+json",
+  "X-GitHub-Api-Version": "2022-11-28",
+};
+
+const htmlMediaType = "application/vnd.github.html+json";
+
+/** axios rejects anything outside 2xx by default, but a 304 answers a conditional request. */
+const validateStatus = (status: number) => (status >= 200 && status < 300) || status === 304;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function isRetryable(error: unknown) {
+  if (axios.isCancel(error) || !axios.isAxiosError(error)) return false;
+  return !error.response || error.response.status >= 500;
+}
+
+/**
+ * Short fingerprint of a token for cache keys. What GitHub returns depends on who asks, so responses
+ * are cached per token; the token itself is not repeated in every key.
+ */
+function tokenId(token: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash = Math.imul(hash ^ token.charCodeAt(i), 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof GithubApiError && error.kind === "aborted";
+}
+
+function toApiError(error: unknown): GithubApiError {
+  if (error instanceof GithubApiError) return error;
+  if (axios.isAxiosError(error)) {
+    const data = error.response?.data as { message?: string } | undefined;
+    const headers = error.response?.headers;
+    const retryAfter = headers?.["retry-after"];
+    return new GithubApiError(data?.message ?? error.message, {
+      status: error.response?.status ?? null,
+      data,
+      rateLimit: parseRateLimit(headers),
+      retryAfter: retryAfter == null ? null : Number(retryAfter),
+      network: !error.response && !axios.isCancel(error),
+      aborted: axios.isCancel(error),
+    });
+  }
+  return new GithubApiError(error instanceof Error ? error.message : String(error));
+}
+
+export function createGithubClient(config: GithubClientConfig = {}): GithubClient {
+  const { http = axios, retries = 2, retryDelay = 500, getToken, onRateLimit, cache } = config;
+  const root = config.baseUrl ?? baseUrl;
+
+  const buildHeaders = (token: string | null | undefined) => {
+    return token
+      ? { ...defaultHeaders, ...config.headers, Authorization: `Bearer ${token}` }
+      : { ...defaultHeaders, ...config.headers };
+  };
+
+  const reportRateLimit = (headers: Record<string, unknown> | undefined) => {
+    const rate = parseRateLimit(headers);
+    if (rate) onRateLimit?.(rate);
+  };
+
+  async function send<T>(url: string, headers: Record<string, string>, options: RequestOptions) {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const res = await http.get<T>(url, { headers, signal: options.signal, validateStatus });
+        reportRateLimit(res.headers);
+        return res;
+      } catch (error) {
+        if (axios.isAxiosError(error)) reportRateLimit(error.response?.headers);
+        if (attempt >= retries || !isRetryable(error) || options.signal?.aborted) {
+          throw toApiError(error);
+        }
+        await wait(retryDelay * 2 ** attempt);
+        if (options.signal?.aborted) throw new GithubApiError("Request aborted", { aborted: true });
+      }
+    }
+  }
+
+  async function request<T>(
+    path: string,
+    query?: QueryParams,
+    options: RequestOptions = {},
+    accept?: string,
+  ): Promise<CachedResponse<T>> {
+    const url = `${root}${path}${toQueryString(query)}`;
+    const token = getToken?.();
+    const cacheKey = token ? `${tokenId(token)}:${url}` : url;
+    const cached = cache?.get<T>(cacheKey) ?? null;
+    if (cached && !options.refresh && cache!.isFresh(cached)) return cached;
+
+    const headers = accept ? { ...buildHeaders(token), Accept: accept } : buildHeaders(token);
+    const res = await send<T>(url, cached?.etag ? { ...headers, "If-None-Match": cached.etag } : headers, options);
+    if (res.status === 304 && cached) return cache!.touch<T>(cacheKey) ?? { ...cached, fetchedAt: Date.now() };
+
+    const entry: CachedResponse<T> = {
+      data: res.data,
+      etag: (res.headers?.etag as string | undefined) ?? null,
+      link: (res.headers?.link as string | undefined) ?? null,
+      fetchedAt: Date.now(),
+    };
+    cache?.set(cacheKey, entry);
+    return entry;
+  }
+
+  async function get<T>(path: string, query?: QueryParams, options?: RequestOptions, accept?: string): Promise<T> {
+    const res = await request<T>(path, query, options, accept);
+    return res.data;
+  }
+
+  async function getPage<T>(path: string, query?: QueryParams, options?: RequestOptions): Promise<Page<T>> {
+    const res = await request<T[]>(path, query, options);
+    const links = parseLinkHeader(res.link);
+    return {
+      // Empty repositories answer list endpoints like contributors with 204 and no body.
+      items: Array.isArray(res.data) ? res.data : [],
+      nextPage: getPageParam(links.next),
+      lastPage: getPageParam(links.last),
+      fetchedAt: res.fetchedAt,
+    };
+  }
+
+  const userPath = (login: string) => `/users/${encodeURIComponent(login)}`;
+  const orgPath = (org: string) => `/orgs/${encodeURIComponent(org)}`;
+  const repoPath = (owner: string, repo: string) => `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+
+  return {
+    searchUsers: ({ q, ...rest }, options) =>
+      get<SearchResponse<UserSearchItem>>("/search/users", { q, ...rest }, options),
+    searchRepos: ({ q, ...rest }, options) =>
+      get<SearchResponse<RepoSearchItem>>("/search/repositories", { q, ...rest }, options),
+    getUser: (login, options) => get<User>(userPath(login), undefined, options),
+    listUserRepos: (login, params = {}, options) =>
+      getPage<Repo>(`${userPath(login)}/repos`, { ...params }, options),
+    getOrg: (org, options) => get<Organization>(orgPath(org), undefined, options),
+    listOrgRepos: (org, params = {}, options) =>
+      getPage<Repo>(`${orgPath(org)}/repos`, { ...params }, options),
+    listOrgMembers: (org, params = {}, options) =>
+      getPage<SimpleUser>(`${orgPath(org)}/public_members`, { ...params }, options),
+    getRepo: (owner, repo, options) => get<Repo>(repoPath(owner, repo), undefined, options),
+    getRepoReadme: (owner, repo, options) =>
+      get<string>(`${repoPath(owner, repo)}/readme`, undefined, options, htmlMediaType),
+    getRepoLanguages: (owner, repo, options) =>
+      get<RepoLanguages>(`${repoPath(owner, repo)}/languages`, undefined, options),
+    listRepoContributors: (owner, repo, params = {}, options) =>
+      getPage<Contributor>(`${repoPath(owner, repo)}/contributors`, { ...params }, options),
+    getLatestRelease: (owner, repo, options) =>
+      get<Release>(`${repoPath(owner, repo)}/releases/latest`, undefined, options),
+    listRepoCommits: (owner, repo, params = {}, options) =>
+      getPage<Commit>(`${repoPath(owner, repo)}/commits`, { ...params }, options),
+  };
+}
+
+export const githubClient = createGithubClient({
+  getToken: () => readStorage<string | null>(STORAGE_KEYS.token, null),
+  onRateLimit: rateLimitStore.update,
+  cache: createResponseCache(),
+});
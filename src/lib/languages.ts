@@ -0,0 +1,75 @@
+/** Colors from GitHub's linguist for the languages most repositories use. */
+const languageColors: Record<string, string> = {
+  C: "#555555",
+  "C#": "#178600",
+  "C++": "#f34b7d",
+  Clojure: "#db5855",
+  CSS: "#563d7c",
+  Dart: "#00B4AB",
+  Dockerfile: "#384d54",
+  Elixir: "#6e4a7e",
+  Elm: "#60B5CC",
+  Erlang: "#B83998",
+  Go: "#00ADD8",
+  Groovy: "#4298b8",
+  Haskell: "#5e5086",
+  HTML: "#e34c26",
+  Java: "#b07219",
+  JavaScript: "#f1e05a",
+  "Jupyter Notebook": "#DA5B0B",
+  Kotlin: "#A97BFF",
+  Lua: "#000080",
+  Makefile: "#427819",
+  Nix: "#7e7eff",
+  "Objective-C": "#438eff",
+  OCaml: "#ef7a08",
+  Perl: "#0298c3",
+  PHP: "#4F5D95",
+  PowerShell: "#012456",
+  Python: "#3572A5",
+  R: "#198CE7",
+  Ruby: "#701516",
+  Rust: "#dea584",
+  Scala: "#c22d40",
+  SCSS: "#c6538c",
+  Shell: "#89e051",
+  Swift: "#F05138",
+  TeX: "#3D6117",
+  TypeScript: "#3178c6",
+  Vim: "#199f4b",
+  "Vim Script": "#199f4b",
+  Vue: "#41b883",
+  Zig: "#ec915c",
+};
+
+const fallbackColor = "#8b949e";
+
+export function getLanguageColor(language: string | null | undefined): string {
+  return (language && languageColors[language]) || fallbackColor;
+}
+
+const otherColor = "#9ca3af";
+
+/** Color of a ranked language, with a neutral gray for the folded `"Other"` entry. */
+export function getShareColor(language: string): string {
+  return language === "Other" ? otherColor : getLanguageColor(language);
+}
+
+export interface LanguageShare {
+  /** `"Other"` collects every language past the top few. */
+  language: string;
+  /** Repos using the language, or bytes of code when ranking a single repo. */
+  count: number;
+  /** Fraction of the total, between 0 and 1. */
+  share: number;
+}
+
+/** Ranks languages by count, keeping the `top` ones and folding the rest into `"Other"`. */
+export function rankLanguages(counts: Iterable<[string, number]>, top = 5): LanguageShare[] {
+  const ranked = [...counts].filter(([, count]) => count > 0).sort(([a, x], [b, y]) => y - x || a.localeCompare(b));
+  const total = ranked.reduce((sum, [, count]) => sum + count, 0);
+  const kept = ranked.slice(0, top);
+  const other = ranked.slice(top).reduce((sum, [, count]) => sum + count, 0);
+  if (other > 0) kept.push(["Other", other]);
+  return kept.map(([language, count]) => ({ language, count, share: count / total }));
+}
@@ -0,0 +1,52 @@
+import type { AppError } from "./errors";
+import type { Page } from "./github";
+import type { Repo, SimpleUser } from "./github-types";
+import { rankLanguages, type LanguageShare } from "./languages";
+import type { FailedLoad, RepoRequestStatus } from "./repo-pages";
+
+/** The public members of an organization loaded so far, and where to continue from. */
+export interface MemberPages {
+  members: SimpleUser[];
+  nextPage: number | null;
+  lastPage: number | null;
+}
+
+export function mergeMemberPage(current: MemberPages | undefined, page: Page<SimpleUser>): MemberPages {
+  const members = current?.members ?? [];
+  const seen = new Set(members.map(member => member.id));
+  return {
+    members: [...members, ...page.items.filter(member => !seen.has(member.id))],
+    nextPage: page.nextPage,
+    lastPage: page.lastPage ?? current?.lastPage ?? null,
+  };
+}
+
+export interface MemberRequest {
+  status: RepoRequestStatus;
+  pages?: MemberPages;
+  error?: AppError;
+  failed?: FailedLoad;
+  loadingMore: boolean;
+}
+
+export const idleMemberRequest: MemberRequest = { status: "idle", loadingMore: false };
+
+export interface RepoSummary {
+  repoCount: number;
+  stars: number;
+  forks: number;
+  languages: LanguageShare[];
+}
+
+/** Totals and language mix over a set of repos, keeping the `top` languages and folding the rest. */
+export function summarizeRepos(repos: Repo[], top = 5): RepoSummary {
+  const counts = new Map<string, number>();
+  let stars = 0;
+  let forks = 0;
+  for (const repo of repos) {
+    stars += repo.stargazers_count;
+    forks += repo.forks_count;
+    if (repo.language) counts.set(repo.language, (counts.get(repo.language) ?? 0) + 1);
+  }
+  return { repoCount: repos.length, stars, forks, languages: rankLanguages(counts, top) };
+}
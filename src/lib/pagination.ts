@@ -0,0 +1,36 @@
+/** GitHub's search API never returns more than the first 1000 matches. */
+export const SEARCH_RESULT_LIMIT = 1000;
+
+export function getPageCount(totalCount: number, perPage: number, limit = SEARCH_RESULT_LIMIT): number {
+  if (totalCount <= 0 || perPage <= 0) return 0;
+  return Math.ceil(Math.min(totalCount, limit) / perPage);
+}
+
+/** Page numbers to render around the current page, at most `size` of them. */
+export function getPageWindow(page: number, pageCount: number, size = 5): number[] {
+  const count = Math.min(size, pageCount);
+  const start = Math.min(Math.max(1, page - Math.floor(count / 2)), pageCount - count + 1);
+  return Array.from({ length: count }, (_, i) => start + i);
+}
+
+export type LinkRel = "first" | "prev" | "next" | "last";
+
+/** Parses an RFC 8288 `Link` header, as sent by GitHub on paginated endpoints. */
+export function parseLinkHeader(header: string | null | undefined): Partial<Record<LinkRel, string>> {
+  const links: Partial<Record<LinkRel, string>> = {};
+  if (!header) return links;
+  for (const part of header.split(",")) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="([^"]+)"/);
+    if (!match) continue;
+    for (const rel of match[2].split(/\s+/)) {
+      links[rel as LinkRel] = match[1];
+    }
+  }
+  return links;
+}
+
+export function getPageParam(url: string | undefined): number | null {
+  if (!url) return null;
+  const page = Number(new URL(url, "http://localhost").searchParams.get("page"));
+  return Number.isInteger(page) && page > 0 ? page : null;
+}
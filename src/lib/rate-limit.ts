@@ -0,0 +1,71 @@
+export interface RateLimit {
+  /** Bucket the limit applies to, e.g. `core` or `search`. */
+  resource: string;
+  limit: number;
+  remaining: number;
+  used: number;
+  /** Epoch milliseconds at which the bucket refills. */
+  resetAt: number;
+}
+
+type HeaderBag = Record<string, unknown> | undefined | null;
+
+export function parseRateLimit(headers: HeaderBag): RateLimit | null {
+  const header = (name: string) => {
+    const value = headers?.[name];
+    return value === undefined || value === null ? null : String(value);
+  };
+  const limit = header("x-ratelimit-limit");
+  const remaining = header("x-ratelimit-remaining");
+  const reset = header("x-ratelimit-reset");
+  if (limit === null || remaining === null || reset === null) return null;
+  return {
+    resource: header("x-ratelimit-resource") ?? "core",
+    limit: Number(limit),
+    remaining: Number(remaining),
+    used: Number(header("x-ratelimit-used") ?? Number(limit) - Number(remaining)),
+    resetAt: Number(reset) * 1000,
+  };
+}
+
+export function isExhausted(rate: RateLimit, now = Date.now()): boolean {
+  return rate.remaining <= 0 && rate.resetAt > now;
+}
+
+/** Formats a duration as `m:ss`, rounding up so the countdown never shows 0:00 early. */
+export function formatCountdown(ms: number): string {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(total / 60);
+  const seconds = total % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+type Listener = () => void;
+
+/** Latest known limit per resource, fed by the API client and read with `useRateLimits`. */
+export function createRateLimitStore() {
+  let limits: Record<string, RateLimit> = {};
+  const listeners = new Set<Listener>();
+
+  return {
+    getSnapshot: () => limits,
+    subscribe(listener: Listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    update(rate: RateLimit) {
+      limits = { ...limits, [rate.resource]: rate };
+      listeners.forEach(listener => listener());
+    },
+    reset() {
+      limits = {};
+      listeners.forEach(listener => listener());
+    },
+  };
+}
+
+export type RateLimitStore = ReturnType<typeof createRateLimitStore>;
+
+export const rateLimitStore = createRateLimitStore();
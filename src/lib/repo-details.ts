@@ -0,0 +1,45 @@
+import type { AppError } from "./errors";
+import { GithubApiError } from "./github";
+import type { Commit, Contributor, Release } from "./github-types";
+import type { LanguageShare } from "./languages";
+
+/** One independently loaded part of the repository detail panel. */
+export type DetailSection<T> =
+  | { status: "loading" }
+  | { status: "loaded"; data: T }
+  | { status: "error"; error: AppError };
+
+export interface RepoDetails {
+  /** Rendered HTML, `null` when the repository has no README. */
+  readme: DetailSection<string | null>;
+  languages: DetailSection<LanguageShare[]>;
+  contributors: DetailSection<Contributor[]>;
+  /** `null` when nothing has been released yet. */
+  release: DetailSection<Release | null>;
+  commits: DetailSection<Commit[]>;
+}
+
+export type DetailData<K extends keyof RepoDetails> = RepoDetails[K] extends DetailSection<infer T> ? T : never;
+
+export const loadingDetails: RepoDetails = {
+  readme: { status: "loading" },
+  languages: { status: "loading" },
+  contributors: { status: "loading" },
+  release: { status: "loading" },
+  commits: { status: "loading" },
+};
+
+/** Resolves to `null` for a 404, which for READMEs and releases only means there is none. */
+export async function nullIfNotFound<T>(request: Promise<T>): Promise<T | null> {
+  try {
+    return await request;
+  } catch (e) {
+    if (e instanceof GithubApiError && e.kind === "not_found") return null;
+    throw e;
+  }
+}
+
+/** The first line of a commit message. */
+export function commitSubject(message: string): string {
+  return message.split("\n", 1)[0].trim();
+}
@@ -0,0 +1,55 @@
+import type { Repo } from "./github-types";
+
+export type RepoSortKey = "stars" | "forks" | "pushed" | "name";
+
+/** Client-side view options for one user's repository list. */
+export interface RepoListOptions {
+  sort: RepoSortKey;
+  hideForks: boolean;
+  hideArchived: boolean;
+  language: string;
+  topic: string;
+  text: string;
+}
+
+export const defaultRepoListOptions: RepoListOptions = {
+  sort: "stars",
+  hideForks: false,
+  hideArchived: false,
+  language: "",
+  topic: "",
+  text: "",
+};
+
+const pushedTime = (repo: Repo) => (repo.pushed_at ? Date.parse(repo.pushed_at) : 0);
+
+const comparators: Record<RepoSortKey, (a: Repo, b: Repo) => number> = {
+  stars: (a, b) => b.stargazers_count - a.stargazers_count,
+  forks: (a, b) => b.forks_count - a.forks_count,
+  pushed: (a, b) => pushedTime(b) - pushedTime(a),
+  name: (a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: "base" }),
+};
+
+export function applyRepoListOptions(repos: Repo[], options: RepoListOptions): Repo[] {
+  const text = options.text.trim().toLowerCase();
+  return repos
+    .filter(repo =>
+      (!options.hideForks || !repo.fork) &&
+      (!options.hideArchived || !repo.archived) &&
+      (!options.language || repo.language === options.language) &&
+      (!options.topic || (repo.topics ?? []).includes(options.topic)) &&
+      (!text || repo.name.toLowerCase().includes(text) || (repo.description ?? "").toLowerCase().includes(text)))
+    .sort(comparators[options.sort]);
+}
+
+export function isFiltered(options: RepoListOptions): boolean {
+  return options.hideForks || options.hideArchived || !!options.language || !!options.topic || !!options.text.trim();
+}
+
+export function collectLanguages(repos: Repo[]): string[] {
+  return [...new Set(repos.map(repo => repo.language).filter((lang): lang is string => !!lang))].sort();
+}
+
+export function collectTopics(repos: Repo[]): string[] {
+  return [...new Set(repos.flatMap(repo => repo.topics ?? []))].sort();
+}
@@ -0,0 +1,46 @@
+import type { Repo } from "./github-types";
+import type { Page } from "./github";
+import type { AppError } from "./errors";
+
+/** The repos loaded so far for one user, and where to continue from. */
+export interface RepoPages {
+  repos: Repo[];
+  fetchedPages: number[];
+  nextPage: number | null;
+  lastPage: number | null;
+  /** When the oldest loaded page was confirmed by GitHub. */
+  fetchedAt: number;
+}
+
+export function mergeRepoPage(current: RepoPages | undefined, pageNumber: number, page: Page<Repo>): RepoPages {
+  const repos = current?.repos ?? [];
+  const seen = new Set(repos.map(repo => repo.id));
+  const fetchedPages = current?.fetchedPages ?? [];
+  return {
+    repos: [...repos, ...page.items.filter(repo => !seen.has(repo.id))],
+    fetchedPages: fetchedPages.includes(pageNumber) ? fetchedPages : [...fetchedPages, pageNumber],
+    nextPage: page.nextPage,
+    lastPage: page.lastPage ?? current?.lastPage ?? (page.nextPage ? null : pageNumber),
+    fetchedAt: Math.min(current?.fetchedAt ?? page.fetchedAt, page.fetchedAt),
+  };
+}
+
+export type RepoRequestStatus = "idle" | "loading" | "loaded" | "error";
+
+/** The load that failed, so a retry repeats it: the first page (also a refresh) or the pages after it. */
+export type FailedLoad = "first" | "more";
+
+/** Where one user's repositories stand; every user loads independently of the others. */
+export interface RepoRequest {
+  status: RepoRequestStatus;
+  pages?: RepoPages;
+  error?: AppError;
+  failed?: FailedLoad;
+  /** A later page is on its way while the loaded ones stay on screen. */
+  loadingMore: boolean;
+}
+
+export const idleRepoRequest: RepoRequest = { status: "idle", loadingMore: false };
+
+/** When repositories are fetched ahead of expanding a user. */
+export type RepoPrefetch = "off" | "hover" | "background";
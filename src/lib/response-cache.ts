@@ -0,0 +1,160 @@
+import { STORAGE_KEYS } from "./storage";
+
+/** A GitHub response body kept for conditional revalidation. */
+export interface CachedResponse<T = unknown> {
+  data: T;
+  etag: string | null;
+  /** Raw `Link` header, needed to rebuild pagination from a cached page. */
+  link: string | null;
+  /** Epoch ms at which GitHub last confirmed the body, by a 200 or a 304. */
+  fetchedAt: number;
+}
+
+interface IndexEntry {
+  size: number;
+  usedAt: number;
+}
+
+export interface ResponseCacheOptions {
+  storage?: Pick<Storage, "getItem" | "setItem" | "removeItem">;
+  /** Entries younger than this are served without asking GitHub at all. */
+  ttl?: number;
+  /** Entries older than this are dropped instead of revalidated. */
+  maxAge?: number;
+  /** Upper bound for the serialized entries; least recently used ones are evicted first. */
+  maxBytes?: number;
+  now?: () => number;
+}
+
+/**
+ * Response cache persisted in localStorage, one key per request URL plus an index of sizes
+ * and last use, so eviction never has to parse the cached bodies.
+ */
+export function createResponseCache(options: ResponseCacheOptions = {}) {
+  const {
+    ttl = 5 * 60_000,
+    maxAge = 24 * 3600_000,
+    maxBytes = 2_000_000,
+    now = Date.now,
+  } = options;
+  const entryKey = (key: string) => `${STORAGE_KEYS.cache}:${key}`;
+
+  // Storage can be full or disabled (e.g. private mode), and where it is disabled even reading
+  // `window.localStorage` throws; so it is looked up on use, and any failure only costs the cache.
+  const storage = () => options.storage ?? window.localStorage;
+
+  const read = (key: string): string | null => {
+    try {
+      return storage().getItem(key);
+    } catch {
+      return null;
+    }
+  };
+
+  const write = (key: string, value: string): boolean => {
+    try {
+      storage().setItem(key, value);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  const erase = (key: string) => {
+    try {
+      storage().removeItem(key);
+    } catch {
+      // Nothing was cached there then.
+    }
+  };
+
+  const readIndex = (): Record<string, IndexEntry> => {
+    try {
+      return JSON.parse(read(STORAGE_KEYS.cache) ?? "{}");
+    } catch {
+      return {};
+    }
+  };
+
+  const writeIndex = (index: Record<string, IndexEntry>) => write(STORAGE_KEYS.cache, JSON.stringify(index));
+
+  const remove = (index: Record<string, IndexEntry>, key: string) => {
+    erase(entryKey(key));
+    delete index[key];
+  };
+
+  /** Drops least recently used entries until `incoming` more bytes fit under the budget. */
+  const evict = (index: Record<string, IndexEntry>, incoming: number) => {
+    const keys = Object.keys(index).sort((a, b) => index[a].usedAt - index[b].usedAt);
+    let total = keys.reduce((sum, key) => sum + index[key].size, 0);
+    for (const key of keys) {
+      if (total + incoming <= maxBytes) break;
+      total -= index[key].size;
+      remove(index, key);
+    }
+  };
+
+  function get<T>(key: string): CachedResponse<T> | null {
+    const raw = read(entryKey(key));
+    if (raw === null) return null;
+    const index = readIndex();
+    let entry: CachedResponse<T> | null = null;
+    try {
+      entry = JSON.parse(raw) as CachedResponse<T>;
+    } catch {
+      // Unreadable entries are dropped below like expired ones.
+    }
+    if (!entry || now() - entry.fetchedAt > maxAge) {
+      remove(index, key);
+      writeIndex(index);
+      return null;
+    }
+    index[key] = { size: raw.length, usedAt: now() };
+    writeIndex(index);
+    return entry;
+  }
+
+  function set<T>(key: string, entry: CachedResponse<T>): void {
+    const raw = JSON.stringify(entry);
+    const index = readIndex();
+    if (key in index) remove(index, key);
+    if (raw.length > maxBytes) {
+      writeIndex(index);
+      return;
+    }
+    evict(index, raw.length);
+    // The browser quota can be smaller than ours; make room once and give up if it still fails.
+    if (!write(entryKey(key), raw)) {
+      evict(index, maxBytes);
+      if (!write(entryKey(key), raw)) {
+        writeIndex(index);
+        return;
+      }
+    }
+    index[key] = { size: raw.length, usedAt: now() };
+    writeIndex(index);
+  }
+
+  /** Records that GitHub confirmed an entry is still current (a 304). */
+  function touch<T>(key: string): CachedResponse<T> | null {
+    const entry = get<T>(key);
+    if (!entry) return null;
+    const confirmed = { ...entry, fetchedAt: now() };
+    set(key, confirmed);
+    return confirmed;
+  }
+
+  function isFresh(entry: CachedResponse): boolean {
+    return now() - entry.fetchedAt < ttl;
+  }
+
+  function clear(): void {
+    const index = readIndex();
+    Object.keys(index).forEach(key => remove(index, key));
+    erase(STORAGE_KEYS.cache);
+  }
+
+  return { get, set, touch, isFresh, clear };
+}
+
+export type ResponseCache = ReturnType<typeof createResponseCache>;
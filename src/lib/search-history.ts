@@ -0,0 +1,74 @@
+import { buildSearchRequest, emptyFilters, emptyRepoFilters, type SearchInput, type SearchRequest } from "./search-query";
+import { readStorage, STORAGE_KEYS, writeStorage } from "./storage";
+
+/** How many recent searches are remembered. */
+export const HISTORY_LIMIT = 10;
+
+/** A search as it is stored: the input to restore, and the request it built for showing and matching. */
+export interface StoredSearch {
+  input: SearchInput;
+  request: SearchRequest;
+}
+
+export interface HistoryEntry extends StoredSearch {
+  searchedAt: string;
+}
+
+export interface SavedSearch extends StoredSearch {
+  id: string;
+  name: string;
+  savedAt: string;
+}
+
+/** Two searches are the same when they would fetch the same results. */
+export const sameSearch = (a: StoredSearch, b: StoredSearch): boolean =>
+  JSON.stringify(a.request) === JSON.stringify(b.request);
+
+/** Fills filter fields missing from an older stored search, so it still restores into the current form. */
+function normalizeInput(input: SearchInput): SearchInput {
+  return {
+    mode: input.mode === "repos" ? "repos" : "users",
+    term: input.term ?? "",
+    filters: { ...emptyFilters, ...input.filters },
+    repoFilters: { ...emptyRepoFilters, ...input.repoFilters },
+  };
+}
+
+function toStored(input: SearchInput): StoredSearch {
+  const normalized = normalizeInput(input);
+  return { input: normalized, request: buildSearchRequest(normalized) };
+}
+
+/** Puts `input` at the top of the history, dropping an older copy of the same search and the oldest past `limit`. */
+export function recordSearch(history: HistoryEntry[], input: SearchInput, now = new Date(), limit = HISTORY_LIMIT): HistoryEntry[] {
+  const entry = { ...toStored(input), searchedAt: now.toISOString() };
+  if (!entry.request.q) return history;
+  return [entry, ...history.filter(existing => !sameSearch(existing, entry))].slice(0, limit);
+}
+
+/**
+ * Adds a search to the stored history. Goes to storage directly rather than through a hook, so
+ * effects can call it without depending on the current history.
+ */
+export function rememberSearch(input: SearchInput, now = new Date()): void {
+  writeStorage(STORAGE_KEYS.history, recordSearch(readStorage<HistoryEntry[]>(STORAGE_KEYS.history, []), input, now));
+}
+
+/** Saves `input` under `name`; saving the same search again renames it instead of adding a copy. */
+export function saveSearch(saved: SavedSearch[], name: string, input: SearchInput, now = new Date()): SavedSearch[] {
+  const stored = toStored(input);
+  const existing = saved.find(search => sameSearch(search, stored));
+  if (existing) return saved.map(search => (search === existing ? { ...search, name } : search));
+  return [...saved, { ...stored, id: `${now.getTime()}-${saved.length}`, name, savedAt: now.toISOString() }];
+}
+
+/** Entries whose query or name contains `text`, ignoring case; everything when `text` is blank. */
+export function matchSearches<T extends StoredSearch & { name?: string }>(searches: T[], text: string): T[] {
+  const needle = text.trim().toLowerCase();
+  if (!needle) return searches;
+  return searches.filter(search =>
+    search.request.q.toLowerCase().includes(needle) || search.name?.toLowerCase().includes(needle));
+}
+
+/** Restores a stored input, normalized against the current filter shapes. */
+export const restoreInput = (search: StoredSearch): SearchInput => normalizeInput(search.input);
@@ -0,0 +1,132 @@
+import type { SearchReposParams, SearchReposSort, SearchUsersParams, SearchUsersSort, SortOrder } from "./github-types";
+
+/** Which GitHub search the explorer runs: accounts or repositories. */
+export type SearchMode = "users" | "repos";
+
+export type AccountFilter = "" | "user" | "org";
+
+/** Qualifiers for GitHub user search, see https://docs.github.com/en/search-github/searching-on-github/searching-users */
+export interface UserSearchFilters {
+  type: AccountFilter;
+  location: string;
+  language: string;
+  /** Range expressions as GitHub accepts them: `100`, `>100`, `<=10`, `10..50`. */
+  followers: string;
+  repos: string;
+  created: string;
+  sort: SearchUsersSort | "";
+  order: SortOrder;
+}
+
+export const emptyFilters: UserSearchFilters = {
+  type: "",
+  location: "",
+  language: "",
+  followers: "",
+  repos: "",
+  created: "",
+  sort: "",
+  order: "desc",
+};
+
+/** Qualifiers for GitHub repository search, see https://docs.github.com/en/search-github/searching-on-github/searching-for-repositories */
+export interface RepoSearchFilters {
+  language: string;
+  /** Range expressions, like the user filters. */
+  stars: string;
+  topic: string;
+  pushed: string;
+  sort: SearchReposSort | "";
+  order: SortOrder;
+}
+
+export const emptyRepoFilters: RepoSearchFilters = {
+  language: "",
+  stars: "",
+  topic: "",
+  pushed: "",
+  sort: "",
+  order: "desc",
+};
+
+/** What the user typed and picked, before it is turned into a `q` string. */
+export interface UserSearchInput {
+  term: string;
+  filters: UserSearchFilters;
+}
+
+/** The input of either search; only the filters of `mode` take part in the query. */
+export interface SearchInput extends UserSearchInput {
+  mode: SearchMode;
+  repoFilters: RepoSearchFilters;
+}
+
+/** The search request minus pagination, i.e. everything that identifies a result set. */
+export type UserSearchRequest = Omit<SearchUsersParams, "page" | "per_page">;
+export type RepoSearchRequest = Omit<SearchReposParams, "page" | "per_page">;
+
+export type SearchRequest = ({ mode: "users" } & UserSearchRequest) | ({ mode: "repos" } & RepoSearchRequest);
+
+const qualifierKeys = ["type", "location", "language", "followers", "repos", "created"] as const;
+const userRangeKeys = new Set<string>(["followers", "repos", "created"]);
+const repoQualifierKeys = ["language", "stars", "topic", "pushed"] as const;
+const repoRangeKeys = new Set<string>(["stars", "pushed"]);
+
+const quote = (value: string) => (/\s/.test(value) ? `"${value.replace(/"/g, "")}"` : value);
+
+/** Drops whitespace inside range expressions so `> 100` still reaches GitHub as `>100`. */
+const compactRange = (value: string) => value.replace(/\s+/g, "");
+
+function buildQuery<K extends string>(
+  term: string,
+  keys: readonly K[],
+  values: Record<K, string>,
+  rangeKeys: Set<string>,
+): string {
+  const parts = term.trim() ? [term.trim()] : [];
+  for (const key of keys) {
+    const value = values[key].trim();
+    if (!value) continue;
+    parts.push(`${key}:${rangeKeys.has(key) ? compactRange(value) : quote(value)}`);
+  }
+  return parts.join(" ");
+}
+
+export function buildUserSearchQuery(term: string, filters: UserSearchFilters): string {
+  return buildQuery(term, qualifierKeys, filters, userRangeKeys);
+}
+
+export function buildUserSearchRequest(term: string, filters: UserSearchFilters): UserSearchRequest {
+  const q = buildUserSearchQuery(term, filters);
+  return filters.sort ? { q, sort: filters.sort, order: filters.order } : { q };
+}
+
+export function buildRepoSearchQuery(term: string, filters: RepoSearchFilters): string {
+  return buildQuery(term, repoQualifierKeys, filters, repoRangeKeys);
+}
+
+export function buildRepoSearchRequest(term: string, filters: RepoSearchFilters): RepoSearchRequest {
+  const q = buildRepoSearchQuery(term, filters);
+  return filters.sort ? { q, sort: filters.sort, order: filters.order } : { q };
+}
+
+export function buildSearchRequest({ mode, term, filters, repoFilters }: SearchInput): SearchRequest {
+  return mode === "repos"
+    ? { mode, ...buildRepoSearchRequest(term, repoFilters) }
+    : { mode, ...buildUserSearchRequest(term, filters) };
+}
+
+export function countActiveFilters(filters: UserSearchFilters): number {
+  return qualifierKeys.filter(key => filters[key].trim()).length + (filters.sort ? 1 : 0);
+}
+
+export function countActiveRepoFilters(filters: RepoSearchFilters): number {
+  return repoQualifierKeys.filter(key => filters[key].trim()).length + (filters.sort ? 1 : 0);
+}
+
+const rangePattern = /^(?:[<>]=?\s*[\w-]+|[\w*-]+\.\.[\w*-]+|[\w-]+)$/;
+
+/** Loose check used to flag obviously malformed range inputs before GitHub rejects them with a 422. */
+export function isValidRange(value: string): boolean {
+  return !value.trim() || rangePattern.test(value.trim());
+}
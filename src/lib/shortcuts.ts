@@ -0,0 +1,34 @@
+/** A global keyboard shortcut, registered with `useShortcuts` and listed in the help overlay. */
+export interface Shortcut {
+  /** Values of `KeyboardEvent.key` that trigger it, such as `"j"` or `"Escape"`. */
+  keys: string[];
+  description: string;
+  run: (event: KeyboardEvent) => void;
+}
+
+const activatedByEnter = ["BUTTON", "A", "SUMMARY"];
+
+/** Whether `target` does something with `key` itself: fields take every key, buttons and links take Enter and space. */
+export function handlesKey(target: EventTarget | null, key: string): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)) return true;
+  if (target.getAttribute("role") === "combobox") return true;
+  return (key === "Enter" || key === " ") && activatedByEnter.includes(target.tagName);
+}
+
+/**
+ * The shortcut `event` triggers, if any. Nothing fires while typing, with a modifier held, or while a
+ * dialog has the keyboard, so shortcuts never steal keys from whatever is focused.
+ */
+export function findShortcut(shortcuts: Shortcut[], event: KeyboardEvent): Shortcut | undefined {
+  if (event.defaultPrevented || event.isComposing || event.ctrlKey || event.metaKey || event.altKey) return undefined;
+  if (handlesKey(event.target, event.key)) return undefined;
+  const target = event.target instanceof Element ? event.target : null;
+  if (target?.closest('[role="dialog"]') || document.querySelector('[aria-modal="true"]')) return undefined;
+  return shortcuts.find(shortcut => shortcut.keys.includes(event.key));
+}
+
+const keyLabels: Record<string, string> = { Escape: "Esc", " ": "Space" };
+
+/** How a key is printed in the help overlay. */
+export const formatKey = (key: string): string => keyLabels[key] ?? key;
@@ -0,0 +1,35 @@
+export const STORAGE_KEYS = {
+  token: "github-explorer:token",
+  /** Index of the response cache; entries live under `${cache}:<url>`. */
+  cache: "github-explorer:cache",
+  prefetch: "github-explorer:prefetch",
+  watchlist: "github-explorer:watchlist",
+  history: "github-explorer:history",
+  savedSearches: "github-explorer:saved-searches",
+} as const;
+
+/** Fired on `window` after every write so hooks in the same tab stay in sync. */
+export const STORAGE_EVENT = "github-explorer:storage";
+
+/** Reads a JSON value from localStorage, falling back when it is missing or unreadable. */
+export function readStorage<T>(key: string, fallback: T): T {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch {
+    return fallback;
+  }
+}
+
+export function writeStorage<T>(key: string, value: T | null): void {
+  try {
+    if (value === null) {
+      window.localStorage.removeItem(key);
+    } else {
+      window.localStorage.setItem(key, JSON.stringify(value));
+    }
+  } catch {
+    // Storage can be full or disabled (e.g. private mode); the app keeps working without it.
+  }
+  window.dispatchEvent(new CustomEvent(STORAGE_EVENT, { detail: key }));
+}
@@ -0,0 +1,56 @@
+import type { UserSearchItem } from "./github-types";
+import { matchSearches, type HistoryEntry, type SavedSearch } from "./search-history";
+
+/** How many matching logins the search bar offers. */
+export const LOGIN_SUGGESTIONS = 5;
+
+/** One option of the search bar's dropdown. */
+export type Suggestion =
+  | { kind: "user"; user: UserSearchItem }
+  | { kind: "saved"; search: SavedSearch }
+  | { kind: "recent"; entry: HistoryEntry };
+
+/** Logins containing `term`, exact and prefix matches first, otherwise in GitHub's relevance order. */
+export function rankLogins(users: UserSearchItem[], term: string, limit = LOGIN_SUGGESTIONS): UserSearchItem[] {
+  const needle = term.trim().toLowerCase();
+  if (!needle) return [];
+  const rank = (login: string) => (login === needle ? 0 : login.startsWith(needle) ? 1 : 2);
+  return users
+    .map((user, index) => ({ user, index, rank: rank(user.login.toLowerCase()) }))
+    .filter(({ user }) => user.login.toLowerCase().includes(needle))
+    .sort((a, b) => a.rank - b.rank || a.index - b.index)
+    .slice(0, limit)
+    .map(({ user }) => user);
+}
+
+interface SuggestionSources {
+  term: string;
+  /** Users found for `term`; empty while the search for it is still settling. */
+  users: UserSearchItem[];
+  saved: SavedSearch[];
+  history: HistoryEntry[];
+}
+
+/** Everything the dropdown offers for `term`, in display order: matching users, then saved, then recent searches. */
+export function buildSuggestions({ term, users, saved, history }: SuggestionSources): Suggestion[] {
+  return [
+    ...rankLogins(users, term).map(user => ({ kind: "user" as const, user })),
+    ...matchSearches(saved, term).map(search => ({ kind: "saved" as const, search })),
+    ...matchSearches(history, term).map(entry => ({ kind: "recent" as const, entry })),
+  ];
+}
+
+/** Stable key of an option, for React lists and ARIA ids. */
+export function suggestionKey(suggestion: Suggestion): string {
+  switch (suggestion.kind) {
+    case "user":
+      return `user-${suggestion.user.login}`;
+    case "saved":
+      return `saved-${suggestion.search.id}`;
+    case "recent":
+      return `recent-${suggestion.entry.searchedAt}`;
+  }
+}
+
+/** Id of the option at `index`, for `aria-activedescendant`. */
+export const suggestionId = (listId: string, index: number): string => `${listId}-option-${index}`;
@@ -0,0 +1,103 @@
+import type { SearchReposSort, SearchUsersSort } from "./github-types";
+import {
+  emptyFilters,
+  emptyRepoFilters,
+  type AccountFilter,
+  type RepoSearchFilters,
+  type SearchInput,
+  type UserSearchFilters,
+} from "./search-query";
+
+/** Everything needed to rebuild a results screen from a shared link. */
+export interface UrlState extends SearchInput {
+  page: number;
+  /** Login of the user whose accordion item is open. */
+  expanded: string | null;
+}
+
+const textParams = ["location", "language", "followers", "repos", "created"] as const;
+const repoTextParams = ["language", "stars", "topic", "pushed"] as const;
+const accountTypes: AccountFilter[] = ["user", "org"];
+const sorts: SearchUsersSort[] = ["followers", "repositories", "joined"];
+const repoSorts: SearchReposSort[] = ["stars", "forks", "help-wanted-issues", "updated"];
+
+function parseUserFilters(params: URLSearchParams): UserSearchFilters {
+  const filters = { ...emptyFilters };
+  const type = params.get("type") as AccountFilter;
+  if (accountTypes.includes(type)) filters.type = type;
+  for (const key of textParams) {
+    filters[key] = params.get(key) ?? "";
+  }
+  const sort = params.get("sort") as SearchUsersSort;
+  if (sorts.includes(sort)) {
+    filters.sort = sort;
+    filters.order = params.get("order") === "asc" ? "asc" : "desc";
+  }
+  return filters;
+}
+
+function parseRepoFilters(params: URLSearchParams): RepoSearchFilters {
+  const filters = { ...emptyRepoFilters };
+  for (const key of repoTextParams) {
+    filters[key] = params.get(key) ?? "";
+  }
+  const sort = params.get("sort") as SearchReposSort;
+  if (repoSorts.includes(sort)) {
+    filters.sort = sort;
+    filters.order = params.get("order") === "asc" ? "asc" : "desc";
+  }
+  return filters;
+}
+
+/** Only the filters of the link's mode are read, since both modes share parameter names like `language`. */
+export function parseUrlState(search: string): UrlState {
+  const params = new URLSearchParams(search);
+  const mode = params.get("mode") === "repos" ? "repos" : "users";
+  const page = Number(params.get("page"));
+  return {
+    mode,
+    term: params.get("q") ?? "",
+    filters: mode === "users" ? parseUserFilters(params) : emptyFilters,
+    repoFilters: mode === "repos" ? parseRepoFilters(params) : emptyRepoFilters,
+    page: Number.isInteger(page) && page > 1 ? page : 1,
+    expanded: mode === "users" ? params.get("user") || null : null,
+  };
+}
+
+/** Serializes to a `location.search` string, leaving out defaults so links stay short. */
+export function serializeUrlState({ mode, term, filters, repoFilters, page, expanded }: UrlState): string {
+  const params = new URLSearchParams();
+  if (mode === "repos") params.set("mode", mode);
+  if (term.trim()) params.set("q", term.trim());
+  if (mode === "users") {
+    if (filters.type) params.set("type", filters.type);
+    for (const key of textParams) {
+      if (filters[key].trim()) params.set(key, filters[key].trim());
+    }
+  } else {
+    for (const key of repoTextParams) {
+      if (repoFilters[key].trim()) params.set(key, repoFilters[key].trim());
+    }
+  }
+  const { sort, order } = mode === "users" ? filters : repoFilters;
+  if (sort) {
+    params.set("sort", sort);
+    params.set("order", order);
+  }
+  if (page > 1) params.set("page", String(page));
+  if (mode === "users" && expanded) params.set("user", expanded);
+  const query = params.toString();
+  return query ? `?${query}` : "";
+}
+
+/** Link that opens `login` in the user explorer, searched by name and expanded. */
+export function userExplorerSearch(login: string): string {
+  return serializeUrlState({
+    mode: "users",
+    term: login,
+    filters: emptyFilters,
+    repoFilters: emptyRepoFilters,
+    page: 1,
+    expanded: login,
+  });
+}
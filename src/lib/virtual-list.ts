@@ -0,0 +1,59 @@
+/** Rows rendered past each edge of the viewport, so fast scrolling does not show gaps. */
+export const DEFAULT_OVERSCAN = 5;
+
+/** The slice of a list to render, and the space the rows outside it take up. */
+export interface VirtualRange {
+  /** First rendered index. */
+  start: number;
+  /** One past the last rendered index. */
+  end: number;
+  /** Height of the rows above `start`, including their gaps. */
+  before: number;
+  /** Height of the rows from `end` on, including their gaps. */
+  after: number;
+}
+
+interface RangeInput {
+  /** Height of every row, measured or estimated. */
+  sizes: number[];
+  /** Space between rows. */
+  gap?: number;
+  /** The visible part of the list, in pixels from its top; either edge may lie outside the list. */
+  viewportStart: number;
+  viewportEnd: number;
+  overscan?: number;
+}
+
+/** Which rows of a list of `sizes` cross the viewport, widened by `overscan` rows on each side. */
+export function getVirtualRange({ sizes, gap = 0, viewportStart, viewportEnd, overscan = DEFAULT_OVERSCAN }: RangeInput): VirtualRange {
+  const count = sizes.length;
+  if (count === 0) return { start: 0, end: 0, before: 0, after: 0 };
+  const tops: number[] = [];
+  let top = 0;
+  for (const size of sizes) {
+    tops.push(top);
+    top += size + gap;
+  }
+  const total = top - gap;
+  const bottom = (index: number) => tops[index] + sizes[index];
+
+  let first = 0;
+  while (first < count - 1 && bottom(first) <= viewportStart) first++;
+  let last = first;
+  while (last < count - 1 && tops[last + 1] < viewportEnd) last++;
+
+  const start = Math.max(0, first - overscan);
+  const end = Math.min(count, last + 1 + overscan);
+  return { start, end, before: tops[start], after: total - bottom(end - 1) };
+}
+
+/** The space taken by the rows before `start` and from `end` on, including their gaps. */
+export function getRangePadding(sizes: number[], start: number, end: number, gap = 0): Pick<VirtualRange, "before" | "after"> {
+  let before = 0;
+  let after = 0;
+  sizes.forEach((size, index) => {
+    if (index < start) before += size + gap;
+    else if (index >= end) after += size + gap;
+  });
+  return { before, after };
+}
@@ -0,0 +1,200 @@
+import type { Repo, SimpleUser, User } from "./github-types";
+
+export interface UserStats {
+  followers: number;
+  publicRepos: number;
+}
+
+export interface RepoStats {
+  stars: number;
+  forks: number;
+  openIssues: number;
+  pushedAt: string | null;
+}
+
+/**
+ * `seen` holds the stats as of `seenAt`, the last time the list was closed or marked as seen; changes
+ * are measured against it. Users added from search results have no stats until their first refresh.
+ */
+export interface WatchedUser {
+  kind: "user";
+  login: string;
+  addedAt: string;
+  seenAt: string;
+  seen?: UserStats;
+}
+
+export interface WatchedRepo {
+  kind: "repo";
+  /** `owner/name`, as in `Repo.full_name`. */
+  fullName: string;
+  addedAt: string;
+  seenAt: string;
+  seen?: RepoStats;
+}
+
+export type WatchItem = WatchedUser | WatchedRepo;
+
+/** What a refresh brought back for one entry. */
+export type WatchCurrent =
+  | { kind: "user"; profile: User; recentRepos: Repo[] }
+  | { kind: "repo"; repo: Repo };
+
+export interface StatChange {
+  label: string;
+  delta: number;
+}
+
+export interface WatchChanges {
+  stats: StatChange[];
+  /** Repositories a watched user created since the list was last seen. */
+  newRepos: Repo[];
+  /** A watched repository received pushes since the list was last seen. */
+  pushed: boolean;
+}
+
+/** Identifies an entry; user logins and repo names are case-insensitive on GitHub. */
+export const watchKey = (item: Pick<WatchedUser, "kind" | "login"> | Pick<WatchedRepo, "kind" | "fullName">): string =>
+  `${item.kind}:${(item.kind === "user" ? item.login : item.fullName).toLowerCase()}`;
+
+export const userStats = (profile: User): UserStats => ({
+  followers: profile.followers,
+  publicRepos: profile.public_repos,
+});
+
+export const repoStats = (repo: Repo): RepoStats => ({
+  stars: repo.stargazers_count,
+  forks: repo.forks_count,
+  openIssues: repo.open_issues_count,
+  pushedAt: repo.pushed_at,
+});
+
+export function watchUser(account: SimpleUser, now = new Date()): WatchedUser {
+  return { kind: "user", login: account.login, addedAt: now.toISOString(), seenAt: now.toISOString() };
+}
+
+export function watchRepo(repo: Repo, now = new Date()): WatchedRepo {
+  return {
+    kind: "repo",
+    fullName: repo.full_name,
+    addedAt: now.toISOString(),
+    seenAt: now.toISOString(),
+    seen: repoStats(repo),
+  };
+}
+
+/** Adds the entry, or removes it when it is already on the list. */
+export function toggleWatch(items: WatchItem[], item: WatchItem): WatchItem[] {
+  const key = watchKey(item);
+  return items.some(existing => watchKey(existing) === key)
+    ? items.filter(existing => watchKey(existing) !== key)
+    : [...items, item];
+}
+
+const isAfter = (iso: string | null, since: string) => iso !== null && Date.parse(iso) > Date.parse(since);
+
+const stat = (label: string, before: number, after: number): StatChange[] =>
+  after !== before ? [{ label, delta: after - before }] : [];
+
+/** How `current` differs from what was last seen; nothing has changed for an entry seen for the first time. */
+export function describeChanges(item: WatchItem, current: WatchCurrent): WatchChanges {
+  if (item.kind === "user" && current.kind === "user") {
+    const before = item.seen;
+    return {
+      stats: before ? [
+        ...stat("followers", before.followers, current.profile.followers),
+        ...stat("public repos", before.publicRepos, current.profile.public_repos),
+      ] : [],
+      newRepos: before ? current.recentRepos.filter(repo => isAfter(repo.created_at, item.seenAt)) : [],
+      pushed: false,
+    };
+  }
+  if (item.kind === "repo" && current.kind === "repo" && item.seen) {
+    const before = item.seen;
+    return {
+      stats: [
+        ...stat("stars", before.stars, current.repo.stargazers_count),
+        ...stat("forks", before.forks, current.repo.forks_count),
+        ...stat("open issues", before.openIssues, current.repo.open_issues_count),
+      ],
+      newRepos: [],
+      pushed: isAfter(current.repo.pushed_at, item.seenAt) && current.repo.pushed_at !== before.pushedAt,
+    };
+  }
+  return { stats: [], newRepos: [], pushed: false };
+}
+
+export const hasChanges = (changes: WatchChanges): boolean =>
+  changes.stats.length > 0 || changes.newRepos.length > 0 || changes.pushed;
+
+/** Takes `current` as the new baseline, so changes are counted from now on. */
+export function markSeen(item: WatchItem, current: WatchCurrent, now = new Date()): WatchItem {
+  if (item.kind === "user" && current.kind === "user") {
+    return { ...item, seen: userStats(current.profile), seenAt: now.toISOString() };
+  }
+  if (item.kind === "repo" && current.kind === "repo") {
+    return { ...item, seen: repoStats(current.repo), seenAt: now.toISOString() };
+  }
+  return item;
+}
+
+/** The file written by "Export list"; `version` leaves room to change the format later. */
+export interface WatchlistFile {
+  version: 1;
+  items: WatchItem[];
+}
+
+export function serializeWatchlist(items: WatchItem[]): string {
+  const file: WatchlistFile = { version: 1, items };
+  return JSON.stringify(file, null, 2) + "\n";
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null;
+const isDate = (value: unknown): value is string => typeof value === "string" && !Number.isNaN(Date.parse(value));
+const isCount = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+function parseItem(value: unknown, now: string): WatchItem | null {
+  if (!isRecord(value)) return null;
+  const addedAt = isDate(value.addedAt) ? value.addedAt : now;
+  const seenAt = isDate(value.seenAt) ? value.seenAt : now;
+  const seen = isRecord(value.seen) ? value.seen : null;
+  if (value.kind === "user" && typeof value.login === "string" && /^[\w-]+$/.test(value.login)) {
+    const stats = seen && isCount(seen.followers) && isCount(seen.publicRepos)
+      ? { followers: seen.followers, publicRepos: seen.publicRepos }
+      : undefined;
+    return { kind: "user", login: value.login, addedAt, seenAt, ...(stats && { seen: stats }) };
+  }
+  if (value.kind === "repo" && typeof value.fullName === "string" && /^[\w.-]+\/[\w.-]+$/.test(value.fullName)) {
+    const stats = seen && isCount(seen.stars) && isCount(seen.forks) && isCount(seen.openIssues)
+      ? { stars: seen.stars, forks: seen.forks, openIssues: seen.openIssues, pushedAt: isDate(seen.pushedAt) ? seen.pushedAt : null }
+      : undefined;
+    return { kind: "repo", fullName: value.fullName, addedAt, seenAt, ...(stats && { seen: stats }) };
+  }
+  return null;
+}
+
+/** Reads an exported list, dropping entries it cannot make sense of; throws when the file is not a watchlist. */
+export function parseWatchlist(text: string, now = new Date()): WatchItem[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  if (!isRecord(data) || data.version !== 1 || !Array.isArray(data.items)) {
+    throw new Error("The file is not an exported watchlist.");
+  }
+  return data.items.flatMap(item => parseItem(item, now.toISOString()) ?? []);
+}
+
+/** Adds imported entries that are not on the list yet; entries already watched keep their own history. */
+export function mergeWatchlists(items: WatchItem[], imported: WatchItem[]): WatchItem[] {
+  const keys = new Set(items.map(watchKey));
+  const merged = [...items];
+  for (const item of imported) {
+    if (keys.has(watchKey(item))) continue;
+    keys.add(watchKey(item));
+    merged.push(item);
+  }
+  return merged;
+}